@@ -1,6 +1,7 @@
 import { BufferManagerAdaptive } from '../src/audio/BufferManagerAdaptive';
 import { QualityMonitor } from '../src/audio/QualityMonitor';
 import { AudioBufferManager } from '../src/audio/BufferManagerCore';
+import { ChunkRejectedError } from '../src/audio/ChunkValidation';
 import { EncodingTypes, SmartBufferMode } from '../src/types';
 
 describe('BufferManagerAdaptive', () => {
@@ -249,6 +250,32 @@ describe('AudioBufferManager', () => {
   });
 });
 
+describe('AudioBufferManager Chunk Validation', () => {
+  test('should throw rejected chunks with their reason when configured to', () => {
+    const manager = new AudioBufferManager({
+      validation: { onRejection: 'throw', maxChunkBytes: 100 },
+    });
+
+    expect(() => manager.enqueueFrames({ audioData: new Uint8Array(640) })).toThrow(ChunkRejectedError);
+    expect(manager.getHealthMetrics().chunkRejections.tooLarge).toBe(1);
+    manager.destroy();
+  });
+
+  test('should emit rejected chunks and play on without them', () => {
+    const manager = new AudioBufferManager({ validation: { partialSamples: 'reject' } });
+    const listener = jest.fn();
+    manager.addListener('chunkRejected', listener);
+
+    manager.enqueueFrames({ audioData: new Uint8Array(641), sequenceNumber: 0 });
+    manager.enqueueFrames({ audioData: new Uint8Array(640), sequenceNumber: 1 });
+
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ reason: 'partialSample', sequenceNumber: 0 }));
+    expect(manager.getCurrentBufferMs()).toBe(20);
+    expect(manager.getHealthMetrics().chunksRejected).toBe(1);
+    manager.destroy();
+  });
+});
+
 describe('AudioBufferManager Edge Cases', () => {
   let bufferManager: AudioBufferManager;
 
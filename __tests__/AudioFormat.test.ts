@@ -0,0 +1,135 @@
+import {
+  DefaultAudioFormat,
+  getBytesPerSample,
+  getBlockAlign,
+  bytesToDurationMs,
+  durationMsToBytes,
+  resolveAudioFormat,
+  decodePcmSamples,
+  encodePcmSamples,
+} from '../src/audio/AudioFormat';
+import { EncodingTypes, IAudioFormat } from '../src/types';
+
+describe('AudioFormat', () => {
+  const float24kStereo: IAudioFormat = {
+    sampleRate: 24000,
+    encoding: EncodingTypes.PCM_F32LE,
+    channels: 2,
+  };
+
+  describe('Defaults', () => {
+    test('should default to 16kHz mono s16', () => {
+      expect(DefaultAudioFormat).toEqual({
+        sampleRate: 16000,
+        encoding: EncodingTypes.PCM_S16LE,
+        channels: 1,
+      });
+    });
+  });
+
+  describe('Sample Sizes', () => {
+    test('should return bytes per sample for each encoding', () => {
+      expect(getBytesPerSample(EncodingTypes.PCM_S16LE)).toBe(2);
+      expect(getBytesPerSample(EncodingTypes.PCM_F32LE)).toBe(4);
+    });
+
+    test('should include channels in block align', () => {
+      expect(getBlockAlign(DefaultAudioFormat)).toBe(2);
+      expect(getBlockAlign(float24kStereo)).toBe(8);
+    });
+  });
+
+  describe('Duration Conversion', () => {
+    test('should convert bytes to duration for the default format', () => {
+      expect(bytesToDurationMs(640, DefaultAudioFormat)).toBe(20);
+    });
+
+    test('should convert bytes to duration for 24kHz float stereo', () => {
+      // 480 sample frames * 8 bytes = 20ms at 24kHz
+      expect(bytesToDurationMs(3840, float24kStereo)).toBe(20);
+    });
+
+    test('should convert duration to bytes', () => {
+      expect(durationMsToBytes(20, DefaultAudioFormat)).toBe(640);
+      expect(durationMsToBytes(20, float24kStereo)).toBe(3840);
+    });
+
+    test('should align converted byte counts to whole sample frames', () => {
+      const format: IAudioFormat = {
+        sampleRate: 44100,
+        encoding: EncodingTypes.PCM_S16LE,
+        channels: 2,
+      };
+
+      // 10.01ms at 44.1kHz = 441.441 sample frames -> 441 frames
+      expect(durationMsToBytes(10.01, format)).toBe(441 * 4);
+    });
+  });
+
+  describe('Format Resolution', () => {
+    test('should return the default format without sources', () => {
+      const format = resolveAudioFormat();
+      expect(format).toEqual(DefaultAudioFormat);
+      expect(format).not.toBe(DefaultAudioFormat);
+    });
+
+    test('should merge sources in order', () => {
+      const format = resolveAudioFormat(
+        { sampleRate: 48000, channels: 2 },
+        undefined,
+        { sampleRate: 24000, encoding: EncodingTypes.PCM_F32LE }
+      );
+
+      expect(format).toEqual({
+        sampleRate: 24000,
+        encoding: EncodingTypes.PCM_F32LE,
+        channels: 2,
+      });
+    });
+
+    test('should ignore undefined fields', () => {
+      const format = resolveAudioFormat(
+        { sampleRate: 24000 },
+        { sampleRate: undefined, encoding: undefined, channels: undefined }
+      );
+
+      expect(format.sampleRate).toBe(24000);
+      expect(format.encoding).toBe(EncodingTypes.PCM_S16LE);
+      expect(format.channels).toBe(1);
+    });
+  });
+
+  describe('Sample Conversion', () => {
+    test('should round trip s16 samples', () => {
+      const samples = new Float32Array([0, 0.5, -0.5, 1]);
+      const bytes = encodePcmSamples(samples, EncodingTypes.PCM_S16LE);
+
+      expect(bytes.length).toBe(8);
+      const decoded = decodePcmSamples(bytes, EncodingTypes.PCM_S16LE);
+      decoded.forEach((sample, i) => expect(sample).toBeCloseTo(samples[i], 3));
+    });
+
+    test('should round trip f32 samples exactly', () => {
+      const samples = new Float32Array([0.25, -0.75]);
+      const bytes = encodePcmSamples(samples, EncodingTypes.PCM_F32LE);
+
+      expect(bytes.length).toBe(8);
+      expect(decodePcmSamples(bytes, EncodingTypes.PCM_F32LE)).toEqual(samples);
+    });
+
+    test('should clamp samples outside [-1, 1]', () => {
+      const bytes = encodePcmSamples(new Float32Array([2, -2]), EncodingTypes.PCM_S16LE);
+      const view = new DataView(bytes.buffer);
+
+      expect(view.getInt16(0, true)).toBe(32767);
+      expect(view.getInt16(2, true)).toBe(-32767);
+    });
+
+    test('should decode from a byte view with an offset', () => {
+      const backing = new Uint8Array([0xff, 0x7f, 0x00, 0x40]);
+      const decoded = decodePcmSamples(backing.subarray(2), EncodingTypes.PCM_S16LE);
+
+      expect(decoded).toEqual(new Float32Array([0x4000 / 32768]));
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  audioDataToBase64,
+  audioDataToBytes,
+  decodeBase64,
+  encodeBase64,
+} from '../src/audio/Base64';
+
+describe('Base64', () => {
+  const samples: Array<[number[], string]> = [
+    [[], ''],
+    [[0x66], 'Zg=='],
+    [[0x66, 0x6f], 'Zm8='],
+    [[0x66, 0x6f, 0x6f], 'Zm9v'],
+    [[0x00, 0xff, 0x10, 0x80], 'AP8QgA=='],
+  ];
+
+  describe('With native btoa/atob', () => {
+    test.each(samples)('should encode %p', (bytes, expected) => {
+      expect(encodeBase64(new Uint8Array(bytes))).toBe(expected);
+    });
+
+    test.each(samples)('should decode to %p', (bytes, encoded) => {
+      expect(Array.from(decodeBase64(encoded))).toEqual(bytes);
+    });
+
+    test('should encode large buffers', () => {
+      const bytes = new Uint8Array(100000).map((_, i) => i % 256);
+      const decoded = decodeBase64(encodeBase64(bytes));
+      expect(decoded).toEqual(bytes);
+    });
+  });
+
+  describe('Without native btoa/atob', () => {
+    const originalBtoa = globalThis.btoa;
+    const originalAtob = globalThis.atob;
+
+    beforeEach(() => {
+      // @ts-ignore - intentionally removing btoa/atob for testing
+      delete globalThis.btoa;
+      // @ts-ignore - intentionally removing btoa/atob for testing
+      delete globalThis.atob;
+    });
+
+    afterEach(() => {
+      globalThis.btoa = originalBtoa;
+      globalThis.atob = originalAtob;
+    });
+
+    test.each(samples)('should encode %p', (bytes, expected) => {
+      expect(encodeBase64(new Uint8Array(bytes))).toBe(expected);
+    });
+
+    test.each(samples)('should decode to %p', (bytes, encoded) => {
+      expect(Array.from(decodeBase64(encoded))).toEqual(bytes);
+    });
+
+    test('should decode unpadded input', () => {
+      expect(Array.from(decodeBase64('Zm8'))).toEqual([0x66, 0x6f]);
+    });
+
+    test('should reject characters outside the alphabet', () => {
+      expect(() => decodeBase64('Zm9v!')).toThrow('Invalid base64 character');
+    });
+  });
+
+  describe('Audio Data', () => {
+    test('should view binary data as bytes without copying', () => {
+      const samples = new Int16Array([1, 2, 3]);
+      const bytes = audioDataToBytes(samples.subarray(1));
+
+      expect(Array.from(bytes)).toEqual([2, 0, 3, 0]);
+      expect(bytes.buffer).toBe(samples.buffer);
+      expect(Array.from(audioDataToBytes(new Uint8Array([7]).buffer))).toEqual([7]);
+    });
+
+    test('should decode base64 strings to bytes', () => {
+      expect(Array.from(audioDataToBytes('Zm9v'))).toEqual([0x66, 0x6f, 0x6f]);
+    });
+
+    test('should encode binary data and pass base64 through', () => {
+      expect(audioDataToBase64(new Float32Array([1]))).toBe('AACAPw==');
+      expect(audioDataToBase64('Zm9v')).toBe('Zm9v');
+    });
+  });
+});
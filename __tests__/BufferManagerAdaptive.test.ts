@@ -1,4 +1,6 @@
 import { BufferManagerAdaptive } from '../src/audio/BufferManagerAdaptive';
+import { VirtualClock } from '../src/audio/Clock';
+import { PingPongConditionsProvider } from '../src/audio/NetworkConditionsProvider';
 import { EncodingTypes, SmartBufferConfig } from '../src/types';
 
 // Mock the BufferManagerCore
@@ -9,7 +11,9 @@ jest.mock('../src/audio/BufferManagerCore', () => ({
     startPlayback: jest.fn(),
     stopPlayback: jest.fn(),
     destroy: jest.fn(),
+    drain: jest.fn(),
     enqueueFrames: jest.fn(),
+    addListener: jest.fn(() => ({ remove: jest.fn() })),
     getHealthMetrics: jest.fn().mockReturnValue({
       currentBufferMs: 100,
       targetBufferMs: 200,
@@ -100,6 +104,51 @@ describe('BufferManagerAdaptive', () => {
     });
   });
 
+  describe('Buffer Configuration', () => {
+    test('should buffer in the stream format over the base config', () => {
+      const { AudioBufferManager } = require('../src/audio/BufferManagerCore');
+      adaptiveManager = new BufferManagerAdaptive(
+        {
+          mode: 'aggressive',
+          networkConditions: { latency: 300 },
+          bufferConfig: {
+            audioFormat: { sampleRate: 24000, encoding: EncodingTypes.PCM_S16LE, channels: 2 },
+            reorderWindow: 4,
+          },
+        },
+        turnId,
+        EncodingTypes.PCM_F32LE
+      );
+
+      expect(adaptiveManager.isBufferingEnabled()).toBe(true);
+      expect(AudioBufferManager).toHaveBeenCalledWith(
+        expect.objectContaining({
+          audioFormat: { sampleRate: 24000, encoding: 'pcm_f32le', channels: 2 },
+          reorderWindow: 4,
+          targetBufferMs: 400,
+        }),
+        expect.anything(),
+        expect.anything()
+      );
+    });
+
+    test('should play directly in the stream encoding', async () => {
+      adaptiveManager = new BufferManagerAdaptive(
+        {
+          mode: 'conservative',
+          bufferConfig: {
+            audioFormat: { sampleRate: 24000, encoding: EncodingTypes.PCM_F32LE, channels: 1 },
+          },
+        },
+        turnId
+      );
+
+      await adaptiveManager.processAudioChunk({ audioData: 'dGVzdA==' }, mockDirectPlayCallback);
+
+      expect(mockDirectPlayCallback).toHaveBeenCalledWith('dGVzdA==', turnId, 'pcm_f32le');
+    });
+  });
+
   describe('Buffering Mode Logic', () => {
     test('conservative mode should buffer only on severe network problems', async () => {
       const config: SmartBufferConfig = {
@@ -250,6 +299,109 @@ describe('BufferManagerAdaptive', () => {
     });
   });
 
+  describe('Drain', () => {
+    test('should drain and release the buffer, starting a new one for later chunks', async () => {
+      const { AudioBufferManager } = require('../src/audio/BufferManagerCore');
+      const config: SmartBufferConfig = {
+        mode: 'aggressive',
+        networkConditions: { latency: 500 },
+      };
+      adaptiveManager = new BufferManagerAdaptive(config, turnId);
+      const drained = AudioBufferManager.mock.results.at(-1).value;
+
+      adaptiveManager.drain();
+
+      expect(drained.drain).toHaveBeenCalledTimes(1);
+      expect(drained.destroy).not.toHaveBeenCalled();
+
+      const audioData = { audioData: 'dGVzdA==', isFirst: false, isFinal: false };
+      await adaptiveManager.processAudioChunk(audioData, mockDirectPlayCallback);
+      expect(AudioBufferManager.mock.results.at(-1).value).not.toBe(drained);
+      adaptiveManager.destroy();
+    });
+
+    test('should release the buffer after a final chunk', async () => {
+      const { AudioBufferManager } = require('../src/audio/BufferManagerCore');
+      adaptiveManager = new BufferManagerAdaptive(
+        { mode: 'aggressive', networkConditions: { latency: 500 } },
+        turnId
+      );
+      const finished = AudioBufferManager.mock.results.at(-1).value;
+
+      await adaptiveManager.processAudioChunk(
+        { audioData: 'dGVzdA==', isFinal: true },
+        mockDirectPlayCallback
+      );
+      expect(finished.enqueueFrames).toHaveBeenCalledTimes(1);
+      expect(finished.drain).toHaveBeenCalledTimes(1);
+
+      await adaptiveManager.processAudioChunk(
+        { audioData: 'dGVzdA==', isFinal: false },
+        mockDirectPlayCallback
+      );
+      expect(AudioBufferManager.mock.results.at(-1).value).not.toBe(finished);
+      adaptiveManager.destroy();
+    });
+
+    test('should do nothing when not buffering', () => {
+      adaptiveManager = new BufferManagerAdaptive({ mode: 'conservative' }, turnId);
+
+      expect(() => adaptiveManager.drain()).not.toThrow();
+    });
+
+    test('should emit drained at once when nothing is buffered', () => {
+      adaptiveManager = new BufferManagerAdaptive({ mode: 'conservative' }, turnId);
+      const drained = jest.fn();
+      adaptiveManager.addListener('drained', drained);
+
+      adaptiveManager.drain();
+
+      expect(drained).toHaveBeenCalledWith({ isFinal: true });
+    });
+
+    test('should release a drained buffer once it has played out', () => {
+      const { AudioBufferManager } = require('../src/audio/BufferManagerCore');
+      adaptiveManager = new BufferManagerAdaptive(
+        { mode: 'aggressive', networkConditions: { latency: 500 } },
+        turnId
+      );
+      const draining = AudioBufferManager.mock.results.at(-1).value;
+      const drained = jest.fn();
+      adaptiveManager.addListener('drained', drained);
+
+      adaptiveManager.drain();
+      const [[, onDrained]] = draining.addListener.mock.calls;
+      onDrained({ isFinal: false });
+      expect(draining.destroy).not.toHaveBeenCalled();
+      expect(drained).not.toHaveBeenCalled();
+
+      onDrained({ isFinal: true });
+
+      expect(draining.destroy).toHaveBeenCalledTimes(1);
+      expect(drained).toHaveBeenCalledWith({ isFinal: true });
+    });
+
+    test('should stop buffers still playing out on destroy', async () => {
+      const { AudioBufferManager } = require('../src/audio/BufferManagerCore');
+      adaptiveManager = new BufferManagerAdaptive(
+        { mode: 'aggressive', networkConditions: { latency: 500 } },
+        turnId
+      );
+      const drained = AudioBufferManager.mock.results.at(-1).value;
+      adaptiveManager.drain();
+      await adaptiveManager.processAudioChunk(
+        { audioData: 'dGVzdA==', isFinal: true },
+        mockDirectPlayCallback
+      );
+      const finished = AudioBufferManager.mock.results.at(-1).value;
+
+      adaptiveManager.destroy();
+
+      expect(drained.destroy).toHaveBeenCalledTimes(1);
+      expect(finished.destroy).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('Disable Buffering Coverage', () => {
     test('should properly disable buffering when buffer manager exists', async () => {
       const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
@@ -390,4 +542,400 @@ describe('BufferManagerAdaptive', () => {
       adaptiveManager.destroy();
     });
   });
+
+  describe('Transitions', () => {
+    const { AudioBufferManager } = require('../src/audio/BufferManagerCore');
+    const chunk = (audioData: string) => ({ audioData, isFirst: false, isFinal: false });
+    let clock: VirtualClock;
+    let consoleSpy: jest.SpyInstance;
+
+    const createManager = (config: Partial<SmartBufferConfig> = {}): BufferManagerAdaptive =>
+      new BufferManagerAdaptive(
+        { mode: 'balanced', ...config },
+        turnId,
+        EncodingTypes.PCM_S16LE,
+        clock
+      );
+
+    const finishDrain = (manager: { addListener: jest.Mock }, isFinal: boolean = true): void => {
+      const [[, listener]] = manager.addListener.mock.calls;
+      listener({ isFinal });
+    };
+
+    beforeEach(() => {
+      clock = new VirtualClock();
+      consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+    });
+
+    afterEach(() => {
+      consoleSpy.mockRestore();
+    });
+
+    test('should emit a transition with the condition that caused it', () => {
+      adaptiveManager = createManager();
+      const listener = jest.fn();
+      adaptiveManager.addListener('transition', listener);
+
+      adaptiveManager.updateNetworkConditions({ packetLoss: 5 });
+
+      expect(listener).toHaveBeenCalledWith({
+        bufferingEnabled: true,
+        reason: 'packetLoss',
+        networkConditions: { packetLoss: 5 },
+      });
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('reason: packetLoss'));
+    });
+
+    test('should not switch again within the cooldown', () => {
+      adaptiveManager = createManager({ networkConditions: { latency: 300 } });
+      const listener = jest.fn();
+      adaptiveManager.addListener('transition', listener);
+
+      adaptiveManager.updateNetworkConditions({ latency: 20 });
+      expect(adaptiveManager.isBufferingEnabled()).toBe(true);
+
+      clock.advance(10000);
+      adaptiveManager.updateNetworkConditions({ latency: 20 });
+
+      expect(adaptiveManager.isBufferingEnabled()).toBe(false);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ bufferingEnabled: false, reason: 'recovered' })
+      );
+    });
+
+    test('should honor a configured cooldown', () => {
+      adaptiveManager = createManager({
+        networkConditions: { latency: 300 },
+        transitions: { cooldownMs: 1000 },
+      });
+
+      clock.advance(1000);
+      adaptiveManager.updateNetworkConditions({ latency: 20 });
+
+      expect(adaptiveManager.isBufferingEnabled()).toBe(false);
+    });
+
+    test('should need conditions to recover past the hysteresis margin', () => {
+      adaptiveManager = createManager({
+        networkConditions: { latency: 160 },
+        transitions: { cooldownMs: 0, hysteresisPercent: 20 },
+      });
+
+      // 130ms is under the 150ms threshold but not under 120ms
+      adaptiveManager.updateNetworkConditions({ latency: 130 });
+      expect(adaptiveManager.isBufferingEnabled()).toBe(true);
+
+      adaptiveManager.updateNetworkConditions({ latency: 110 });
+      expect(adaptiveManager.isBufferingEnabled()).toBe(false);
+    });
+
+    test.each([
+      ['conservative', { latency: 300 }],
+      ['balanced', { latency: 200 }],
+      ['aggressive', { latency: 150 }],
+    ] as const)(
+      '%s mode should keep buffering while problems persist',
+      (mode, networkConditions) => {
+        adaptiveManager = createManager({
+          mode,
+          networkConditions,
+          transitions: { cooldownMs: 0 },
+        });
+        for (let i = 0; i < 4; i++) {
+          adaptiveManager.updateNetworkConditions(networkConditions);
+        }
+
+        adaptiveManager.updateNetworkConditions({ latency: 0 });
+
+        expect(adaptiveManager.isBufferingEnabled()).toBe(true);
+      }
+    );
+
+    test('aggressive mode should play direct on a clean network', () => {
+      adaptiveManager = createManager({ mode: 'aggressive', networkConditions: { latency: 20 } });
+
+      expect(adaptiveManager.isBufferingEnabled()).toBe(false);
+    });
+
+    test('should play out the buffer before playing direct, holding chunks meanwhile', async () => {
+      adaptiveManager = createManager({
+        networkConditions: { latency: 300 },
+        transitions: { cooldownMs: 0 },
+      });
+      const outgoing = AudioBufferManager.mock.results.at(-1).value;
+      await adaptiveManager.processAudioChunk(chunk('buffered'), mockDirectPlayCallback);
+
+      adaptiveManager.updateNetworkConditions({ latency: 20 });
+      await adaptiveManager.processAudioChunk(chunk('held-1'), mockDirectPlayCallback);
+      await adaptiveManager.processAudioChunk(chunk('held-2'), mockDirectPlayCallback);
+
+      expect(outgoing.drain).toHaveBeenCalledTimes(1);
+      expect(outgoing.destroy).not.toHaveBeenCalled();
+      expect(mockDirectPlayCallback).not.toHaveBeenCalled();
+      expect(adaptiveManager.getHealthMetrics()?.currentBufferMs).toBe(100);
+
+      finishDrain(outgoing, false);
+      expect(mockDirectPlayCallback).not.toHaveBeenCalled();
+
+      finishDrain(outgoing);
+      await adaptiveManager.processAudioChunk(chunk('direct'), mockDirectPlayCallback);
+
+      expect(outgoing.destroy).toHaveBeenCalledTimes(1);
+      expect(mockDirectPlayCallback.mock.calls.map(([audioData]) => audioData)).toEqual([
+        'held-1',
+        'held-2',
+        'direct',
+      ]);
+    });
+
+    test('should start a new buffer after the handoff when buffering comes back', async () => {
+      adaptiveManager = createManager({
+        networkConditions: { latency: 300 },
+        transitions: { cooldownMs: 0 },
+      });
+      const outgoing = AudioBufferManager.mock.results.at(-1).value;
+
+      adaptiveManager.updateNetworkConditions({ latency: 20 });
+      adaptiveManager.updateNetworkConditions({ latency: 300 });
+      await adaptiveManager.processAudioChunk(chunk('held'), mockDirectPlayCallback);
+      expect(AudioBufferManager).toHaveBeenCalledTimes(1);
+
+      finishDrain(outgoing);
+
+      const incoming = AudioBufferManager.mock.results.at(-1).value;
+      expect(incoming).not.toBe(outgoing);
+      expect(incoming.enqueueFrames).toHaveBeenCalledWith(chunk('held'));
+      expect(mockDirectPlayCallback).not.toHaveBeenCalled();
+    });
+
+    test('should log a held chunk that fails to play', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const failingPlay = jest.fn().mockRejectedValue(new Error('playback failed'));
+      adaptiveManager = createManager({
+        networkConditions: { latency: 300 },
+        transitions: { cooldownMs: 0 },
+      });
+      const outgoing = AudioBufferManager.mock.results.at(-1).value;
+
+      adaptiveManager.updateNetworkConditions({ latency: 20 });
+      await adaptiveManager.processAudioChunk(chunk('held'), failingPlay);
+      finishDrain(outgoing);
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to play held chunk'),
+        expect.any(Error)
+      );
+      errorSpy.mockRestore();
+    });
+
+    test('should drop the handoff on destroy', async () => {
+      adaptiveManager = createManager({
+        networkConditions: { latency: 300 },
+        transitions: { cooldownMs: 0 },
+      });
+      const outgoing = AudioBufferManager.mock.results.at(-1).value;
+      adaptiveManager.updateNetworkConditions({ latency: 20 });
+      await adaptiveManager.processAudioChunk(chunk('held'), mockDirectPlayCallback);
+
+      adaptiveManager.destroy();
+      finishDrain(outgoing);
+
+      expect(outgoing.destroy).toHaveBeenCalled();
+      expect(mockDirectPlayCallback).not.toHaveBeenCalled();
+    });
+
+    test('should switch off without a handoff when nothing is buffered', async () => {
+      adaptiveManager = createManager({
+        networkConditions: { latency: 300 },
+        transitions: { cooldownMs: 0 },
+      });
+      adaptiveManager.drain();
+
+      adaptiveManager.updateNetworkConditions({ latency: 20 });
+      await adaptiveManager.processAudioChunk(chunk('direct'), mockDirectPlayCallback);
+
+      expect(adaptiveManager.isBufferingEnabled()).toBe(false);
+      expect(mockDirectPlayCallback).toHaveBeenCalledTimes(1);
+    });
+
+    test('should emit drained once a handoff and the buffers it started have played out', async () => {
+      adaptiveManager = createManager({
+        networkConditions: { latency: 300 },
+        transitions: { cooldownMs: 0 },
+      });
+      const outgoing = AudioBufferManager.mock.results.at(-1).value;
+      const drained = jest.fn();
+      adaptiveManager.addListener('drained', drained);
+      adaptiveManager.updateNetworkConditions({ latency: 20 });
+      adaptiveManager.updateNetworkConditions({ latency: 300 });
+      await adaptiveManager.processAudioChunk(chunk('held'), mockDirectPlayCallback);
+
+      adaptiveManager.drain();
+      finishDrain(outgoing);
+      expect(drained).not.toHaveBeenCalled();
+
+      const incoming = AudioBufferManager.mock.results.at(-1).value;
+      expect(incoming.drain).toHaveBeenCalledTimes(1);
+      finishDrain(incoming);
+
+      expect(drained).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Delay Measurement', () => {
+    let clock: VirtualClock;
+    let transition: jest.Mock;
+    let consoleSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      clock = new VirtualClock();
+      transition = jest.fn();
+      consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+      adaptiveManager = new BufferManagerAdaptive(
+        { mode: 'balanced' },
+        turnId,
+        EncodingTypes.PCM_S16LE,
+        clock
+      );
+      adaptiveManager.addListener('transition', transition);
+    });
+
+    afterEach(() => {
+      adaptiveManager.destroy();
+      consoleSpy.mockRestore();
+    });
+
+    test('should feed ping/pong round trips into latency', () => {
+      adaptiveManager.addClockSyncSample({
+        clientSendTime: 0,
+        serverReceiveTime: 250,
+        clientReceiveTime: 300,
+      });
+      adaptiveManager.updateNetworkConditions({});
+
+      expect(transition).toHaveBeenCalledWith(
+        expect.objectContaining({
+          reason: 'latency',
+          networkConditions: expect.objectContaining({ latency: 300 }),
+        })
+      );
+    });
+
+    test('should measure jitter and one-way delay from chunk send times', async () => {
+      // Sender clock runs 100ms ahead, 50ms each way
+      adaptiveManager.addClockSyncSample({
+        clientSendTime: 0,
+        serverReceiveTime: 150,
+        clientReceiveTime: 100,
+      });
+
+      // Sent every 20ms but arriving every 100ms
+      for (let i = 0; i < 12; i++) {
+        clock.advance(100);
+        await adaptiveManager.processAudioChunk(
+          { audioData: 'dGVzdA==', sentAt: 100 + i * 20 },
+          mockDirectPlayCallback
+        );
+      }
+      adaptiveManager.updateNetworkConditions({});
+
+      const [[event]] = transition.mock.calls;
+      expect(event.reason).toBe('jitter');
+      expect(event.networkConditions.jitter).toBeGreaterThan(50);
+      expect(event.networkConditions.delayVariation).toBeGreaterThan(0);
+      expect(event.networkConditions.oneWayDelay).toBeGreaterThan(50);
+    });
+
+    test('should not measure delay from chunks without a send time', async () => {
+      for (let i = 0; i < 12; i++) {
+        clock.advance(100);
+        await adaptiveManager.processAudioChunk({ audioData: 'dGVzdA==' }, mockDirectPlayCallback);
+      }
+      adaptiveManager.updateNetworkConditions({});
+
+      expect(transition).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Network Provider', () => {
+    let clock: VirtualClock;
+    let provider: PingPongConditionsProvider;
+    let consoleSpy: jest.SpyInstance;
+
+    const reportRoundTrip = (pingId: number, roundTripMs: number): void => {
+      provider.pingSent(pingId);
+      clock.advance(roundTripMs);
+      provider.pongReceived(pingId);
+    };
+
+    const createManager = (): BufferManagerAdaptive =>
+      new BufferManagerAdaptive(
+        {
+          mode: 'balanced',
+          networkProvider: provider,
+          transitions: { cooldownMs: 0 },
+        },
+        turnId,
+        EncodingTypes.PCM_S16LE,
+        clock
+      );
+
+    beforeEach(() => {
+      clock = new VirtualClock();
+      provider = new PingPongConditionsProvider(1000, clock);
+      consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+    });
+
+    afterEach(() => {
+      consoleSpy.mockRestore();
+    });
+
+    test('should start from the provider conditions', () => {
+      reportRoundTrip(1, 300);
+
+      adaptiveManager = createManager();
+
+      expect(adaptiveManager.isBufferingEnabled()).toBe(true);
+      adaptiveManager.destroy();
+    });
+
+    test('should follow provider updates', () => {
+      adaptiveManager = createManager();
+      const transition = jest.fn();
+      adaptiveManager.addListener('transition', transition);
+
+      reportRoundTrip(1, 400);
+
+      expect(adaptiveManager.isBufferingEnabled()).toBe(true);
+      expect(transition).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: 'latency' })
+      );
+      adaptiveManager.destroy();
+    });
+
+    test('should keep provider jitter when chunks carry no send times', async () => {
+      adaptiveManager = createManager();
+      reportRoundTrip(1, 20);
+      reportRoundTrip(2, 200);
+
+      await adaptiveManager.processAudioChunk({ audioData: 'dGVzdA==' }, mockDirectPlayCallback);
+      adaptiveManager.updateNetworkConditions({});
+
+      // RTT variation of 52.5ms is above the 50ms jitter threshold
+      expect(adaptiveManager.isBufferingEnabled()).toBe(true);
+      adaptiveManager.destroy();
+    });
+
+    test('should unsubscribe on destroy', () => {
+      adaptiveManager = createManager();
+
+      adaptiveManager.destroy();
+      reportRoundTrip(1, 400);
+
+      expect(adaptiveManager.isBufferingEnabled()).toBe(false);
+    });
+  });
 });
\ No newline at end of file
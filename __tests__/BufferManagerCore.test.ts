@@ -1,5 +1,7 @@
 import { AudioBufferManager } from '../src/audio/BufferManagerCore';
-import { EncodingTypes } from '../src/types';
+import { EncodingTypes, IAudioBufferConfig } from '../src/types';
+import { encodeBase64 } from '../src/audio/Base64';
+import { VirtualClock } from '../src/audio/Clock';
 import ExpoPlayAudioStreamModule from '../src/ExpoPlayAudioStreamModule';
 
 // Mock the native module
@@ -14,7 +16,7 @@ jest.mock('../src/audio/FrameProcessor', () => ({
       {
         sequenceNumber: 1,
         data: {
-          audioData: 'test-audio-data',
+          audioData: 'dGVzdC1hdWRpby1kYXRh',
           isFirst: false,
           isFinal: false,
         },
@@ -22,6 +24,11 @@ jest.mock('../src/audio/FrameProcessor', () => ({
         timestamp: Date.now(),
       }
     ]),
+    decodeChunk: jest.fn((payload) => payload.audioData),
+    setAudioFormat: jest.fn(),
+    setValidationPolicy: jest.fn(),
+    setRejectionListener: jest.fn(),
+    getStats: jest.fn().mockReturnValue({ chunksRejected: 0, chunkRejections: {} }),
     reset: jest.fn(),
   })),
 }));
@@ -32,6 +39,11 @@ jest.mock('../src/audio/QualityMonitor', () => ({
     updateBufferLevel: jest.fn(),
     recordUnderrun: jest.fn(),
     recordOverrun: jest.fn(),
+    recordConcealment: jest.fn(),
+    recordDroppedAudio: jest.fn(),
+    recordRebuffer: jest.fn(),
+    recordRebufferTime: jest.fn(),
+    setEventWindow: jest.fn(),
     getMetrics: jest.fn().mockReturnValue({
       currentBufferMs: 100,
       targetBufferMs: 240,
@@ -40,6 +52,8 @@ jest.mock('../src/audio/QualityMonitor', () => ({
       averageJitter: 5,
       bufferHealthState: 'healthy',
       adaptiveAdjustmentsCount: 0,
+      rebufferCount: 0,
+      rebufferDurationMs: 0,
     }),
     getBufferHealthState: jest.fn().mockReturnValue('healthy'),
     getRecommendedAdjustment: jest.fn().mockReturnValue(0),
@@ -64,6 +78,47 @@ describe('AudioBufferManager', () => {
     bufferManager.destroy();
   });
 
+  // A fake native player that reports playback when told to
+  const createSink = () => {
+    const chunkPlayedListeners: Array<(isFinal: boolean) => void> = [];
+    const startedListeners: Array<() => void> = [];
+    const remove = jest.fn();
+    return {
+      play: jest.fn().mockResolvedValue(undefined),
+      addChunkPlayedListener: jest.fn((listener: (isFinal: boolean) => void) => {
+        chunkPlayedListeners.push(listener);
+        return { remove };
+      }),
+      addStartedListener: jest.fn((listener: () => void) => {
+        startedListeners.push(listener);
+        return { remove };
+      }),
+      remove,
+      emitChunkPlayed: (isFinal: boolean = false) =>
+        chunkPlayedListeners.forEach((listener) => listener(isFinal)),
+      emitStarted: () => startedListeners.forEach((listener) => listener()),
+    };
+  };
+
+  // Shared by the playout suites, over their own config
+  const createTestManager = (
+    clock: VirtualClock,
+    sink: ReturnType<typeof createSink>,
+    config: Partial<IAudioBufferConfig> = {}
+  ): AudioBufferManager =>
+    new AudioBufferManager(
+      { targetBufferMs: 100, minBufferMs: 40, maxBufferMs: 400, ...config },
+      clock,
+      sink
+    );
+
+  // 20ms frames each, through the mocked FrameProcessor
+  const enqueueChunks = (manager: AudioBufferManager, count: number, isFinal: boolean = false): void => {
+    for (let i = 0; i < count; i++) {
+      manager.enqueueFrames({ audioData: 'dGVzdC1hdWRpby1kYXRh', isFinal: isFinal && i === count - 1 });
+    }
+  };
+
   describe('Constructor and Configuration', () => {
     test('should initialize with default configuration when no config provided', () => {
       const defaultManager = new AudioBufferManager();
@@ -71,76 +126,1705 @@ describe('AudioBufferManager', () => {
       expect(defaultManager.getCurrentBufferMs()).toBe(0);
     });
 
-    test('should merge provided configuration with defaults', () => {
-      const customConfig = { targetBufferMs: 300 };
-      const customManager = new AudioBufferManager(customConfig);
-      
-      const metrics = customManager.getHealthMetrics();
-      expect(metrics.targetBufferMs).toBe(300);
+    test('should merge provided configuration with defaults', () => {
+      const customConfig = { targetBufferMs: 300 };
+      const customManager = new AudioBufferManager(customConfig);
+      
+      const metrics = customManager.getHealthMetrics();
+      expect(metrics.targetBufferMs).toBe(300);
+    });
+
+    test('should set turn ID correctly', () => {
+      const turnId = 'test-turn-123';
+      expect(() => bufferManager.setTurnId(turnId)).not.toThrow();
+    });
+
+    test('should pass the event window to the quality monitor', () => {
+      const { QualityMonitor } = require('../src/audio/QualityMonitor');
+      QualityMonitor.mockClear();
+
+      const windowManager = new AudioBufferManager({ eventWindowMs: 3000 });
+      expect(QualityMonitor).toHaveBeenCalledWith(20, 3000, expect.anything());
+
+      const qualityMonitorInstance = QualityMonitor.mock.results[0].value;
+      windowManager.updateConfig({ eventWindowMs: 8000 });
+      expect(qualityMonitorInstance.setEventWindow).toHaveBeenCalledWith(8000);
+      windowManager.destroy();
+    });
+
+    test('should set encoding correctly', () => {
+      expect(() => bufferManager.setEncoding(EncodingTypes.PCM_S16LE)).not.toThrow();
+      expect(() => bufferManager.setEncoding(EncodingTypes.PCM_F32LE)).not.toThrow();
+    });
+  });
+
+  describe('Audio Format', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test('should forward the configured format to the frame processor', () => {
+      const mockFrameProcessor = require('../src/audio/FrameProcessor').FrameProcessor;
+      mockFrameProcessor.mockClear();
+
+      const format = {
+        sampleRate: 24000 as const,
+        encoding: EncodingTypes.PCM_F32LE,
+        channels: 1 as const,
+      };
+      const formatManager = new AudioBufferManager({ audioFormat: format });
+
+      expect(mockFrameProcessor).toHaveBeenCalledWith(20, format, expect.anything(), {});
+      formatManager.destroy();
+    });
+
+    test('should update the frame processor format when encoding changes', () => {
+      const mockFrameProcessor = require('../src/audio/FrameProcessor').FrameProcessor;
+      mockFrameProcessor.mockClear();
+
+      const formatManager = new AudioBufferManager();
+      const frameProcessorInstance = mockFrameProcessor.mock.results[0].value;
+
+      formatManager.setEncoding(EncodingTypes.PCM_F32LE);
+
+      expect(frameProcessorInstance.setAudioFormat).toHaveBeenCalledWith({
+        sampleRate: 16000,
+        encoding: EncodingTypes.PCM_F32LE,
+        channels: 1,
+      });
+      formatManager.destroy();
+    });
+
+    test('should play frames with the configured encoding', () => {
+      jest.useFakeTimers();
+      const formatManager = new AudioBufferManager({
+        targetBufferMs: 20,
+        minBufferMs: 20,
+        audioFormat: {
+          sampleRate: 24000,
+          encoding: EncodingTypes.PCM_F32LE,
+          channels: 1,
+        },
+      });
+
+      formatManager.enqueueFrames({ audioData: 'test-data', isFirst: true });
+      formatManager.startPlayback();
+
+      expect(mockPlaySound).toHaveBeenCalledWith(
+        'dGVzdC1hdWRpby1kYXRh',
+        'buffered-frame-1',
+        EncodingTypes.PCM_F32LE
+      );
+      formatManager.destroy();
+    });
+
+    test('should generate silence in the stream format on underrun', () => {
+      jest.useFakeTimers();
+      const formatManager = new AudioBufferManager({
+        targetBufferMs: 20,
+        minBufferMs: 20,
+        frameIntervalMs: 20,
+        audioFormat: {
+          sampleRate: 24000,
+          encoding: EncodingTypes.PCM_F32LE,
+          channels: 1,
+        },
+      });
+
+      formatManager.enqueueFrames({ audioData: 'test-data', isFirst: true });
+      formatManager.startPlayback();
+
+      // Buffer is now empty: a later tick inserts silence, the next one plays it
+      jest.advanceTimersByTime(200);
+
+      const silenceCall = mockPlaySound.mock.calls.find(
+        ([, playbackId]) => playbackId === 'buffered-frame-0'
+      );
+      expect(silenceCall).toBeDefined();
+      // 20ms of 24kHz float mono = 480 samples * 4 bytes
+      expect(atob(silenceCall![0]).length).toBe(1920);
+      formatManager.destroy();
+    });
+  });
+
+  describe('Concealment', () => {
+    let strategy: { conceal: jest.Mock; reset: jest.Mock };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      strategy = {
+        conceal: jest.fn(({ sampleFrames }) => new Float32Array(sampleFrames).fill(0.5)),
+        reset: jest.fn(),
+      };
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    const startWithOneFrame = (manager: AudioBufferManager): void => {
+      manager.enqueueFrames({ audioData: 'test-data', isFirst: true });
+      manager.startPlayback();
+      jest.advanceTimersByTime(200);
+    };
+
+    test('should play concealed audio as soon as the buffer runs short', () => {
+      const manager = new AudioBufferManager({
+        targetBufferMs: 20,
+        minBufferMs: 20,
+        concealment: strategy,
+      });
+      const { QualityMonitor } = require('../src/audio/QualityMonitor');
+      const qualityMonitorInstance = QualityMonitor.mock.results.at(-1).value;
+
+      startWithOneFrame(manager);
+
+      expect(strategy.conceal).toHaveBeenCalled();
+      const [firstContext] = strategy.conceal.mock.calls[0];
+      // 20ms at the default 16kHz mono format
+      expect(firstContext.sampleFrames).toBe(320);
+      expect(firstContext.consecutiveCount).toBe(0);
+      // 'test-audio-data' is 15 bytes: 7 whole s16 samples of history
+      expect(firstContext.history.length).toBe(7);
+      expect(strategy.conceal.mock.calls[1][0].consecutiveCount).toBe(1);
+
+      const concealedCall = mockPlaySound.mock.calls.find(
+        ([, playbackId]) => playbackId === 'buffered-frame-0'
+      );
+      expect(concealedCall).toBeDefined();
+      const bytes = Uint8Array.from(atob(concealedCall![0]), (c) => c.charCodeAt(0));
+      expect(new DataView(bytes.buffer).getInt16(0, true)).toBe(Math.round(0.5 * 32767));
+      expect(qualityMonitorInstance.recordConcealment).toHaveBeenCalledWith(20);
+      manager.destroy();
+    });
+
+    test('should bound the history kept for concealment', () => {
+      const manager = new AudioBufferManager({
+        targetBufferMs: 20,
+        minBufferMs: 20,
+        concealment: strategy,
+      });
+
+      startWithOneFrame(manager);
+
+      // Concealed frames join the history, trimmed to about 60ms
+      const { history } = strategy.conceal.mock.calls.at(-1)[0];
+      expect(history.length).toBe(320 * 3);
+      manager.destroy();
+    });
+
+    test('should switch strategies through updateConfig', () => {
+      const manager = new AudioBufferManager({ targetBufferMs: 20, minBufferMs: 20 });
+      manager.updateConfig({ concealment: strategy });
+
+      startWithOneFrame(manager);
+
+      expect(strategy.conceal).toHaveBeenCalled();
+      manager.destroy();
+    });
+
+    test('should reset the strategy when playback stops', () => {
+      const manager = new AudioBufferManager({ concealment: strategy });
+      manager.stopPlayback();
+
+      expect(strategy.reset).toHaveBeenCalled();
+    });
+
+    test('should report concealed milliseconds without a quality monitor', () => {
+      const manager = new AudioBufferManager();
+      manager.destroy();
+
+      expect(manager.getHealthMetrics().concealedMs).toBe(0);
+    });
+  });
+
+  describe('Time Stretch Playout', () => {
+    let frameProcessorInstance: { parseChunk: jest.Mock };
+
+    // 20ms of a 200Hz tone at 16kHz s16 mono: 320 samples, 640 bytes
+    const toneFrame = (() => {
+      const bytes = new Uint8Array(640);
+      const view = new DataView(bytes.buffer);
+      for (let i = 0; i < 320; i++) {
+        view.setInt16(i * 2, Math.round(8000 * Math.sin((2 * Math.PI * i) / 80)), true);
+      }
+      return encodeBase64(bytes);
+    })();
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      const { FrameProcessor } = require('../src/audio/FrameProcessor');
+      frameProcessorInstance = FrameProcessor.mock.results.at(-1).value;
+      frameProcessorInstance.parseChunk.mockImplementation(() => [
+        {
+          sequenceNumber: 0,
+          data: { audioData: toneFrame, isFirst: false, isFinal: false },
+          duration: 20,
+          timestamp: Date.now(),
+        },
+      ]);
+    });
+
+    afterEach(() => {
+      frameProcessorInstance.parseChunk.mockReset();
+      jest.useRealTimers();
+    });
+
+    const playedByteLengths = (): number[] =>
+      mockPlaySound.mock.calls.map(([audioData]) => atob(audioData).length);
+
+    const enqueue = (count: number): void => {
+      for (let i = 0; i < count; i++) {
+        bufferManager.enqueueFrames({ audioData: 'tone' });
+      }
+    };
+
+    test('should compress frames while the buffer is above target', () => {
+      bufferManager.updateConfig({
+        playoutMode: 'timeStretch',
+        targetBufferMs: 100,
+        minBufferMs: 40,
+        maxBufferMs: 400,
+      });
+      enqueue(15);
+
+      bufferManager.startPlayback();
+
+      const lengths = playedByteLengths();
+      expect(lengths.length).toBeGreaterThan(0);
+      lengths.forEach((length) => expect(length).toBeLessThan(640));
+    });
+
+    test('should not compress a bursty backlog', () => {
+      bufferManager.updateConfig({
+        playoutMode: 'timeStretch',
+        producerProfile: 'bursty',
+        targetBufferMs: 100,
+        minBufferMs: 40,
+        maxBufferMs: 400,
+      });
+      enqueue(15);
+
+      bufferManager.startPlayback();
+
+      expect(playedByteLengths()).toEqual([640, 640, 640]);
+    });
+
+    test('should stretch frames while the buffer drains toward minimum', () => {
+      bufferManager.updateConfig({
+        playoutMode: 'timeStretch',
+        targetBufferMs: 100,
+        minBufferMs: 40,
+        maxBufferMs: 400,
+      });
+      enqueue(5);
+
+      bufferManager.startPlayback();
+
+      // First frame leaves the buffer inside the target band, the rest
+      // of the native lead is stretched
+      const [first, ...rest] = playedByteLengths();
+      expect(first).toBe(640);
+      expect(rest).toHaveLength(2);
+      rest.forEach((length) => expect(length).toBeGreaterThan(640));
+    });
+
+    test('should play frames unchanged in fixed mode', () => {
+      bufferManager.updateConfig({ targetBufferMs: 100, minBufferMs: 40, maxBufferMs: 400 });
+      enqueue(15);
+
+      bufferManager.startPlayback();
+
+      expect(playedByteLengths()).toEqual([640, 640, 640]);
+    });
+
+    test('should leave frames too short to stretch unchanged', () => {
+      frameProcessorInstance.parseChunk.mockImplementation(() => [
+        {
+          sequenceNumber: 0,
+          data: { audioData: encodeBase64(new Uint8Array(64)) },
+          duration: 20,
+          timestamp: Date.now(),
+        },
+      ]);
+      bufferManager.updateConfig({
+        playoutMode: 'timeStretch',
+        targetBufferMs: 100,
+        minBufferMs: 40,
+        maxBufferMs: 400,
+      });
+      enqueue(15);
+
+      bufferManager.startPlayback();
+
+      expect(playedByteLengths()).toEqual([64, 64, 64]);
+    });
+  });
+
+  describe('Sequence Reordering', () => {
+    let frameProcessorInstance: { parseChunk: jest.Mock };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      const { FrameProcessor } = require('../src/audio/FrameProcessor');
+      frameProcessorInstance = FrameProcessor.mock.results.at(-1).value;
+      frameProcessorInstance.parseChunk.mockImplementation((payload) => [
+        {
+          sequenceNumber: payload.sequenceNumber,
+          data: { audioData: payload.audioData },
+          duration: 20,
+          timestamp: Date.now(),
+        },
+      ]);
+    });
+
+    afterEach(() => {
+      frameProcessorInstance.parseChunk.mockReset();
+      jest.useRealTimers();
+    });
+
+    // Stored frames are decoded to PCM, so chunk data must be base64
+    const chunkData = (sequenceNumber: number) => btoa(`chunk-${sequenceNumber}`);
+    const chunk = (sequenceNumber: number) => ({
+      audioData: chunkData(sequenceNumber),
+      sequenceNumber,
+    });
+
+    test('should play reordered chunks in sender order', () => {
+      bufferManager.updateConfig({ targetBufferMs: 60, minBufferMs: 20 });
+      [0, 2, 1].forEach((sequenceNumber) => bufferManager.enqueueFrames(chunk(sequenceNumber)));
+
+      bufferManager.startPlayback();
+      jest.advanceTimersByTime(200);
+
+      const played = mockPlaySound.mock.calls.map(([audioData]) => audioData);
+      expect(played.slice(0, 3)).toEqual([chunkData(0), chunkData(1), chunkData(2)]);
+      expect(bufferManager.getHealthMetrics().packetsReordered).toBe(1);
+    });
+
+    test('should report duplicates and lost chunks in health metrics', () => {
+      bufferManager.updateConfig({ reorderWindow: 1 });
+      [0, 0, 2, 3].forEach((sequenceNumber) => bufferManager.enqueueFrames(chunk(sequenceNumber)));
+
+      const metrics = bufferManager.getHealthMetrics();
+      expect(metrics.duplicates).toBe(1);
+      expect(metrics.packetsLost).toBe(1);
+      expect(bufferManager.getCurrentBufferMs()).toBe(60);
+    });
+
+    test('should release held chunks instead of concealing when starving', () => {
+      bufferManager.updateConfig({ targetBufferMs: 20, minBufferMs: 20 });
+      bufferManager.enqueueFrames(chunk(0));
+      bufferManager.enqueueFrames(chunk(2));
+      expect(bufferManager.getCurrentBufferMs()).toBe(20);
+
+      bufferManager.startPlayback();
+      jest.advanceTimersByTime(100);
+
+      const played = mockPlaySound.mock.calls.map(([audioData]) => audioData);
+      expect(played.slice(0, 2)).toEqual([chunkData(0), chunkData(2)]);
+      expect(bufferManager.getHealthMetrics().packetsLost).toBe(1);
+    });
+
+    test('should report zeroed reorder counters after destroy', () => {
+      bufferManager.enqueueFrames(chunk(0));
+      bufferManager.enqueueFrames(chunk(0));
+      bufferManager.destroy();
+
+      const metrics = bufferManager.getHealthMetrics();
+      expect(metrics.duplicates).toBe(0);
+      expect(metrics.packetsLost).toBe(0);
+      expect(metrics.packetsReordered).toBe(0);
+    });
+  });
+
+  describe('Frame Enqueueing', () => {
+    test('should enqueue frames and update buffer', () => {
+      const audioData = {
+        audioData: 'dGVzdCBhdWRpbyBkYXRh',
+        isFirst: true,
+        isFinal: false,
+      };
+
+      bufferManager.enqueueFrames(audioData);
+      expect(bufferManager.getCurrentBufferMs()).toBeGreaterThan(0);
+    });
+
+    test('should record one arrival per chunk regardless of frame count', () => {
+      const { FrameProcessor } = require('../src/audio/FrameProcessor');
+      const { QualityMonitor } = require('../src/audio/QualityMonitor');
+      const frameProcessorInstance = FrameProcessor.mock.results.at(-1).value;
+      const qualityMonitorInstance = QualityMonitor.mock.results.at(-1).value;
+
+      frameProcessorInstance.parseChunk.mockReturnValueOnce([
+        { sequenceNumber: 0, data: { audioData: 'YQ==' }, duration: 20, timestamp: 1000 },
+        { sequenceNumber: 1, data: { audioData: 'Yg==' }, duration: 20, timestamp: 1000 },
+      ]);
+      bufferManager.enqueueFrames({ audioData: 'chunk' });
+
+      expect(qualityMonitorInstance.recordFrameArrival).toHaveBeenCalledTimes(1);
+      expect(qualityMonitorInstance.recordFrameArrival).toHaveBeenCalledWith(1000, 0);
+      expect(bufferManager.getCurrentBufferMs()).toBe(40);
+
+      frameProcessorInstance.parseChunk.mockReturnValueOnce([]);
+      bufferManager.enqueueFrames({ audioData: 'chunk' });
+
+      expect(qualityMonitorInstance.recordFrameArrival).toHaveBeenCalledTimes(1);
+    });
+
+    test('should use stream media time as the send time of untimestamped chunks', () => {
+      const { QualityMonitor } = require('../src/audio/QualityMonitor');
+      const qualityMonitorInstance = QualityMonitor.mock.results.at(-1).value;
+
+      bufferManager.enqueueFrames({ audioData: 'chunk' });
+      bufferManager.enqueueFrames({ audioData: 'chunk' });
+
+      expect(qualityMonitorInstance.recordFrameArrival.mock.calls.map(([, sent]: [number, number]) => sent)).toEqual([
+        0, 20,
+      ]);
+    });
+
+    test('should record sender-timestamped chunks on arrival', () => {
+      const { QualityMonitor } = require('../src/audio/QualityMonitor');
+      const qualityMonitorInstance = QualityMonitor.mock.results.at(-1).value;
+
+      bufferManager.enqueueFrames({ audioData: 'chunk', timestamp: 5000 });
+
+      expect(qualityMonitorInstance.recordFrameArrival).toHaveBeenCalledTimes(1);
+      expect(qualityMonitorInstance.recordFrameArrival).toHaveBeenCalledWith(
+        expect.any(Number),
+        5000
+      );
+    });
+
+    test('should handle enqueue when processors are null', () => {
+      bufferManager.destroy(); // This nullifies processors
+      
+      const audioData = {
+        audioData: 'test-data',
+        isFirst: true,
+      };
+
+      expect(() => bufferManager.enqueueFrames(audioData)).not.toThrow();
+    });
+
+    test('should handle buffer overrun scenario', () => {
+      // Mock a scenario where buffer exceeds max
+      const mockFrameProcessor = require('../src/audio/FrameProcessor').FrameProcessor;
+      const frameProcessorInstance = new mockFrameProcessor();
+      
+      // Create multiple frames that exceed maxBufferMs
+      const longFrames = Array.from({ length: 30 }, (_, i) => ({
+        sequenceNumber: i,
+        data: {
+          audioData: 'dGVzdC1hdWRpby1kYXRh',
+          isFirst: i === 0,
+          isFinal: i === 29,
+        },
+        duration: 20,
+        timestamp: Date.now() + i * 20,
+      }));
+
+      frameProcessorInstance.parseChunk.mockReturnValue(longFrames);
+
+      const audioData = {
+        audioData: 'very-long-audio-data-string',
+        isFirst: true,
+        isFinal: true,
+      };
+
+      bufferManager.enqueueFrames(audioData);
+      // Should handle overrun without throwing
+      expect(bufferManager.getCurrentBufferMs()).toBeGreaterThanOrEqual(0);
+    });
+  });
+
+  describe('Native Playout', () => {
+    let clock: VirtualClock;
+
+    const createManager = (sink: ReturnType<typeof createSink>) =>
+      new AudioBufferManager(
+        { targetBufferMs: 100, minBufferMs: 40, maxBufferMs: 400, nativeLeadMs: 60 },
+        clock,
+        sink
+      );
+
+    const enqueue = (manager: AudioBufferManager, count: number): void => {
+      for (let i = 0; i < count; i++) {
+        manager.enqueueFrames({ audioData: 'dGVzdC1hdWRpby1kYXRh' });
+      }
+    };
+
+    beforeEach(() => {
+      clock = new VirtualClock();
+    });
+
+    test('should default to native pacing', () => {
+      const sink = createSink();
+      const defaultManager = new AudioBufferManager(undefined, clock, sink);
+      for (let i = 0; i < 15; i++) {
+        defaultManager.enqueueFrames({ audioData: 'dGVzdC1hdWRpby1kYXRh' });
+      }
+
+      defaultManager.startPlayback();
+
+      expect(sink.addChunkPlayedListener).toHaveBeenCalledTimes(1);
+      expect(sink.play).toHaveBeenCalledTimes(3);
+      defaultManager.destroy();
+    });
+
+    test('should keep the native lead queued as playback progresses', () => {
+      const sink = createSink();
+      const manager = createManager(sink);
+      enqueue(manager, 15);
+
+      manager.startPlayback();
+      expect(sink.play).toHaveBeenCalledTimes(3);
+
+      // One more frame each time 20ms of queued audio plays out
+      clock.advance(100);
+      expect(sink.play).toHaveBeenCalledTimes(8);
+      manager.destroy();
+    });
+
+    test('should top up as soon as native reports a chunk played', () => {
+      const sink = createSink();
+      const manager = createManager(sink);
+      enqueue(manager, 15);
+      manager.startPlayback();
+
+      sink.emitChunkPlayed();
+      expect(sink.play).toHaveBeenCalledTimes(4);
+
+      // An empty native queue is refilled to the full lead
+      sink.emitChunkPlayed(true);
+      expect(sink.play).toHaveBeenCalledTimes(7);
+      manager.destroy();
+    });
+
+    test('should follow native start without sending more audio', () => {
+      const sink = createSink();
+      const manager = createManager(sink);
+      enqueue(manager, 15);
+      manager.startPlayback();
+      clock.advance(10);
+      const calls = sink.play.mock.calls.length;
+
+      sink.emitStarted();
+
+      expect(sink.play).toHaveBeenCalledTimes(calls);
+      manager.destroy();
+    });
+
+    test('should ignore native progress until the buffer has filled', () => {
+      const sink = createSink();
+      const manager = createManager(sink);
+      manager.startPlayback();
+
+      sink.emitChunkPlayed();
+
+      expect(sink.play).not.toHaveBeenCalled();
+      manager.destroy();
+    });
+
+    test('should conceal when the buffer cannot cover the native lead', () => {
+      const sink = createSink();
+      const manager = createManager(sink);
+      manager.updateConfig({ nativeLeadMs: 120 });
+      enqueue(manager, 5);
+      const { QualityMonitor } = require('../src/audio/QualityMonitor');
+      const monitor = QualityMonitor.mock.results.at(-1).value;
+
+      manager.startPlayback();
+
+      // Four real frames leave 20ms, below the minimum, then two are concealed
+      expect(sink.play).toHaveBeenCalledTimes(6);
+      expect(monitor.recordUnderrun).toHaveBeenCalledTimes(2);
+      manager.destroy();
+    });
+
+    test('should unsubscribe from the sink when stopped', () => {
+      const sink = createSink();
+      const manager = createManager(sink);
+
+      manager.startPlayback();
+      manager.stopPlayback();
+
+      expect(sink.remove).toHaveBeenCalledTimes(2);
+    });
+
+    test('should swallow native play failures', async () => {
+      const sink = createSink();
+      sink.play.mockRejectedValue(new Error('native failure'));
+      const manager = createManager(sink);
+      enqueue(manager, 15);
+
+      manager.startPlayback();
+      await Promise.resolve();
+
+      expect(manager.isPlaying()).toBe(true);
+      manager.destroy();
+    });
+
+  });
+
+  describe('Buffer Events', () => {
+    let clock: VirtualClock;
+    let sink: { play: jest.Mock; addChunkPlayedListener: jest.Mock; addStartedListener: jest.Mock };
+    let manager: AudioBufferManager;
+    let monitor: { getBufferHealthState: jest.Mock; recordOverrun: jest.Mock };
+
+    const enqueue = (count: number): void => {
+      for (let i = 0; i < count; i++) {
+        manager.enqueueFrames({ audioData: 'dGVzdC1hdWRpby1kYXRh' });
+      }
+    };
+
+    beforeEach(() => {
+      clock = new VirtualClock();
+      sink = {
+        play: jest.fn().mockResolvedValue(undefined),
+        addChunkPlayedListener: jest.fn(() => ({ remove: jest.fn() })),
+        addStartedListener: jest.fn(() => ({ remove: jest.fn() })),
+      };
+      manager = new AudioBufferManager(
+        { targetBufferMs: 100, minBufferMs: 40, maxBufferMs: 400, nativeLeadMs: 60 },
+        clock,
+        sink
+      );
+      const { QualityMonitor } = require('../src/audio/QualityMonitor');
+      monitor = QualityMonitor.mock.results.at(-1).value;
+      monitor.getBufferHealthState.mockImplementation((isPlaying: boolean) =>
+        isPlaying ? 'healthy' : 'idle'
+      );
+    });
+
+    afterEach(() => {
+      manager.destroy();
+    });
+
+    test('should emit health state changes as playback starts and stops', () => {
+      const listener = jest.fn();
+      manager.addListener('healthStateChanged', listener);
+      enqueue(5);
+
+      manager.startPlayback();
+      clock.advance(100);
+      manager.stopPlayback();
+
+      expect(listener.mock.calls.map(([event]) => [event.previousState, event.state])).toEqual([
+        ['idle', 'healthy'],
+        ['healthy', 'idle'],
+      ]);
+      expect(listener.mock.calls[0][0].metrics.targetBufferMs).toBe(100);
+    });
+
+    test('should emit rebuffering once per starvation and underrun per concealed frame', () => {
+      const rebuffering = jest.fn();
+      const underrun = jest.fn();
+      manager.addListener('rebuffering', rebuffering);
+      manager.addListener('underrun', underrun);
+      manager.updateConfig({ nativeLeadMs: 120 });
+      enqueue(5);
+
+      manager.startPlayback();
+
+      expect(rebuffering).toHaveBeenCalledTimes(1);
+      expect(rebuffering).toHaveBeenCalledWith({ bufferMs: 20, minBufferMs: 40 });
+      expect(underrun).toHaveBeenCalledTimes(2);
+      expect(underrun).toHaveBeenCalledWith({ bufferMs: 20 });
+    });
+
+    test('should emit overruns with the number of dropped frames', () => {
+      const overrun = jest.fn();
+      manager.addListener('overrun', overrun);
+
+      enqueue(21);
+      expect(overrun).toHaveBeenLastCalledWith({ bufferMs: 420, droppedFrames: 0, droppedMs: 0 });
+
+      enqueue(5);
+      expect(overrun).toHaveBeenLastCalledWith({ bufferMs: 520, droppedFrames: 6, droppedMs: 120 });
+    });
+
+    test('should evict the oldest frames past the storage caps', () => {
+      const overrun = jest.fn();
+      manager.addListener('overrun', overrun);
+      manager.updateConfig({ maxStoredMs: 60 });
+
+      enqueue(5);
+      expect(manager.getCurrentBufferMs()).toBe(60);
+      expect(overrun).toHaveBeenCalledTimes(2);
+      expect(overrun).toHaveBeenLastCalledWith({ bufferMs: 60, droppedFrames: 1, droppedMs: 20 });
+      expect(monitor.recordOverrun).toHaveBeenCalledTimes(2);
+
+      // Each mocked frame holds 15 bytes of PCM
+      manager.updateConfig({ maxStoredBytes: 30 });
+      expect(manager.getCurrentBufferMs()).toBe(40);
+      expect(overrun).toHaveBeenLastCalledWith({ bufferMs: 40, droppedFrames: 1, droppedMs: 20 });
+
+      manager.updateConfig({ maxStoredBytes: 0, maxStoredMs: 0 });
+      enqueue(5);
+      expect(manager.getCurrentBufferMs()).toBe(140);
+      expect(overrun).toHaveBeenCalledTimes(3);
+    });
+
+    test('should emit drained when the last buffered frame is played', () => {
+      const drained = jest.fn();
+      manager.addListener('drained', drained);
+      manager.updateConfig({ targetBufferMs: 40, minBufferMs: 0 });
+      enqueue(2);
+
+      manager.startPlayback();
+
+      expect(drained).toHaveBeenCalledTimes(1);
+      expect(drained).toHaveBeenCalledWith({ isFinal: false });
+    });
+
+    test('should not emit periodic metrics unless configured', () => {
+      const metrics = jest.fn();
+      manager.addListener('metrics', metrics);
+
+      manager.startPlayback();
+      clock.advance(5000);
+
+      expect(metrics).not.toHaveBeenCalled();
+    });
+
+    test('should emit periodic metrics while playing', () => {
+      const metrics = jest.fn();
+      manager.addListener('metrics', metrics);
+      manager.updateConfig({ metricsIntervalMs: 1000 });
+
+      manager.startPlayback();
+      clock.advance(3000);
+      expect(metrics).toHaveBeenCalledTimes(3);
+      expect(metrics.mock.calls[0][0].targetBufferMs).toBe(100);
+
+      manager.updateConfig({ metricsIntervalMs: 500 });
+      clock.advance(1000);
+      expect(metrics).toHaveBeenCalledTimes(5);
+
+      manager.stopPlayback();
+      clock.advance(3000);
+      expect(metrics).toHaveBeenCalledTimes(5);
+    });
+
+    test('should remove listeners on destroy', () => {
+      const events = (manager as unknown as {
+        _events: { listenerCount: (eventName: string) => number };
+      })._events;
+      manager.addListener('healthStateChanged', jest.fn());
+      manager.addListener('metrics', jest.fn());
+      manager.startPlayback();
+
+      manager.destroy();
+
+      expect(events.listenerCount('healthStateChanged')).toBe(0);
+      expect(events.listenerCount('metrics')).toBe(0);
+    });
+  });
+
+  describe('Chunk Validation', () => {
+    const getMockFrameProcessor = () => {
+      const { FrameProcessor } = require('../src/audio/FrameProcessor');
+      return FrameProcessor.mock.results.at(-1).value;
+    };
+
+    test('should emit rejections reported by the frame processor', () => {
+      const listener = jest.fn();
+      bufferManager.addListener('chunkRejected', listener);
+      const [reportRejection] = getMockFrameProcessor().setRejectionListener.mock.calls[0];
+
+      reportRejection({ reason: 'tooLarge', message: 'Too large', sequenceNumber: 3 });
+
+      expect(listener).toHaveBeenCalledWith({ reason: 'tooLarge', message: 'Too large', sequenceNumber: 3 });
+    });
+
+    test('should not buffer rejected chunks', () => {
+      const frameProcessor = getMockFrameProcessor();
+      frameProcessor.decodeChunk.mockReturnValueOnce(null);
+
+      bufferManager.enqueueFrames({ audioData: 'AAAA' });
+
+      expect(frameProcessor.parseChunk).not.toHaveBeenCalled();
+      expect(bufferManager.getCurrentBufferMs()).toBe(0);
+    });
+
+    test('should apply validation policy updates', () => {
+      bufferManager.updateConfig({ validation: { maxChunkBytes: 1000 } });
+
+      expect(getMockFrameProcessor().setValidationPolicy).toHaveBeenCalledWith({ maxChunkBytes: 1000 });
+    });
+
+    test('should report rejection counts in health metrics', () => {
+      const chunkRejections = { invalidPayload: 0, invalidBase64: 2, tooLarge: 0, partialSample: 0, tooShort: 0, tooLong: 0 };
+      getMockFrameProcessor().getStats.mockReturnValue({ chunksRejected: 2, chunkRejections });
+
+      expect(bufferManager.getHealthMetrics()).toEqual(
+        expect.objectContaining({ chunksRejected: 2, chunkRejections })
+      );
+
+      bufferManager.destroy();
+      expect(bufferManager.getHealthMetrics().chunksRejected).toBe(0);
+    });
+  });
+
+  describe('Drain', () => {
+    let clock: VirtualClock;
+    let sink: ReturnType<typeof createSink>;
+
+    const createManager = (config: Partial<IAudioBufferConfig> = {}) =>
+      createTestManager(clock, sink, config);
+
+    beforeEach(() => {
+      clock = new VirtualClock();
+      sink = createSink();
+    });
+
+    test.each(['native', 'timer'] as const)(
+      'should play out below the minimum and stop once played with the %s clock',
+      (playoutClock) => {
+        const manager = createManager({ playoutClock });
+        const drained = jest.fn();
+        manager.addListener('drained', drained);
+        enqueueChunks(manager, 6);
+        manager.startPlayback();
+
+        manager.drain();
+        clock.advance(100);
+        expect(sink.play).toHaveBeenCalledTimes(6);
+        expect(drained).not.toHaveBeenCalled();
+
+        clock.advance(100);
+        expect(drained).toHaveBeenCalledTimes(1);
+        expect(drained).toHaveBeenCalledWith({ isFinal: true });
+        expect(manager.isPlaying()).toBe(false);
+        expect(clock.getPendingTimerCount()).toBe(0);
+      }
+    );
+
+    test('should not conceal or count underruns while draining', () => {
+      const manager = createManager({ nativeLeadMs: 200 });
+      const { QualityMonitor } = require('../src/audio/QualityMonitor');
+      const monitor = QualityMonitor.mock.results.at(-1).value;
+      enqueueChunks(manager, 5);
+
+      manager.drain();
+      manager.startPlayback();
+      clock.advance(200);
+
+      expect(sink.play).toHaveBeenCalledTimes(5);
+      expect(monitor.recordUnderrun).not.toHaveBeenCalled();
+    });
+
+    test('should start playback without waiting for the pre-roll', () => {
+      const manager = createManager();
+      enqueueChunks(manager, 1);
+      manager.startPlayback();
+      clock.advance(200);
+      expect(sink.play).not.toHaveBeenCalled();
+
+      manager.drain();
+      clock.advance(50);
+
+      expect(sink.play).toHaveBeenCalledTimes(1);
+    });
+
+    test.each(['native', 'timer'] as const)(
+      'should drain on a final chunk and stop its timers with the %s clock',
+      (playoutClock) => {
+        const manager = createManager({ playoutClock, nativeLeadMs: 200 });
+        const { QualityMonitor } = require('../src/audio/QualityMonitor');
+        const monitor = QualityMonitor.mock.results.at(-1).value;
+        const drained = jest.fn();
+        manager.addListener('drained', drained);
+        manager.startPlayback();
+        enqueueChunks(manager, 2);
+
+        manager.enqueueFrames({ audioData: 'dGVzdC1hdWRpby1kYXRh', isFinal: true });
+        clock.advance(1000);
+
+        expect(sink.play).toHaveBeenCalledTimes(3);
+        expect(monitor.recordUnderrun).not.toHaveBeenCalled();
+        expect(monitor.recordConcealment).not.toHaveBeenCalled();
+        expect(drained).toHaveBeenCalledWith({ isFinal: true });
+        expect(manager.isPlaying()).toBe(false);
+        expect(clock.getPendingTimerCount()).toBe(0);
+      }
+    );
+
+    test('should drain on a final chunk that fails validation', () => {
+      const manager = createManager();
+      const { FrameProcessor } = require('../src/audio/FrameProcessor');
+      FrameProcessor.mock.results.at(-1).value.decodeChunk.mockReturnValueOnce(null);
+      const drained = jest.fn();
+      manager.addListener('drained', drained);
+      enqueueChunks(manager, 2);
+      manager.startPlayback();
+
+      manager.enqueueFrames({ audioData: 'invalid', isFinal: true });
+      clock.advance(500);
+
+      expect(sink.play).toHaveBeenCalledTimes(2);
+      expect(drained).toHaveBeenCalledWith({ isFinal: true });
+    });
+
+    test('should release chunks held for reordering', () => {
+      const manager = createManager({ reorderWindow: 4 });
+      manager.enqueueFrames({ audioData: 'dGVzdC1hdWRpby1kYXRh', sequenceNumber: 0 });
+      manager.enqueueFrames({ audioData: 'dGVzdC1hdWRpby1kYXRh', sequenceNumber: 2 });
+      expect(manager.getCurrentBufferMs()).toBe(20);
+
+      manager.drain();
+
+      expect(manager.getCurrentBufferMs()).toBe(40);
+      manager.destroy();
+      expect(() => manager.drain()).not.toThrow();
+    });
+
+    test('should wait for the gap before a final chunk to fill', () => {
+      const manager = createManager({ reorderWindow: 4 });
+      manager.enqueueFrames({ audioData: 'dGVzdC1hdWRpby1kYXRh', sequenceNumber: 0 });
+      manager.enqueueFrames({ audioData: 'dGVzdC1hdWRpby1kYXRh', sequenceNumber: 2, isFinal: true });
+      expect(manager.isDraining()).toBe(false);
+
+      manager.enqueueFrames({ audioData: 'dGVzdC1hdWRpby1kYXRh', sequenceNumber: 1 });
+
+      expect(manager.isDraining()).toBe(true);
+      expect(manager.getCurrentBufferMs()).toBe(60);
+      expect(manager.getHealthMetrics()).toMatchObject({ packetsLost: 0, packetsLate: 0 });
+    });
+
+    test.each(['conceal', 'rebuffer'] as const)(
+      'should give up on the gap before a final chunk once out of audio with %s recovery',
+      (underrunRecovery) => {
+        const manager = createManager({ reorderWindow: 4, minBufferMs: 20, underrunRecovery });
+        const drained = jest.fn();
+        manager.addListener('drained', drained);
+        manager.startPlayback();
+        manager.enqueueFrames({ audioData: 'dGVzdC1hdWRpby1kYXRh', sequenceNumber: 0 });
+        manager.enqueueFrames({ audioData: 'dGVzdC1hdWRpby1kYXRh', sequenceNumber: 2, isFinal: true });
+
+        clock.advance(2000);
+
+        expect(sink.play).toHaveBeenCalledTimes(2);
+        expect(drained).toHaveBeenCalledWith({ isFinal: true });
+        expect(manager.getSessionSummary().packetsLost).toBe(1);
+        expect(clock.getPendingTimerCount()).toBe(0);
+      }
+    );
+  });
+
+  describe('Pre-roll', () => {
+    let clock: VirtualClock;
+    let sink: ReturnType<typeof createSink>;
+    let manager: AudioBufferManager;
+    let started: jest.Mock;
+
+    const createManager = (config: Partial<IAudioBufferConfig> = {}): AudioBufferManager => {
+      manager = createTestManager(clock, sink, { targetBufferMs: 300, maxBufferMs: 600, ...config });
+      started = jest.fn();
+      manager.addListener('playbackStarted', started);
+      return manager;
+    };
+
+    const enqueue = (count: number, isFinal: boolean = false): void =>
+      enqueueChunks(manager, count, isFinal);
+
+    beforeEach(() => {
+      clock = new VirtualClock();
+      sink = createSink();
+    });
+
+    afterEach(() => {
+      manager.destroy();
+    });
+
+    test('should wait for the full target by default', () => {
+      createManager();
+      manager.startPlayback();
+      enqueue(12);
+      clock.advance(100);
+      expect(sink.play).not.toHaveBeenCalled();
+
+      enqueue(3);
+      clock.advance(0);
+
+      expect(started).toHaveBeenCalledWith({ reason: 'threshold', preRollMs: 300, waitedMs: 100 });
+      expect(sink.play).toHaveBeenCalled();
+    });
+
+    test('should start at once if the threshold is already buffered', () => {
+      createManager({ preRoll: { startThresholdMs: 40 } });
+      enqueue(2);
+
+      manager.startPlayback();
+
+      expect(started).toHaveBeenCalledWith({ reason: 'threshold', preRollMs: 40, waitedMs: 0 });
+    });
+
+    test('should start a burst of chunks once it has landed', () => {
+      createManager({ preRoll: { startThresholdMs: 40 } });
+      manager.startPlayback();
+
+      enqueue(5);
+      clock.advance(0);
+
+      expect(started).toHaveBeenCalledTimes(1);
+      expect(started).toHaveBeenCalledWith({ reason: 'threshold', preRollMs: 100, waitedMs: 0 });
     });
 
-    test('should set turn ID correctly', () => {
-      const turnId = 'test-turn-123';
-      expect(() => bufferManager.setTurnId(turnId)).not.toThrow();
+    test('should start with what has arrived once the wait times out', () => {
+      createManager({ preRoll: { maxWaitMs: 500 } });
+      manager.startPlayback();
+      enqueue(1);
+
+      clock.advance(499);
+      expect(started).not.toHaveBeenCalled();
+
+      clock.advance(1);
+      expect(started).toHaveBeenCalledWith({ reason: 'timeout', preRollMs: 20, waitedMs: 500 });
     });
 
-    test('should set encoding correctly', () => {
-      expect(() => bufferManager.setEncoding(EncodingTypes.PCM_S16LE)).not.toThrow();
-      expect(() => bufferManager.setEncoding(EncodingTypes.PCM_F32LE)).not.toThrow();
+    test('should wait for the first audio after timing out', () => {
+      createManager();
+      manager.startPlayback();
+      clock.advance(1500);
+      expect(started).not.toHaveBeenCalled();
+      expect(clock.getPendingTimerCount()).toBe(0);
+
+      enqueue(1);
+      clock.advance(0);
+
+      expect(started).toHaveBeenCalledWith({ reason: 'timeout', preRollMs: 20, waitedMs: 1500 });
+    });
+
+    test('should wait indefinitely without polling when maxWaitMs is 0', () => {
+      createManager({ preRoll: { maxWaitMs: 0 } });
+      manager.startPlayback();
+      enqueue(1);
+
+      clock.advance(10000);
+
+      expect(started).not.toHaveBeenCalled();
+      expect(clock.getPendingTimerCount()).toBe(0);
+    });
+
+    test('should start on a final chunk shorter than the threshold', () => {
+      createManager();
+      manager.startPlayback();
+
+      enqueue(2, true);
+      clock.advance(0);
+
+      expect(started).toHaveBeenCalledWith({ reason: 'final', preRollMs: 40, waitedMs: 0 });
+    });
+
+    test('should wait out the timeout on a final chunk without startOnFinal', () => {
+      createManager({ preRoll: { startOnFinal: false, maxWaitMs: 500 } });
+      manager.startPlayback();
+
+      enqueue(2, true);
+      clock.advance(100);
+      expect(started).not.toHaveBeenCalled();
+
+      clock.advance(400);
+      expect(started).toHaveBeenCalledWith({ reason: 'timeout', preRollMs: 40, waitedMs: 500 });
+    });
+
+    test('should finish an empty drain once the wait times out', () => {
+      createManager({ preRoll: { startOnFinal: false, maxWaitMs: 500 } });
+      const drained = jest.fn();
+      manager.addListener('drained', drained);
+      manager.startPlayback();
+
+      manager.drain();
+      clock.advance(500);
+
+      expect(started).toHaveBeenCalledWith({ reason: 'timeout', preRollMs: 0, waitedMs: 500 });
+      expect(drained).toHaveBeenCalledWith({ isFinal: true });
+    });
+
+    test('should start on the first frame in immediate mode', () => {
+      createManager({ minBufferMs: 0, preRoll: { immediate: true } });
+      manager.startPlayback();
+      expect(started).not.toHaveBeenCalled();
+
+      enqueue(1);
+      clock.advance(0);
+
+      expect(started).toHaveBeenCalledWith({ reason: 'immediate', preRollMs: 20, waitedMs: 0 });
+      expect(sink.play).toHaveBeenCalledTimes(1);
+    });
+
+    test('should recheck when the policy changes', () => {
+      createManager();
+      manager.startPlayback();
+      enqueue(3);
+      clock.advance(0);
+
+      manager.updateConfig({ preRoll: { startThresholdMs: 60 } });
+      clock.advance(0);
+
+      expect(started).toHaveBeenCalledWith({ reason: 'threshold', preRollMs: 60, waitedMs: 0 });
+    });
+
+    test('should cancel the pre-roll when stopped', () => {
+      createManager();
+      manager.startPlayback();
+      enqueue(1);
+
+      manager.stopPlayback();
+      clock.advance(2000);
+
+      expect(started).not.toHaveBeenCalled();
+      expect(clock.getPendingTimerCount()).toBe(0);
     });
   });
 
-  describe('Frame Enqueueing', () => {
-    test('should enqueue frames and update buffer', () => {
-      const audioData = {
-        audioData: 'dGVzdCBhdWRpbyBkYXRh',
-        isFirst: true,
-        isFinal: false,
-      };
+  describe('Rebuffer Recovery', () => {
+    let clock: VirtualClock;
+    let sink: ReturnType<typeof createSink>;
+    let manager: AudioBufferManager;
+    let monitor: { recordRebuffer: jest.Mock; recordRebufferTime: jest.Mock; recordUnderrun: jest.Mock };
+    let rebuffering: jest.Mock;
+    let pausedAt: number;
+
+    const createManager = (config: Partial<IAudioBufferConfig> = {}): AudioBufferManager => {
+      manager = createTestManager(clock, sink, { underrunRecovery: 'rebuffer', ...config });
+      const { QualityMonitor } = require('../src/audio/QualityMonitor');
+      monitor = QualityMonitor.mock.results.at(-1).value;
+      rebuffering = jest.fn(() => {
+        pausedAt = clock.now();
+      });
+      manager.addListener('rebuffering', rebuffering);
+      return manager;
+    };
 
-      bufferManager.enqueueFrames(audioData);
-      expect(bufferManager.getCurrentBufferMs()).toBeGreaterThan(0);
+    const enqueue = (count: number): void => enqueueChunks(manager, count);
+
+    beforeEach(() => {
+      clock = new VirtualClock();
+      sink = createSink();
     });
 
-    test('should handle enqueue when processors are null', () => {
-      bufferManager.destroy(); // This nullifies processors
-      
-      const audioData = {
-        audioData: 'test-data',
-        isFirst: true,
+    afterEach(() => {
+      manager.destroy();
+    });
+
+    test.each(['native', 'timer'] as const)(
+      'should play out and pause without concealing on the %s clock',
+      (playoutClock) => {
+        createManager({ playoutClock });
+        enqueue(5);
+        manager.startPlayback();
+
+        clock.advance(300);
+
+        expect(sink.play).toHaveBeenCalledTimes(5);
+        expect(rebuffering).toHaveBeenCalledTimes(1);
+        expect(rebuffering).toHaveBeenCalledWith({ bufferMs: 0, minBufferMs: 40 });
+        expect(monitor.recordRebuffer).toHaveBeenCalledTimes(1);
+        expect(monitor.recordUnderrun).not.toHaveBeenCalled();
+        // Nothing polls while paused
+        expect(clock.getPendingTimerCount()).toBe(0);
+      }
+    );
+
+    test('should report the rebuffering state and time paused', () => {
+      createManager();
+      const healthStateChanged = jest.fn();
+      manager.addListener('healthStateChanged', healthStateChanged);
+      enqueue(5);
+      manager.startPlayback();
+      clock.advance(300);
+
+      const metrics = manager.getHealthMetrics();
+      expect(metrics.bufferHealthState).toBe('rebuffering');
+      expect(metrics.rebufferDurationMs).toBe(clock.now() - pausedAt);
+      expect(healthStateChanged).toHaveBeenCalledWith(
+        expect.objectContaining({ state: 'rebuffering' })
+      );
+    });
+
+    test('should resume once refilled to the target', () => {
+      createManager();
+      enqueue(5);
+      manager.startPlayback();
+      clock.advance(300);
+      sink.play.mockClear();
+
+      enqueue(4);
+      expect(sink.play).not.toHaveBeenCalled();
+
+      enqueue(1);
+      expect(sink.play).toHaveBeenCalled();
+      expect(monitor.recordRebufferTime).toHaveBeenCalledWith(clock.now() - pausedAt);
+      expect(manager.getHealthMetrics().bufferHealthState).toBe('healthy');
+    });
+
+    test('should resume at the refill threshold', () => {
+      createManager({ refillThresholdMs: 60 });
+      enqueue(5);
+      manager.startPlayback();
+      clock.advance(300);
+      sink.play.mockClear();
+
+      enqueue(2);
+      expect(sink.play).not.toHaveBeenCalled();
+
+      enqueue(1);
+      expect(sink.play).toHaveBeenCalled();
+    });
+
+    test('should play out the rest when draining while paused', () => {
+      createManager({ playoutClock: 'timer' });
+      const drained = jest.fn();
+      manager.addListener('drained', drained);
+      enqueue(5);
+      manager.startPlayback();
+      clock.advance(300);
+
+      enqueue(1);
+      manager.drain();
+      clock.advance(100);
+
+      expect(sink.play).toHaveBeenCalledTimes(6);
+      expect(drained).toHaveBeenCalledWith({ isFinal: true });
+      expect(manager.isPlaying()).toBe(false);
+    });
+
+    test('should resume and conceal when switched back to conceal', () => {
+      createManager();
+      enqueue(5);
+      manager.startPlayback();
+      clock.advance(300);
+
+      manager.updateConfig({ underrunRecovery: 'conceal' });
+
+      expect(monitor.recordRebufferTime).toHaveBeenCalledTimes(1);
+      expect(monitor.recordUnderrun).toHaveBeenCalled();
+    });
+
+    test('should end the pause when stopped', () => {
+      createManager();
+      enqueue(5);
+      manager.startPlayback();
+      clock.advance(300);
+
+      manager.stopPlayback();
+
+      expect(monitor.recordRebufferTime).toHaveBeenCalledWith(clock.now() - pausedAt);
+      expect(manager.getHealthMetrics().rebufferDurationMs).toBe(0);
+    });
+  });
+
+  describe('Pause and Resume', () => {
+    let clock: VirtualClock;
+    let sink: ReturnType<typeof createSink>;
+    let manager: AudioBufferManager;
+
+    const createManager = (config: Partial<IAudioBufferConfig> = {}): AudioBufferManager => {
+      manager = createTestManager(clock, sink, { maxBufferMs: 200, ...config });
+      return manager;
+    };
+
+    const enqueue = (count: number): void => enqueueChunks(manager, count);
+
+    beforeEach(() => {
+      clock = new VirtualClock();
+      sink = createSink();
+    });
+
+    afterEach(() => {
+      manager.destroy();
+    });
+
+    test.each(['native', 'timer'] as const)(
+      'should freeze the %s playout loop and keep buffering',
+      (playoutClock) => {
+        createManager({ playoutClock });
+        enqueue(8);
+        manager.startPlayback();
+        clock.advance(40);
+        const bufferedMs = manager.getCurrentBufferMs();
+
+        manager.pause();
+        sink.play.mockClear();
+        enqueue(2);
+        clock.advance(500);
+
+        expect(manager.isPaused()).toBe(true);
+        expect(manager.isPlaying()).toBe(true);
+        expect(sink.play).not.toHaveBeenCalled();
+        expect(manager.getCurrentBufferMs()).toBe(bufferedMs + 40);
+        expect(clock.getPendingTimerCount()).toBe(0);
+      }
+    );
+
+    test('should let the native queue play out and carry on after it without replaying', () => {
+      createManager({ minBufferMs: 0, nativeLeadMs: 60 });
+      enqueue(8);
+      manager.startPlayback();
+      expect(sink.play).toHaveBeenCalledTimes(3);
+
+      manager.pause();
+      sink.emitChunkPlayed();
+      sink.emitChunkPlayed();
+      clock.advance(200);
+      expect(sink.play).toHaveBeenCalledTimes(3);
+
+      manager.resume();
+      clock.advance(200);
+
+      // Each frame sent once, the queued ones included
+      expect(manager.isPaused()).toBe(false);
+      expect(sink.play).toHaveBeenCalledTimes(8);
+    });
+
+    test('should handle overruns while paused', () => {
+      createManager();
+      const overrun = jest.fn();
+      manager.addListener('overrun', overrun);
+      manager.startPlayback();
+      manager.pause();
+
+      enqueue(20);
+
+      expect(overrun).toHaveBeenCalled();
+      expect(manager.getCurrentBufferMs()).toBeLessThanOrEqual(300);
+    });
+
+    test('should hold the pre-roll until resumed', () => {
+      createManager({ preRoll: { maxWaitMs: 200 } });
+      const started = jest.fn();
+      manager.addListener('playbackStarted', started);
+      manager.startPlayback();
+      manager.pause();
+
+      enqueue(6);
+      clock.advance(300);
+      expect(started).not.toHaveBeenCalled();
+
+      manager.resume();
+      expect(started).toHaveBeenCalledWith(expect.objectContaining({ reason: 'threshold' }));
+      expect(sink.play).toHaveBeenCalled();
+    });
+
+    test('should hold a rebuffer until resumed', () => {
+      createManager({ underrunRecovery: 'rebuffer' });
+      enqueue(5);
+      manager.startPlayback();
+      clock.advance(300);
+
+      manager.pause();
+      enqueue(5);
+      sink.play.mockClear();
+      expect(sink.play).not.toHaveBeenCalled();
+
+      manager.resume();
+      expect(sink.play).toHaveBeenCalled();
+      expect(manager.getHealthMetrics().bufferHealthState).not.toBe('rebuffering');
+    });
+
+    test('should finish draining once resumed', () => {
+      createManager();
+      const drained = jest.fn();
+      manager.addListener('drained', drained);
+      enqueue(3);
+      manager.startPlayback();
+      manager.pause();
+
+      manager.drain();
+      clock.advance(500);
+      expect(drained).not.toHaveBeenCalled();
+
+      manager.resume();
+      clock.advance(500);
+      expect(drained).toHaveBeenCalledWith({ isFinal: true });
+    });
+
+    test('should clear the pause when stopped', () => {
+      createManager();
+      enqueue(8);
+      manager.startPlayback();
+      manager.pause();
+
+      manager.stopPlayback();
+
+      expect(manager.isPaused()).toBe(false);
+    });
+
+    test('should ignore pause when stopped and resume when not paused', () => {
+      createManager();
+      manager.pause();
+      expect(manager.isPaused()).toBe(false);
+
+      manager.startPlayback();
+      manager.resume();
+      expect(manager.isPaused()).toBe(false);
+
+      manager.pause();
+      manager.pause();
+      expect(manager.isPaused()).toBe(true);
+    });
+  });
+
+  describe('Producer Profile', () => {
+    let clock: VirtualClock;
+    let sink: ReturnType<typeof createSink>;
+    let manager: AudioBufferManager;
+    let overrun: jest.Mock;
+
+    const createManager = (config: Partial<IAudioBufferConfig> = {}): AudioBufferManager => {
+      manager = createTestManager(clock, sink, { maxBufferMs: 480, ...config });
+      overrun = jest.fn();
+      manager.addListener('overrun', overrun);
+      return manager;
+    };
+
+    // Ten seconds of audio delivered at once, as from a TTS service
+    const enqueueAnswer = (): void => enqueueChunks(manager, 500);
+
+    beforeEach(() => {
+      clock = new VirtualClock();
+      sink = createSink();
+    });
+
+    afterEach(() => {
+      manager.destroy();
+    });
+
+    test('should drop a realtime producer\'s audio past the maximum', () => {
+      createManager();
+      enqueueAnswer();
+
+      expect(overrun).toHaveBeenCalled();
+      expect(manager.getCurrentBufferMs()).toBeLessThan(10000);
+    });
+
+    test('should keep and play all of a bursty producer\'s backlog', () => {
+      createManager({ producerProfile: 'bursty' });
+      manager.startPlayback();
+      enqueueAnswer();
+
+      expect(manager.getCurrentBufferMs()).toBe(10000);
+
+      manager.drain();
+      clock.advance(11000);
+
+      expect(sink.play).toHaveBeenCalledTimes(500);
+      expect(overrun).not.toHaveBeenCalled();
+      expect(manager.getSessionSummary().overrunDurationMs).toBe(0);
+    });
+
+    test('should count only storage cap evictions as bursty overruns', () => {
+      createManager({ producerProfile: 'bursty', maxStoredMs: 5000 });
+      enqueueAnswer();
+
+      expect(manager.getCurrentBufferMs()).toBe(5000);
+      expect(overrun).toHaveBeenCalledTimes(250);
+      expect(overrun).toHaveBeenCalledWith({ bufferMs: 5000, droppedFrames: 1, droppedMs: 20 });
+    });
+  });
+
+  describe('Session History', () => {
+    let clock: VirtualClock;
+    let sink: { play: jest.Mock; addChunkPlayedListener: jest.Mock; addStartedListener: jest.Mock };
+    let manager: AudioBufferManager;
+
+    const enqueue = (count: number): void => {
+      for (let i = 0; i < count; i++) {
+        manager.enqueueFrames({ audioData: 'dGVzdC1hdWRpby1kYXRh' });
+      }
+    };
+
+    beforeEach(() => {
+      clock = new VirtualClock();
+      sink = {
+        play: jest.fn().mockResolvedValue(undefined),
+        addChunkPlayedListener: jest.fn(() => ({ remove: jest.fn() })),
+        addStartedListener: jest.fn(() => ({ remove: jest.fn() })),
       };
+      manager = new AudioBufferManager(
+        { targetBufferMs: 100, minBufferMs: 40, maxBufferMs: 400 },
+        clock,
+        sink
+      );
+      manager.setTurnId('turn-1');
+      const { QualityMonitor } = require('../src/audio/QualityMonitor');
+      const monitor = QualityMonitor.mock.results.at(-1).value;
+      monitor.getBufferHealthState.mockImplementation((isPlaying: boolean) =>
+        isPlaying ? 'healthy' : 'idle'
+      );
+    });
 
-      expect(() => bufferManager.enqueueFrames(audioData)).not.toThrow();
+    afterEach(() => {
+      manager.destroy();
     });
 
-    test('should handle buffer overrun scenario', () => {
-      // Mock a scenario where buffer exceeds max
-      const mockFrameProcessor = require('../src/audio/FrameProcessor').FrameProcessor;
-      const frameProcessorInstance = new mockFrameProcessor();
-      
-      // Create multiple frames that exceed maxBufferMs
-      const longFrames = Array.from({ length: 30 }, (_, i) => ({
-        sequenceNumber: i,
-        data: {
-          audioData: 'test-audio-data',
-          isFirst: i === 0,
-          isFinal: i === 29,
-        },
-        duration: 20,
-        timestamp: Date.now() + i * 20,
-      }));
+    test('should summarize a session when it ends', () => {
+      const sessionEnded = jest.fn();
+      manager.addListener('sessionEnded', sessionEnded);
+      enqueue(6);
 
-      frameProcessorInstance.parseChunk.mockReturnValue(longFrames);
+      manager.startPlayback();
+      manager.drain();
+      clock.advance(200);
+
+      expect(sessionEnded).toHaveBeenCalledTimes(1);
+      const summary = sessionEnded.mock.calls[0][0];
+      expect(summary).toMatchObject({
+        turnId: 'turn-1',
+        startTime: 0,
+        playedMs: 120,
+        underrunDurationMs: 0,
+        overrunDurationMs: 0,
+        peakBufferMs: 120,
+      });
+      expect(summary.durationMs).toBeGreaterThan(0);
+      expect(summary.averageBufferMs).toBeGreaterThan(0);
+      expect(manager.getSessionSummary()).toBe(summary);
+    });
 
-      const audioData = {
-        audioData: 'very-long-audio-data-string',
-        isFirst: true,
-        isFinal: true,
+    test('should not end a session that never started', () => {
+      const sessionEnded = jest.fn();
+      manager.addListener('sessionEnded', sessionEnded);
+
+      manager.stopPlayback();
+
+      expect(sessionEnded).not.toHaveBeenCalled();
+    });
+
+    test('should time underruns until real audio resumes', () => {
+      manager.updateConfig({ nativeLeadMs: 120 });
+      enqueue(5);
+      manager.startPlayback();
+      clock.advance(100);
+
+      enqueue(5);
+      clock.advance(100);
+
+      expect(manager.getSessionSummary().underrunDurationMs).toBeGreaterThan(0);
+    });
+
+    test('should time overruns and report the summary so far', () => {
+      enqueue(21);
+      clock.advance(100);
+
+      expect(manager.getSessionSummary()).toMatchObject({
+        durationMs: 100,
+        overrunDurationMs: 100,
+        averageBufferMs: 420,
+        peakBufferMs: 420,
+      });
+    });
+
+    test('should record snapshots and transitions within historySize', () => {
+      manager.updateConfig({ metricsIntervalMs: 100, historySize: 3 });
+      enqueue(5);
+
+      manager.startPlayback();
+      clock.advance(1000);
+      manager.stopPlayback();
+
+      const { snapshots, transitions } = manager.getHealthHistory();
+      expect(snapshots).toHaveLength(3);
+      expect(snapshots.at(-1)?.time).toBe(1000);
+      expect(transitions.map((transition) => transition.state)).toEqual(['healthy', 'idle']);
+
+      manager.updateConfig({ historySize: 1 });
+      expect(manager.getHealthHistory().snapshots).toEqual([snapshots.at(-1)]);
+    });
+
+    test('should start a new history when playback restarts', () => {
+      enqueue(5);
+      manager.startPlayback();
+      manager.stopPlayback();
+      const firstSummary = manager.getSessionSummary();
+
+      clock.advance(500);
+      manager.startPlayback();
+
+      expect(manager.getHealthHistory().snapshots).toHaveLength(0);
+      expect(manager.getSessionSummary()).not.toBe(firstSummary);
+      expect(manager.getSessionSummary().startTime).toBe(500);
+    });
+
+    test('should keep the summary after destroy', () => {
+      enqueue(5);
+      manager.startPlayback();
+      clock.advance(100);
+      manager.destroy();
+
+      expect(manager.getSessionSummary().turnId).toBe('turn-1');
+      expect(manager.getHealthHistory().snapshots).toHaveLength(1);
+    });
+  });
+
+  describe('Timer Playout', () => {
+    let clock: VirtualClock;
+    let sink: { play: jest.Mock; addChunkPlayedListener: jest.Mock; addStartedListener: jest.Mock };
+    let manager: AudioBufferManager;
+
+    const enqueue = (count: number): void => {
+      for (let i = 0; i < count; i++) {
+        manager.enqueueFrames({ audioData: 'dGVzdC1hdWRpby1kYXRh' });
+      }
+    };
+
+    beforeEach(() => {
+      clock = new VirtualClock();
+      sink = {
+        play: jest.fn().mockResolvedValue(undefined),
+        addChunkPlayedListener: jest.fn(),
+        addStartedListener: jest.fn(),
       };
+      manager = new AudioBufferManager(
+        { targetBufferMs: 100, minBufferMs: 40, maxBufferMs: 400, playoutClock: 'timer' },
+        clock,
+        sink
+      );
+    });
 
-      bufferManager.enqueueFrames(audioData);
-      // Should handle overrun without throwing
-      expect(bufferManager.getCurrentBufferMs()).toBeGreaterThanOrEqual(0);
+    afterEach(() => {
+      manager.destroy();
+    });
+
+    test('should not subscribe to native progress', () => {
+      manager.startPlayback();
+
+      expect(sink.addChunkPlayedListener).not.toHaveBeenCalled();
+      expect(sink.addStartedListener).not.toHaveBeenCalled();
+    });
+
+    test('should play more frames per tick the fuller the buffer is', () => {
+      enqueue(7);
+      manager.startPlayback();
+      // Above target
+      expect(sink.play).toHaveBeenCalledTimes(3);
+
+      // Ticks land 40ms apart after playing on time
+      clock.advance(40);
+      // Inside the target band
+      expect(sink.play).toHaveBeenCalledTimes(5);
+
+      clock.advance(40);
+      // Below 1.5x the minimum
+      expect(sink.play).toHaveBeenCalledTimes(6);
+    });
+
+    test('should conceal once the buffer falls below the minimum', () => {
+      enqueue(5);
+      manager.startPlayback();
+      const played = sink.play.mock.calls.length;
+
+      clock.advance(200);
+
+      const { QualityMonitor } = require('../src/audio/QualityMonitor');
+      const monitor = QualityMonitor.mock.results.at(-1).value;
+      expect(monitor.recordUnderrun).toHaveBeenCalled();
+      expect(sink.play.mock.calls.length).toBeGreaterThan(played);
     });
   });
 
@@ -363,7 +2047,7 @@ describe('AudioBufferManager', () => {
       bufferManager.setEncoding(EncodingTypes.PCM_S16LE);
       
       const audioData = {
-        audioData: 'test-audio-data',
+        audioData: 'dGVzdC1hdWRpby1kYXRh',
         isFirst: true,
       };
       
@@ -383,7 +2067,7 @@ describe('AudioBufferManager', () => {
 
     test('should handle playback without turn ID', async () => {
       const audioData = {
-        audioData: 'test-audio-data',
+        audioData: 'dGVzdC1hdWRpby1kYXRh',
         isFirst: true,
       };
       
@@ -402,7 +2086,7 @@ describe('AudioBufferManager', () => {
       });
       
       const audioData = {
-        audioData: 'test-audio-data',
+        audioData: 'dGVzdC1hdWRpby1kYXRh',
         isFirst: true,
       };
       
@@ -559,7 +2243,7 @@ describe('AudioBufferManager', () => {
         const audioData = {
           audioData: `frame-data-${i}`,
           isFirst: i === 0,
-          isFinal: i === 9,
+          isFinal: false,
         };
         bufferManager.enqueueFrames(audioData);
       }
@@ -669,7 +2353,7 @@ describe('AudioBufferManager', () => {
         const audioData = {
           audioData: `substantial-frame-${i}`,
           isFirst: i === 0,
-          isFinal: i === 14,
+          isFinal: false,
         };
         bufferManager.enqueueFrames(audioData);
       }
@@ -0,0 +1,361 @@
+import { BufferedStream } from '../src/audio/BufferedStream';
+import { AudioBufferManager } from '../src/audio/BufferManagerCore';
+import { VirtualClock } from '../src/audio/Clock';
+import { encodeBase64 } from '../src/audio/Base64';
+import { BufferedStreamConfig, IBufferHealthMetrics } from '../src/types';
+import ExpoPlayAudioStreamModule from '../src/ExpoPlayAudioStreamModule';
+
+jest.mock('../src/ExpoPlayAudioStreamModule', () => ({
+  playSound: jest.fn(),
+  clearSoundQueueByTurnId: jest.fn().mockResolvedValue(undefined),
+}));
+
+describe('BufferedStream', () => {
+  // 20ms of 16kHz s16 mono
+  const chunk = encodeBase64(new Uint8Array(640));
+  const mockClearQueue = ExpoPlayAudioStreamModule.clearSoundQueueByTurnId as jest.Mock;
+
+  let clock: VirtualClock;
+  let sink: { play: jest.Mock; addChunkPlayedListener: jest.Mock; addStartedListener: jest.Mock };
+
+  const createStream = (config: Partial<BufferedStreamConfig> = {}): BufferedStream =>
+    new BufferedStream(
+      {
+        turnId: 'turn-1',
+        bufferConfig: { targetBufferMs: 60, minBufferMs: 40, maxBufferMs: 400 },
+        ...config,
+      },
+      clock,
+      sink
+    );
+
+  const write = (stream: BufferedStream, count: number): void => {
+    for (let i = 0; i < count; i++) {
+      stream.write(chunk);
+    }
+  };
+
+  const isSettled = async (promise: Promise<void>): Promise<boolean> => {
+    let settled = false;
+    promise.then(() => {
+      settled = true;
+    });
+    await Promise.resolve();
+    await Promise.resolve();
+    return settled;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clock = new VirtualClock();
+    sink = {
+      play: jest.fn().mockResolvedValue(undefined),
+      addChunkPlayedListener: jest.fn(() => ({ remove: jest.fn() })),
+      addStartedListener: jest.fn(() => ({ remove: jest.fn() })),
+    };
+  });
+
+  test('should start playback and play written chunks for its turn', () => {
+    const stream = createStream();
+    expect(stream.turnId).toBe('turn-1');
+    expect(stream.isWritable).toBe(true);
+
+    write(stream, 3);
+    clock.advance(50);
+
+    expect(stream.isPlaying()).toBe(true);
+    expect(sink.play).toHaveBeenCalledWith(chunk, 'turn-1-frame-0', 'pcm_s16le');
+    void stream.abort();
+  });
+
+  test('should use the stream format for frame durations', () => {
+    const stream = createStream({ sampleRate: 16000, encoding: 'pcm_f32le' });
+    stream.write(chunk);
+
+    expect(stream.metrics.currentBufferMs).toBe(10);
+    void stream.abort();
+  });
+
+  test('should pass sender metadata through to the buffer', () => {
+    const stream = createStream({ bufferConfig: { reorderWindow: 4 } });
+
+    stream.write(chunk, { sequenceNumber: 0, timestamp: 0 });
+    stream.write(chunk, { sequenceNumber: 2, timestamp: 40 });
+    stream.write(chunk, { sequenceNumber: 1, timestamp: 20 });
+
+    expect(stream.metrics.packetsReordered).toBe(1);
+    void stream.abort();
+  });
+
+  test('should pass chunk send times through to the buffer', () => {
+    const enqueueFrames = jest.spyOn(AudioBufferManager.prototype, 'enqueueFrames');
+    const stream = createStream();
+
+    stream.write(chunk, { sentAt: 1000 });
+
+    expect(enqueueFrames).toHaveBeenCalledWith(expect.objectContaining({ sentAt: 1000 }));
+    enqueueFrames.mockRestore();
+    void stream.abort();
+  });
+
+  test('should play out everything after end and then resolve done', async () => {
+    const stream = createStream();
+    write(stream, 5);
+    clock.advance(10);
+
+    stream.end();
+    expect(stream.isWritable).toBe(false);
+    expect(await isSettled(stream.done)).toBe(false);
+
+    clock.advance(500);
+
+    expect(sink.play).toHaveBeenCalledTimes(5);
+    expect(await isSettled(stream.done)).toBe(true);
+    expect(stream.isPlaying()).toBe(false);
+    expect(clock.getPendingTimerCount()).toBe(0);
+  });
+
+  test('should play a stream shorter than the pre-roll once ended', async () => {
+    const stream = createStream();
+    stream.write(chunk);
+    clock.advance(200);
+    expect(sink.play).not.toHaveBeenCalled();
+
+    stream.end();
+    stream.end();
+    clock.advance(200);
+
+    expect(sink.play).toHaveBeenCalledTimes(1);
+    expect(await isSettled(stream.done)).toBe(true);
+  });
+
+  test('should keep its health history and summary after closing', async () => {
+    const sessionEnded = jest.fn();
+    const stream = createStream();
+    stream.addListener('sessionEnded', sessionEnded);
+    write(stream, 5);
+    clock.advance(10);
+
+    stream.end();
+    clock.advance(500);
+    await stream.done;
+
+    const summary = stream.summary;
+    expect(sessionEnded).toHaveBeenCalledWith(summary);
+    expect(summary).toMatchObject({ turnId: 'turn-1', playedMs: 100, underrunCount: 0 });
+    expect(JSON.parse(JSON.stringify(summary))).toEqual(summary);
+
+    const history = stream.healthHistory;
+    expect(history.snapshots).toHaveLength(1);
+    expect(history.transitions.at(-1)?.state).toBe('idle');
+    expect(JSON.parse(JSON.stringify(history))).toEqual(history);
+  });
+
+  test('should end with a final chunk', async () => {
+    const stream = createStream();
+    write(stream, 2);
+    stream.write(chunk, { isFinal: true });
+
+    expect(stream.isWritable).toBe(false);
+    expect(() => stream.write(chunk)).toThrow('has already ended');
+
+    clock.advance(500);
+
+    expect(sink.play).toHaveBeenCalledTimes(3);
+    expect(await isSettled(stream.done)).toBe(true);
+    expect(clock.getPendingTimerCount()).toBe(0);
+  });
+
+  test('should accept chunks sequenced before a final chunk that arrived early', async () => {
+    const stream = createStream({ bufferConfig: { reorderWindow: 4 } });
+
+    stream.write(chunk, { sequenceNumber: 0 });
+    stream.write(chunk, { sequenceNumber: 2, isFinal: true });
+    expect(stream.isWritable).toBe(true);
+    stream.write(chunk, { sequenceNumber: 1 });
+
+    expect(stream.isWritable).toBe(false);
+    expect(() => stream.write(chunk, { sequenceNumber: 3 })).toThrow('has already ended');
+
+    clock.advance(1500);
+
+    expect(sink.play).toHaveBeenCalledTimes(3);
+    expect(stream.summary.packetsLost).toBe(0);
+    expect(await isSettled(stream.done)).toBe(true);
+  });
+
+  test('should reject writes once ended or aborted', async () => {
+    const ended = createStream();
+    ended.end();
+    expect(() => ended.write(chunk)).toThrow('Buffered stream for turnId turn-1 has already ended');
+
+    const aborted = createStream({ turnId: 'turn-2' });
+    await aborted.abort();
+    expect(() => aborted.write(chunk)).toThrow('turn-2 has already ended');
+  });
+
+  test('should drop buffered audio and clear the native queue on abort', async () => {
+    const stream = createStream();
+    write(stream, 10);
+
+    await stream.abort();
+    await stream.abort();
+
+    expect(mockClearQueue).toHaveBeenCalledTimes(1);
+    expect(mockClearQueue).toHaveBeenCalledWith('turn-1');
+    expect(await isSettled(stream.done)).toBe(true);
+    expect(stream.metrics.currentBufferMs).toBe(0);
+  });
+
+  test('should stay open when the buffer runs empty mid-stream', async () => {
+    const stream = createStream({
+      bufferConfig: { targetBufferMs: 20, minBufferMs: 0 },
+    });
+    const drained = jest.fn();
+    stream.addListener('drained', drained);
+
+    stream.write(chunk);
+    clock.advance(100);
+
+    expect(drained).toHaveBeenCalledWith({ isFinal: false });
+    expect(await isSettled(stream.done)).toBe(false);
+    void stream.abort();
+  });
+
+  test('should default to the system clock and native player', async () => {
+    const stream = new BufferedStream({ turnId: 'turn-3' });
+
+    expect(stream.isPlaying()).toBe(true);
+    await stream.abort();
+  });
+
+  test('should report health every second by default', () => {
+    const onBufferHealth = jest.fn();
+    const stream = createStream({ onBufferHealth });
+
+    clock.advance(3000);
+
+    expect(onBufferHealth).toHaveBeenCalledTimes(3);
+    expect(onBufferHealth.mock.calls[0][0].targetBufferMs).toBe(60);
+    void stream.abort();
+  });
+
+  test('should honor a configured metrics interval', () => {
+    const onBufferHealth = jest.fn();
+    const stream = createStream({
+      onBufferHealth,
+      bufferConfig: { metricsIntervalMs: 250 },
+    });
+
+    clock.advance(1000);
+
+    expect(onBufferHealth).toHaveBeenCalledTimes(4);
+    void stream.abort();
+  });
+
+  test('should hold playback while paused', () => {
+    const stream = createStream();
+    write(stream, 3);
+    clock.advance(10);
+
+    stream.pause();
+    sink.play.mockClear();
+    write(stream, 2);
+    clock.advance(200);
+
+    expect(stream.isPaused()).toBe(true);
+    expect(sink.play).not.toHaveBeenCalled();
+
+    stream.resume();
+    clock.advance(10);
+    expect(stream.isPaused()).toBe(false);
+    expect(sink.play).toHaveBeenCalled();
+    void stream.abort();
+  });
+
+  test('should keep a bursty producer\'s audio past the maximum', () => {
+    const stream = createStream({ producerProfile: 'bursty' });
+    write(stream, 50);
+
+    expect(stream.metrics.currentBufferMs).toBeGreaterThan(400);
+    expect(stream.metrics.droppedMs).toBe(0);
+    void stream.abort();
+  });
+
+  test('should update the buffer configuration', () => {
+    const stream = createStream();
+
+    stream.updateConfig({ targetBufferMs: 120 });
+
+    expect(stream.metrics.targetBufferMs).toBe(120);
+    void stream.abort();
+  });
+
+  test('should forward buffer event subscriptions', () => {
+    const stream = createStream();
+    const overrun = jest.fn();
+    stream.addListener('overrun', overrun);
+
+    write(stream, 25);
+
+    expect(overrun).toHaveBeenCalled();
+    void stream.abort();
+  });
+
+  describe('Async iteration', () => {
+    test('should yield health snapshots until the stream closes', async () => {
+      const stream = createStream();
+      const collected = (async () => {
+        const snapshots: IBufferHealthMetrics[] = [];
+        for await (const snapshot of stream) {
+          snapshots.push(snapshot);
+        }
+        return snapshots;
+      })();
+
+      await Promise.resolve();
+      clock.advance(1000);
+      await Promise.resolve();
+      clock.advance(2000);
+      await stream.abort();
+
+      expect(await collected).toHaveLength(3);
+    });
+
+    test('should stop listening when iteration is abandoned', async () => {
+      const stream = createStream();
+      const iterator = stream[Symbol.asyncIterator]();
+
+      clock.advance(1000);
+      expect((await iterator.next()).done).toBe(false);
+      expect(await iterator.return!()).toEqual({ value: undefined, done: true });
+      clock.advance(1000);
+
+      expect((await iterator.next()).done).toBe(true);
+      void stream.abort();
+    });
+
+    test('should end immediately for a closed stream', async () => {
+      const stream = createStream();
+      await stream.abort();
+
+      const iterator = stream[Symbol.asyncIterator]();
+
+      expect((await iterator.next()).done).toBe(true);
+    });
+
+    test('should keep only the most recent unread snapshots', async () => {
+      const stream = createStream();
+      const iterator = stream[Symbol.asyncIterator]();
+
+      clock.advance(40 * 1000);
+      await stream.abort();
+
+      let count = 0;
+      while (!(await iterator.next()).done) {
+        count++;
+      }
+      expect(count).toBe(32);
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { SystemClock, VirtualClock } from '../src/audio/Clock';
+import { AudioBufferManager } from '../src/audio/BufferManagerCore';
+import { BufferManagerAdaptive } from '../src/audio/BufferManagerAdaptive';
+import { QualityMonitor } from '../src/audio/QualityMonitor';
+import { encodeBase64 } from '../src/audio/Base64';
+import ExpoPlayAudioStreamModule from '../src/ExpoPlayAudioStreamModule';
+
+jest.mock('../src/ExpoPlayAudioStreamModule', () => ({
+  playSound: jest.fn(),
+}));
+
+describe('Clock', () => {
+  describe('SystemClock', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test('should follow fake timers installed after import', () => {
+      jest.useFakeTimers();
+      jest.setSystemTime(1000);
+      const callback = jest.fn();
+
+      expect(SystemClock.now()).toBe(1000);
+      SystemClock.setTimeout(callback, 50);
+      jest.advanceTimersByTime(50);
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    test('should cancel timers', () => {
+      jest.useFakeTimers();
+      const callback = jest.fn();
+
+      const handle = SystemClock.setTimeout(callback, 50);
+      SystemClock.clearTimeout(handle);
+      jest.advanceTimersByTime(100);
+      expect(callback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('VirtualClock', () => {
+    let clock: VirtualClock;
+
+    beforeEach(() => {
+      clock = new VirtualClock(1000);
+    });
+
+    test('should start at the given time and default to zero', () => {
+      expect(clock.now()).toBe(1000);
+      expect(new VirtualClock().now()).toBe(0);
+    });
+
+    test('should run due timers in order while advancing', () => {
+      const calls: Array<[string, number]> = [];
+      clock.setTimeout(() => calls.push(['b', clock.now()]), 20);
+      clock.setTimeout(() => calls.push(['a', clock.now()]), 10);
+      clock.setTimeout(() => calls.push(['c', clock.now()]), 20);
+      clock.setTimeout(() => calls.push(['late', clock.now()]), 100);
+
+      clock.advance(50);
+
+      expect(calls).toEqual([
+        ['a', 1010],
+        ['b', 1020],
+        ['c', 1020],
+      ]);
+      expect(clock.now()).toBe(1050);
+      expect(clock.getPendingTimerCount()).toBe(1);
+    });
+
+    test('should run timers scheduled by callbacks within the same advance', () => {
+      let ticks = 0;
+      const tick = (): void => {
+        ticks++;
+        clock.setTimeout(tick, 20);
+      };
+      clock.setTimeout(tick, 20);
+
+      clock.advance(100);
+
+      expect(ticks).toBe(5);
+    });
+
+    test('should treat negative and missing delays as zero', () => {
+      const callback = jest.fn();
+      clock.setTimeout(callback, -5);
+      clock.setTimeout(callback, NaN);
+
+      clock.advance(0);
+
+      expect(callback).toHaveBeenCalledTimes(2);
+    });
+
+    test('should cancel timers', () => {
+      const callback = jest.fn();
+      const handle = clock.setTimeout(callback, 10);
+
+      clock.clearTimeout(handle);
+      clock.advance(20);
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    test('should run all pending timers up to a limit', () => {
+      const callback = jest.fn();
+      clock.setTimeout(callback, 10);
+      clock.setTimeout(callback, 500);
+
+      expect(clock.runAll()).toBe(2);
+      expect(clock.now()).toBe(1500);
+
+      const loop = (): void => {
+        clock.setTimeout(loop, 20);
+      };
+      loop();
+      expect(clock.runAll(10)).toBe(10);
+      expect(clock.getPendingTimerCount()).toBe(1);
+    });
+  });
+
+  describe('Virtual time playout', () => {
+    const mockPlaySound = ExpoPlayAudioStreamModule.playSound as jest.Mock;
+    // 20ms of 16kHz s16 mono
+    const chunk = encodeBase64(new Uint8Array(640));
+
+    beforeEach(() => {
+      mockPlaySound.mockClear();
+    });
+
+    test('should drive buffer fill and the playout loop from the injected clock', () => {
+      const clock = new VirtualClock();
+      const manager = new AudioBufferManager(
+        { targetBufferMs: 60, minBufferMs: 40, maxBufferMs: 200 },
+        clock
+      );
+
+      manager.startPlayback();
+      clock.advance(500);
+      // Still waiting for the buffer to fill
+      expect(mockPlaySound).not.toHaveBeenCalled();
+
+      for (let i = 0; i < 3; i++) {
+        manager.enqueueFrames({ audioData: chunk });
+      }
+      clock.advance(50);
+
+      expect(mockPlaySound).toHaveBeenCalled();
+      manager.destroy();
+      expect(clock.getPendingTimerCount()).toBe(0);
+    });
+
+    test('should simulate long sessions without real waiting', () => {
+      const clock = new VirtualClock();
+      const manager = new AudioBufferManager(
+        { targetBufferMs: 60, minBufferMs: 40, maxBufferMs: 400 },
+        clock
+      );
+      manager.startPlayback();
+
+      const feed = (): void => {
+        manager.enqueueFrames({ audioData: chunk });
+        clock.setTimeout(feed, 20);
+      };
+      feed();
+
+      clock.advance(10 * 60 * 1000);
+
+      expect(mockPlaySound.mock.calls.length).toBeGreaterThan(20000);
+      expect(manager.getHealthMetrics().interarrivalJitter).toBe(0);
+      manager.destroy();
+    });
+
+    test('should timestamp quality events with the injected clock', () => {
+      const clock = new VirtualClock(0);
+      const monitor = new QualityMonitor(20, 1000, clock);
+      monitor.updateBufferLevel(100);
+      for (let i = 0; i < 5; i++) {
+        monitor.recordUnderrun();
+      }
+      expect(monitor.getBufferHealthState(true, 0)).toBe('degraded');
+
+      clock.advance(1001);
+      expect(monitor.getBufferHealthState(true, 0)).toBe('healthy');
+    });
+
+    test('should re-evaluate adaptive buffering on the injected clock', async () => {
+      const clock = new VirtualClock(10000);
+      const adaptive = new BufferManagerAdaptive(
+        { mode: 'adaptive' },
+        'turn-1',
+        undefined,
+        clock
+      );
+      const directPlay = jest.fn().mockResolvedValue(undefined);
+      const evaluate = jest.spyOn(
+        adaptive as unknown as { _evaluateBufferingNeed: () => void },
+        '_evaluateBufferingNeed'
+      );
+
+      await adaptive.processAudioChunk({ audioData: chunk }, directPlay);
+      await adaptive.processAudioChunk({ audioData: chunk }, directPlay);
+      expect(evaluate).toHaveBeenCalledTimes(1);
+
+      clock.advance(5001);
+      await adaptive.processAudioChunk({ audioData: chunk }, directPlay);
+      expect(evaluate).toHaveBeenCalledTimes(2);
+
+      adaptive.destroy();
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { ClockOffsetEstimator, OneWayDelayEstimator } from '../src/audio/ClockSync';
+
+describe('ClockOffsetEstimator', () => {
+  let estimator: ClockOffsetEstimator;
+
+  beforeEach(() => {
+    estimator = new ClockOffsetEstimator();
+  });
+
+  test('should have no estimate before any sample', () => {
+    expect(estimator.hasEstimate()).toBe(false);
+    expect(estimator.getOffsetMs()).toBe(0);
+    expect(estimator.getRoundTripMs()).toBe(0);
+    expect(estimator.toLocalTime(500)).toBe(500);
+  });
+
+  test('should derive offset and round trip from a ping/pong', () => {
+    // Sender clock runs 100ms ahead, 50ms each way
+    estimator.addSample({ clientSendTime: 0, serverReceiveTime: 150, clientReceiveTime: 100 });
+
+    expect(estimator.hasEstimate()).toBe(true);
+    expect(estimator.getOffsetMs()).toBe(100);
+    expect(estimator.getRoundTripMs()).toBe(100);
+    expect(estimator.toLocalTime(1150)).toBe(1050);
+  });
+
+  test('should leave sender processing time out of the round trip', () => {
+    estimator.addSample({
+      clientSendTime: 0,
+      serverReceiveTime: 150,
+      serverSendTime: 160,
+      clientReceiveTime: 110,
+    });
+
+    expect(estimator.getRoundTripMs()).toBe(100);
+    expect(estimator.getOffsetMs()).toBe(100);
+  });
+
+  test('should take the offset from the shortest round trip and smooth the round trip', () => {
+    estimator.addSample({ clientSendTime: 0, serverReceiveTime: 150, clientReceiveTime: 100 });
+    // Queued on the way out, so the offset looks 50ms larger
+    estimator.addSample({ clientSendTime: 1000, serverReceiveTime: 1300, clientReceiveTime: 1300 });
+
+    expect(estimator.getOffsetMs()).toBe(100);
+    expect(estimator.getRoundTripMs()).toBe(125);
+
+    estimator.addSample({ clientSendTime: 2000, serverReceiveTime: 2110, clientReceiveTime: 2020 });
+    expect(estimator.getOffsetMs()).toBe(100);
+    expect(estimator.getRoundTripMs()).toBe(111.875);
+  });
+
+  test('should only consider recent samples', () => {
+    estimator.addSample({ clientSendTime: 0, serverReceiveTime: 5, clientReceiveTime: 10 });
+    for (let i = 1; i <= 8; i++) {
+      const start = i * 1000;
+      estimator.addSample({
+        clientSendTime: start,
+        serverReceiveTime: start + 250,
+        clientReceiveTime: start + 100,
+      });
+    }
+
+    expect(estimator.getOffsetMs()).toBe(200);
+  });
+
+  test('should ignore samples with a negative round trip', () => {
+    estimator.addSample({
+      clientSendTime: 0,
+      serverReceiveTime: 100,
+      serverSendTime: 200,
+      clientReceiveTime: 50,
+    });
+
+    expect(estimator.hasEstimate()).toBe(false);
+  });
+
+  test('should reset', () => {
+    estimator.addSample({ clientSendTime: 0, serverReceiveTime: 150, clientReceiveTime: 100 });
+
+    estimator.reset();
+
+    expect(estimator.hasEstimate()).toBe(false);
+    expect(estimator.getRoundTripMs()).toBe(0);
+  });
+});
+
+describe('OneWayDelayEstimator', () => {
+  let clockOffset: ClockOffsetEstimator;
+  let estimator: OneWayDelayEstimator;
+
+  const syncClocks = (): void =>
+    // Sender clock runs 100ms ahead
+    clockOffset.addSample({ clientSendTime: 0, serverReceiveTime: 150, clientReceiveTime: 100 });
+
+  beforeEach(() => {
+    clockOffset = new ClockOffsetEstimator();
+    estimator = new OneWayDelayEstimator(clockOffset);
+  });
+
+  test('should report nothing before any measurement', () => {
+    expect(estimator.getOneWayDelayMs()).toBeNull();
+    expect(estimator.getDelayVariationMs()).toBe(0);
+    expect(estimator.getNetworkConditions()).toEqual({});
+  });
+
+  test('should measure delay variation without clock sync', () => {
+    estimator.recordArrival(1000, 5050);
+    estimator.recordArrival(1020, 5090);
+
+    expect(estimator.getOneWayDelayMs()).toBeNull();
+    expect(estimator.getDelayVariationMs()).toBe(1.25);
+    expect(estimator.getNetworkConditions()).toEqual({ delayVariation: 1.25 });
+  });
+
+  test('should correct one-way delay with the clock offset', () => {
+    syncClocks();
+    estimator.recordArrival(1100, 1050);
+
+    expect(estimator.getOneWayDelayMs()).toBe(50);
+    expect(estimator.getNetworkConditions()).toEqual({
+      latency: 100,
+      oneWayDelay: 50,
+      delayVariation: 0,
+    });
+  });
+
+  test('should apply a clock sync that arrives after the chunks', () => {
+    estimator.recordArrival(1100, 1050);
+    estimator.recordArrival(1120, 1150);
+
+    syncClocks();
+
+    // Transit smooths from -50 towards 30 by one eighth
+    expect(estimator.getOneWayDelayMs()).toBe(60);
+  });
+
+  test('should not report a negative delay', () => {
+    syncClocks();
+    estimator.recordArrival(1300, 1050);
+
+    expect(estimator.getOneWayDelayMs()).toBe(0);
+  });
+
+  test('should reset', () => {
+    syncClocks();
+    estimator.recordArrival(1100, 1050);
+
+    estimator.reset();
+
+    expect(estimator.getOneWayDelayMs()).toBeNull();
+    expect(estimator.getNetworkConditions()).toEqual({ latency: 100 });
+  });
+});
@@ -0,0 +1,212 @@
+import {
+  SilenceConcealment,
+  FadeRepeatConcealment,
+  WaveformExtensionConcealment,
+  ComfortNoiseConcealment,
+  createConcealmentStrategy,
+} from '../src/audio/Concealment';
+import { EncodingTypes, IAudioFormat, IConcealmentContext, IConcealmentStrategy } from '../src/types';
+
+describe('Concealment', () => {
+  const format: IAudioFormat = {
+    sampleRate: 16000,
+    encoding: EncodingTypes.PCM_S16LE,
+    channels: 1,
+  };
+
+  // 20ms at 16kHz
+  const sampleFrames = 320;
+
+  const sine = (length: number, period: number, amplitude = 0.5): Float32Array =>
+    Float32Array.from({ length }, (_, i) => amplitude * Math.sin((2 * Math.PI * i) / period));
+
+  const context = (overrides: Partial<IConcealmentContext> = {}): IConcealmentContext => ({
+    history: sine(960, 80),
+    sampleFrames,
+    format,
+    consecutiveCount: 0,
+    ...overrides,
+  });
+
+  const rms = (samples: Float32Array): number =>
+    Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+
+  describe('SilenceConcealment', () => {
+    test('should produce zeros for every channel', () => {
+      const output = new SilenceConcealment().conceal(
+        context({ format: { ...format, channels: 2 } })
+      );
+
+      expect(output.length).toBe(sampleFrames * 2);
+      expect(output.every((sample) => sample === 0)).toBe(true);
+    });
+  });
+
+  describe('FadeRepeatConcealment', () => {
+    test('should repeat the last frame with a decaying gain', () => {
+      const history = sine(sampleFrames, 80);
+      const output = new FadeRepeatConcealment(0.5).conceal(context({ history }));
+
+      expect(output[10]).toBeCloseTo(history[10] * (1 - 0.5 * (10 / sampleFrames)), 5);
+      expect(rms(output)).toBeLessThan(rms(history));
+    });
+
+    test('should keep fading across consecutive frames', () => {
+      const strategy = new FadeRepeatConcealment(0.5);
+      const first = strategy.conceal(context());
+      const second = strategy.conceal(context({ consecutiveCount: 1 }));
+      const third = strategy.conceal(context({ consecutiveCount: 2 }));
+
+      expect(rms(second)).toBeLessThan(rms(first));
+      expect(rms(third)).toBeLessThan(rms(second));
+    });
+
+    test('should fall back to silence without history', () => {
+      const output = new FadeRepeatConcealment().conceal(
+        context({ history: new Float32Array(0) })
+      );
+
+      expect(output.length).toBe(sampleFrames);
+      expect(output.every((sample) => sample === 0)).toBe(true);
+    });
+
+    test('should capture a new template after reset', () => {
+      const strategy = new FadeRepeatConcealment(0.5);
+      strategy.conceal(context());
+      strategy.reset();
+
+      const output = strategy.conceal(
+        context({ history: new Float32Array(sampleFrames).fill(0.25), consecutiveCount: 3 })
+      );
+      expect(output[0]).toBeCloseTo(0.25 * Math.pow(0.5, 3), 5);
+    });
+  });
+
+  describe('WaveformExtensionConcealment', () => {
+    test('should continue a periodic signal in phase', () => {
+      const period = 80; // 5ms at 16kHz
+      const history = sine(960, period);
+      const output = new WaveformExtensionConcealment(1).conceal(context({ history }));
+
+      const expected = sine(960 + sampleFrames, period).subarray(960);
+      output.forEach((sample, i) => expect(sample).toBeCloseTo(expected[i], 4));
+    });
+
+    test('should attenuate consecutive frames', () => {
+      const strategy = new WaveformExtensionConcealment(0.5);
+      const first = strategy.conceal(context());
+      const second = strategy.conceal(context({ consecutiveCount: 1 }));
+
+      expect(rms(second)).toBeLessThan(rms(first));
+    });
+
+    test('should estimate the period on the first channel of stereo audio', () => {
+      const mono = sine(960, 64);
+      const history = new Float32Array(mono.length * 2);
+      mono.forEach((sample, i) => {
+        history[i * 2] = sample;
+        history[i * 2 + 1] = -sample;
+      });
+
+      const output = new WaveformExtensionConcealment(1).conceal(
+        context({ history, format: { ...format, channels: 2 } })
+      );
+
+      const expected = sine(960 + sampleFrames, 64).subarray(960);
+      expect(output.length).toBe(sampleFrames * 2);
+      expect(output[20]).toBeCloseTo(expected[10], 4);
+      expect(output[21]).toBeCloseTo(-expected[10], 4);
+    });
+
+    test('should repeat short histories whole', () => {
+      const history = new Float32Array([0.1, 0.2, 0.3]);
+      const output = new WaveformExtensionConcealment(1).conceal(context({ history }));
+
+      expect(Array.from(output.subarray(0, 6))).toEqual(
+        Array.from(new Float32Array([0.1, 0.2, 0.3, 0.1, 0.2, 0.3]))
+      );
+    });
+
+    test('should fall back to silence without history', () => {
+      const strategy = new WaveformExtensionConcealment();
+      const output = strategy.conceal(context({ history: new Float32Array(0) }));
+
+      expect(output.every((sample) => sample === 0)).toBe(true);
+      strategy.reset();
+    });
+
+    test('should handle silent history', () => {
+      const output = new WaveformExtensionConcealment().conceal(
+        context({ history: new Float32Array(960) })
+      );
+
+      expect(output.every((sample) => sample === 0)).toBe(true);
+    });
+  });
+
+  describe('ComfortNoiseConcealment', () => {
+    test('should match the energy of the last frame', () => {
+      let seed = 1;
+      const random = (): number => {
+        seed = (seed * 16807) % 2147483647;
+        return seed / 2147483647;
+      };
+      const history = sine(sampleFrames, 80, 0.4);
+      const output = new ComfortNoiseConcealment(random).conceal(
+        context({ history, sampleFrames: 16000 })
+      );
+
+      expect(rms(output)).toBeCloseTo(rms(history), 1);
+    });
+
+    test('should keep the captured level across consecutive frames', () => {
+      const strategy = new ComfortNoiseConcealment(() => 1);
+      const first = strategy.conceal(context({ history: new Float32Array(sampleFrames).fill(0.2) }));
+      const second = strategy.conceal(
+        context({ history: new Float32Array(sampleFrames), consecutiveCount: 1 })
+      );
+
+      expect(second[0]).toBeCloseTo(first[0], 5);
+
+      strategy.reset();
+      const afterReset = strategy.conceal(
+        context({ history: new Float32Array(sampleFrames), consecutiveCount: 2 })
+      );
+      expect(afterReset[0]).toBe(0);
+    });
+
+    test('should produce silence without history', () => {
+      const output = new ComfortNoiseConcealment().conceal(
+        context({ history: new Float32Array(0) })
+      );
+
+      expect(output.every((sample) => sample === 0)).toBe(true);
+    });
+  });
+
+  describe('createConcealmentStrategy', () => {
+    test('should create built-in strategies by mode', () => {
+      expect(createConcealmentStrategy('silence')).toBeInstanceOf(SilenceConcealment);
+      expect(createConcealmentStrategy('fadeRepeat')).toBeInstanceOf(FadeRepeatConcealment);
+      expect(createConcealmentStrategy('waveformExtension')).toBeInstanceOf(
+        WaveformExtensionConcealment
+      );
+      expect(createConcealmentStrategy('comfortNoise')).toBeInstanceOf(ComfortNoiseConcealment);
+    });
+
+    test('should pass custom strategies through', () => {
+      const custom: IConcealmentStrategy = {
+        conceal: jest.fn(),
+        reset: jest.fn(),
+      };
+
+      expect(createConcealmentStrategy(custom)).toBe(custom);
+    });
+
+    test('should default unknown modes to silence', () => {
+      expect(createConcealmentStrategy('unknown' as 'silence')).toBeInstanceOf(
+        SilenceConcealment
+      );
+    });
+  });
+});
@@ -1,4 +1,7 @@
 import { FrameProcessor } from '../src/audio/FrameProcessor';
+import { ChunkRejectedError } from '../src/audio/ChunkValidation';
+import { encodeBase64 } from '../src/audio/Base64';
+import { EncodingTypes, IAudioFrame } from '../src/types';
 
 describe('FrameProcessor', () => {
   let frameProcessor: FrameProcessor;
@@ -117,6 +120,326 @@ describe('FrameProcessor', () => {
     });
   });
 
+  describe('Binary Input', () => {
+    const pcm = (frame: IAudioFrame): Uint8Array => frame.data.audioData as Uint8Array;
+
+    test('should frame an ArrayBuffer without base64', () => {
+      const bytes = new Uint8Array(1280).map((_, i) => i % 256);
+
+      const frames = frameProcessor.parseChunk({ audioData: bytes.buffer });
+
+      expect(frames).toHaveLength(2);
+      expect(pcm(frames[1])).toEqual(bytes.subarray(640));
+    });
+
+    test('should read only the viewed bytes of a typed array', () => {
+      const samples = new Int16Array(640).fill(1);
+      samples.fill(2, 320);
+
+      const frames = frameProcessor.parseChunk({ audioData: samples.subarray(320) });
+
+      expect(frames).toHaveLength(1);
+      expect(new Int16Array(pcm(frames[0]).slice().buffer)).toEqual(new Int16Array(320).fill(2));
+    });
+
+    test('should frame float samples by their byte length', () => {
+      const floatProcessor = new FrameProcessor(frameIntervalMs, {
+        sampleRate: 16000,
+        encoding: EncodingTypes.PCM_F32LE,
+        channels: 1,
+      });
+
+      const frames = floatProcessor.parseChunk({ audioData: new Float32Array(640) });
+
+      expect(frames.map((frame) => frame.duration)).toEqual([20, 20]);
+    });
+
+    test('should reject empty and non-audio data', () => {
+      expect(frameProcessor.parseChunk({ audioData: new ArrayBuffer(0) })).toEqual([]);
+      expect(frameProcessor.parseChunk({ audioData: 42 as unknown as string })).toEqual([]);
+    });
+  });
+
+  describe('Validation Policy', () => {
+    const rejections = jest.fn();
+    const pcmBase64 = (byteCount: number): string => encodeBase64(new Uint8Array(byteCount));
+
+    beforeEach(() => {
+      rejections.mockReset();
+      frameProcessor.setRejectionListener(rejections);
+    });
+
+    const lastReason = (): string => rejections.mock.calls.at(-1)[0].reason;
+
+    test('should report rejections with a reason and sequence number', () => {
+      frameProcessor.parseChunk({ audioData: '', sequenceNumber: 7 });
+
+      expect(rejections).toHaveBeenCalledWith({
+        reason: 'invalidPayload',
+        message: 'Audio data must be a non-empty base64 string or binary data',
+        sequenceNumber: 7,
+      });
+    });
+
+    test('should reject chunks above maxChunkBytes', () => {
+      frameProcessor.setValidationPolicy({ maxChunkBytes: 1000 });
+
+      expect(frameProcessor.parseChunk({ audioData: pcmBase64(1002) })).toEqual([]);
+      expect(lastReason()).toBe('tooLarge');
+      expect(frameProcessor.parseChunk({ audioData: new Uint8Array(1002) })).toEqual([]);
+      expect(frameProcessor.parseChunk({ audioData: pcmBase64(1000) })).toHaveLength(2);
+    });
+
+    test('should accept any size with maxChunkBytes 0', () => {
+      frameProcessor.setValidationPolicy({ maxChunkBytes: 0 });
+
+      expect(frameProcessor.parseChunk({ audioData: pcmBase64(128000) })).toHaveLength(200);
+      expect(rejections).not.toHaveBeenCalled();
+    });
+
+    test('should clean up base64 leniently by default', () => {
+      // URL-safe, unpadded and wrapped
+      const frames = frameProcessor.parseChunk({ audioData: ' _-8\n_AA ' });
+
+      expect(Array.from(frames[0].data.audioData as Uint8Array)).toEqual([0xff, 0xef, 0x3f, 0x00]);
+      expect(rejections).not.toHaveBeenCalled();
+    });
+
+    test('should accept only padded standard base64 when strict', () => {
+      frameProcessor.setValidationPolicy({ base64: 'strict' });
+
+      frameProcessor.parseChunk({ audioData: 'AAAA\nAAAA' });
+      expect(lastReason()).toBe('invalidBase64');
+      frameProcessor.parseChunk({ audioData: 'AAAAAA' });
+      expect(lastReason()).toBe('invalidBase64');
+      expect(frameProcessor.parseChunk({ audioData: 'AAAAAA==' })).toHaveLength(1);
+      expect(rejections).toHaveBeenCalledTimes(2);
+    });
+
+    test('should reject base64 of impossible length', () => {
+      frameProcessor.parseChunk({ audioData: 'AAAAA' });
+
+      expect(lastReason()).toBe('invalidBase64');
+    });
+
+    test('should drop or reject partial samples per policy', () => {
+      frameProcessor.setValidationPolicy({ partialSamples: 'drop' });
+      frameProcessor.parseChunk({ audioData: new Uint8Array(641) });
+      expect(frameProcessor.parseChunk({ audioData: new Uint8Array(640) }).map((frame) => frame.data.audioData)).toEqual([
+        new Uint8Array(640),
+      ]);
+
+      frameProcessor.setValidationPolicy({ partialSamples: 'reject' });
+      expect(frameProcessor.parseChunk({ audioData: new Uint8Array(641) })).toEqual([]);
+      expect(lastReason()).toBe('partialSample');
+    });
+
+    test('should reject chunks outside the duration bounds', () => {
+      frameProcessor.setValidationPolicy({ minChunkMs: 20, maxChunkMs: 100 });
+
+      frameProcessor.parseChunk({ audioData: new Uint8Array(320) });
+      expect(lastReason()).toBe('tooShort');
+      frameProcessor.parseChunk({ audioData: new Uint8Array(3840) });
+      expect(lastReason()).toBe('tooLong');
+      expect(frameProcessor.parseChunk({ audioData: new Uint8Array(3200) })).toHaveLength(5);
+    });
+
+    test('should throw rejections when configured to', () => {
+      frameProcessor.setValidationPolicy({ onRejection: 'throw', maxChunkBytes: 100 });
+
+      expect(() => frameProcessor.parseChunk({ audioData: new Uint8Array(640) })).toThrow(ChunkRejectedError);
+      try {
+        frameProcessor.decodeChunk({ audioData: new Uint8Array(640) });
+      } catch (error) {
+        expect((error as ChunkRejectedError).reason).toBe('tooLarge');
+        expect((error as ChunkRejectedError).name).toBe('ChunkRejectedError');
+      }
+      expect(frameProcessor.getStats().chunksRejected).toBe(2);
+      expect(rejections).not.toHaveBeenCalled();
+    });
+
+    test('should count rejections by reason until reset', () => {
+      frameProcessor.parseChunk(null as unknown as { audioData: string });
+      frameProcessor.parseChunk({ audioData: '!!!!' });
+      frameProcessor.parseChunk({ audioData: new ArrayBuffer(0) });
+
+      expect(frameProcessor.getStats()).toEqual({
+        chunksRejected: 3,
+        chunkRejections: {
+          invalidPayload: 2,
+          invalidBase64: 1,
+          tooLarge: 0,
+          partialSample: 0,
+          tooShort: 0,
+          tooLong: 0,
+        },
+      });
+
+      frameProcessor.reset();
+      expect(frameProcessor.getStats().chunksRejected).toBe(0);
+    });
+
+    test('should log rejections without a listener', () => {
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+      frameProcessor.setRejectionListener(null);
+
+      frameProcessor.parseChunk({ audioData: '!!!!' });
+
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'FrameProcessor: Rejected chunk (invalidBase64):',
+        'Audio data contains characters outside the base64 alphabet'
+      );
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('Audio Format', () => {
+    // 640 zero bytes
+    const zeroBytes640 = btoa(String.fromCharCode(...new Array(640).fill(0)));
+
+    test('should use 16kHz s16 mono by default', () => {
+      const frames = frameProcessor.parseChunk({ audioData: zeroBytes640 });
+      expect(frames[0].duration).toBe(20);
+    });
+
+    test('should honor 24kHz float audio', () => {
+      const floatProcessor = new FrameProcessor(frameIntervalMs, {
+        sampleRate: 24000,
+        encoding: EncodingTypes.PCM_F32LE,
+        channels: 1,
+      });
+
+      // 640 bytes = 160 float samples = 6.67ms at 24kHz
+      const frames = floatProcessor.parseChunk({ audioData: zeroBytes640 });
+      expect(frames[0].duration).toBeCloseTo(160 / 24, 5);
+    });
+
+    test('should account for channel count', () => {
+      const stereoProcessor = new FrameProcessor(frameIntervalMs, {
+        sampleRate: 16000,
+        encoding: EncodingTypes.PCM_S16LE,
+        channels: 2,
+      });
+
+      const frames = stereoProcessor.parseChunk({ audioData: zeroBytes640 });
+      expect(frames[0].duration).toBe(10);
+    });
+
+    test('should apply format updates to later chunks', () => {
+      frameProcessor.setAudioFormat({
+        sampleRate: 48000,
+        encoding: EncodingTypes.PCM_S16LE,
+        channels: 1,
+      });
+
+      const frames = frameProcessor.parseChunk({ audioData: zeroBytes640 });
+      expect(frames[0].duration).toBeCloseTo(320 / 48, 5);
+    });
+  });
+
+  describe('Frame Splitting', () => {
+    const pcmBase64 = (byteCount: number): string =>
+      btoa(String.fromCharCode(...new Array(byteCount).fill(0).map((_, i) => i % 256)));
+    const pcm = (frame: IAudioFrame): Uint8Array => frame.data.audioData as Uint8Array;
+
+    test('should split oversized chunks into frameIntervalMs frames', () => {
+      // 500ms of 16kHz s16 mono audio
+      const frames = frameProcessor.parseChunk({ audioData: pcmBase64(16000) });
+
+      expect(frames).toHaveLength(25);
+      frames.forEach((frame) => {
+        expect(frame.duration).toBe(20);
+        expect(pcm(frame).length).toBe(640);
+      });
+    });
+
+    test('should keep frame bytes in order', () => {
+      const frames = frameProcessor.parseChunk({ audioData: pcmBase64(1280) });
+
+      expect(pcm(frames[0])[0]).toBe(0);
+      expect(pcm(frames[1])[0]).toBe(640 % 256);
+    });
+
+    test('should assign consecutive sequence numbers', () => {
+      const frames = [
+        ...frameProcessor.parseChunk({ audioData: pcmBase64(1280) }),
+        ...frameProcessor.parseChunk({ audioData: pcmBase64(640) }),
+      ];
+
+      expect(frames.map((frame) => frame.sequenceNumber)).toEqual([0, 1, 2]);
+    });
+
+    test('should emit a shorter trailing frame for the remainder', () => {
+      const frames = frameProcessor.parseChunk({ audioData: pcmBase64(1600) });
+
+      expect(frames).toHaveLength(3);
+      expect(frames[2].duration).toBe(10);
+    });
+
+    test('should keep isFirst and isFinal on the edge frames only', () => {
+      const frames = frameProcessor.parseChunk({
+        audioData: pcmBase64(1920),
+        isFirst: true,
+        isFinal: true,
+      });
+
+      expect(frames.map((frame) => frame.data.isFirst)).toEqual([true, false, false]);
+      expect(frames.map((frame) => frame.data.isFinal)).toEqual([false, false, true]);
+    });
+
+    test('should frame according to the stream format', () => {
+      const floatProcessor = new FrameProcessor(frameIntervalMs, {
+        sampleRate: 24000,
+        encoding: EncodingTypes.PCM_F32LE,
+        channels: 2,
+      });
+
+      // 20ms at 24kHz float stereo = 480 * 8 bytes
+      const frames = floatProcessor.parseChunk({ audioData: pcmBase64(3840 * 2) });
+
+      expect(frames).toHaveLength(2);
+      expect(pcm(frames[0]).length).toBe(3840);
+    });
+
+    test('should carry a partial sample over to the next chunk', () => {
+      const first = frameProcessor.parseChunk({ audioData: pcmBase64(641) });
+      const second = frameProcessor.parseChunk({ audioData: pcmBase64(639) });
+
+      expect(first).toHaveLength(1);
+      expect(second).toHaveLength(1);
+      expect(pcm(second[0]).length).toBe(640);
+    });
+
+    test('should drop a partial sample on the final chunk', () => {
+      frameProcessor.parseChunk({ audioData: pcmBase64(641), isFinal: true });
+      const next = frameProcessor.parseChunk({ audioData: pcmBase64(640) });
+
+      expect(pcm(next[0]).length).toBe(640);
+    });
+
+    test('should discard carried bytes on reset and format change', () => {
+      frameProcessor.parseChunk({ audioData: pcmBase64(641) });
+      frameProcessor.reset();
+      expect(pcm(frameProcessor.parseChunk({ audioData: pcmBase64(640) })[0]).length).toBe(640);
+
+      frameProcessor.parseChunk({ audioData: pcmBase64(641) });
+      frameProcessor.setAudioFormat({
+        sampleRate: 16000,
+        encoding: EncodingTypes.PCM_S16LE,
+        channels: 1,
+      });
+      expect(pcm(frameProcessor.parseChunk({ audioData: pcmBase64(640) })[0]).length).toBe(640);
+    });
+
+    test('should return a single frame when the frame interval is zero', () => {
+      const zeroIntervalProcessor = new FrameProcessor(0);
+      const frames = zeroIntervalProcessor.parseChunk({ audioData: pcmBase64(1600) });
+
+      expect(frames).toHaveLength(1);
+      expect(frames[0].duration).toBe(50);
+    });
+  });
+
   describe('Error Handling', () => {
     test('should handle null/undefined audio data gracefully', () => {
       const invalidPayloads = [
@@ -0,0 +1,163 @@
+import { FrameRingBuffer } from '../src/audio/FrameRingBuffer';
+import { encodeBase64 } from '../src/audio/Base64';
+import { IAudioFrame } from '../src/types';
+
+describe('FrameRingBuffer', () => {
+  let ring: FrameRingBuffer;
+
+  // Each frame's bytes are its sequence number, so order is visible in the PCM
+  const frame = (sequenceNumber: number, byteLength: number = 640, duration: number = 20): IAudioFrame => ({
+    sequenceNumber,
+    data: {
+      audioData: new Uint8Array(byteLength).fill(sequenceNumber),
+      isFinal: false,
+    },
+    duration,
+    timestamp: 1000 + sequenceNumber,
+  });
+
+  beforeEach(() => {
+    ring = new FrameRingBuffer();
+  });
+
+  test('should start empty', () => {
+    expect(ring.length).toBe(0);
+    expect(ring.durationMs).toBe(0);
+    expect(ring.byteLength).toBe(0);
+    expect(ring.shift()).toBeUndefined();
+    expect(ring.drop()).toBe(false);
+  });
+
+  test('should return frames in order with their metadata', () => {
+    ring.push(frame(1));
+    ring.push(frame(2));
+
+    expect(ring.length).toBe(2);
+    expect(ring.durationMs).toBe(40);
+    expect(ring.byteLength).toBe(1280);
+    expect(ring.shift()).toEqual(frame(1));
+    expect(ring.shift()).toEqual(frame(2));
+    expect(ring.length).toBe(0);
+  });
+
+  test('should store base64 frames as PCM', () => {
+    ring.push({ ...frame(1), data: { audioData: encodeBase64(new Uint8Array(640).fill(1)) } });
+
+    expect(ring.byteLength).toBe(640);
+    expect(ring.shift()?.data.audioData).toEqual(new Uint8Array(640).fill(1));
+  });
+
+  test('should copy PCM in and out of the ring', () => {
+    const pushed = frame(1);
+    ring.push(pushed);
+    (pushed.data.audioData as Uint8Array).fill(9);
+
+    // Clearing rewinds the ring, so the next frame overwrites the same bytes
+    const shifted = ring.shift()!;
+    ring.clear();
+    ring.push(frame(2));
+
+    expect(shifted.data.audioData).toEqual(new Uint8Array(640).fill(1));
+  });
+
+  test('should keep running totals as frames come and go', () => {
+    ring.push(frame(1, 640, 20));
+    ring.push(frame(2, 320, 10));
+    ring.drop();
+
+    expect(ring.durationMs).toBe(10);
+    expect(ring.byteLength).toBe(320);
+  });
+
+  test('should not accumulate rounding error once empty', () => {
+    for (let i = 0; i < 10; i++) {
+      ring.push(frame(i, 640, 0.1));
+    }
+    for (let i = 0; i < 10; i++) {
+      ring.drop();
+    }
+
+    expect(ring.durationMs).toBe(0);
+  });
+
+  test('should wrap around the byte ring', () => {
+    // 10000-byte frames wrap the initial 16384-byte ring on the second push
+    ring.push(frame(1, 10000));
+    ring.shift();
+    ring.push(frame(2, 10000));
+    ring.push(frame(3, 5000));
+
+    expect(ring.shift()).toEqual(frame(2, 10000));
+    expect(ring.shift()).toEqual(frame(3, 5000));
+  });
+
+  test('should grow past its initial capacity, unwrapping stored frames', () => {
+    ring.push(frame(1, 10000));
+    ring.shift();
+    ring.push(frame(2, 10000));
+    for (let i = 3; i < 60; i++) {
+      ring.push(frame(i, 1000));
+    }
+
+    expect(ring.length).toBe(58);
+    expect(ring.shift()).toEqual(frame(2, 10000));
+    for (let i = 3; i < 60; i++) {
+      expect(ring.shift()).toEqual(frame(i, 1000));
+    }
+  });
+
+  test('should grow by more than double for a large frame', () => {
+    ring.push(frame(1, 100000));
+
+    expect(ring.shift()).toEqual(frame(1, 100000));
+  });
+
+  test('should evict the oldest frames past the byte cap', () => {
+    ring = new FrameRingBuffer(2000);
+    ring.push(frame(1));
+    ring.push(frame(2));
+    ring.push(frame(3));
+
+    expect(ring.push(frame(4))).toBe(1);
+    expect(ring.byteLength).toBe(1920);
+    expect(ring.shift()?.sequenceNumber).toBe(2);
+  });
+
+  test('should evict the oldest frames past the duration cap', () => {
+    ring = new FrameRingBuffer(0, 50);
+    ring.push(frame(1));
+    ring.push(frame(2));
+
+    expect(ring.push(frame(3))).toBe(1);
+    expect(ring.durationMs).toBe(40);
+  });
+
+  test('should keep a single frame larger than the cap', () => {
+    ring = new FrameRingBuffer(100);
+    ring.push(frame(1));
+
+    expect(ring.push(frame(2))).toBe(1);
+    expect(ring.length).toBe(1);
+  });
+
+  test('should evict when the caps are lowered', () => {
+    ring.push(frame(1));
+    ring.push(frame(2));
+    ring.push(frame(3));
+
+    expect(ring.setLimits(0, 40)).toBe(1);
+    expect(ring.setLimits(0, 0)).toBe(0);
+    expect(ring.durationMs).toBe(40);
+  });
+
+  test('should clear', () => {
+    ring.push(frame(1));
+    ring.push(frame(2));
+
+    ring.clear();
+    ring.push(frame(3));
+
+    expect(ring.length).toBe(1);
+    expect(ring.shift()).toEqual(frame(3));
+  });
+});
@@ -0,0 +1,134 @@
+import { HealthHistory } from '../src/audio/HealthHistory';
+import { IBufferHealthMetrics } from '../src/types';
+
+describe('HealthHistory', () => {
+  let history: HealthHistory;
+
+  const metrics = (overrides: Partial<IBufferHealthMetrics> = {}) =>
+    ({
+      currentBufferMs: 0,
+      underrunCount: 0,
+      overrunCount: 0,
+      concealedMs: 0,
+      droppedMs: 0,
+      packetsLost: 0,
+      chunksRejected: 0,
+      ...overrides,
+    }) as IBufferHealthMetrics;
+
+  beforeEach(() => {
+    history = new HealthHistory(3);
+    history.start(1000);
+  });
+
+  test('should keep the most recent snapshots and transitions', () => {
+    for (let i = 0; i < 5; i++) {
+      history.recordSnapshot(1000 + i * 100, metrics({ currentBufferMs: i }));
+      history.recordTransition(1000 + i * 100, 'healthy', 'degraded');
+    }
+
+    const { snapshots, transitions } = history.getHistory();
+    expect(snapshots.map((snapshot) => snapshot.metrics.currentBufferMs)).toEqual([2, 3, 4]);
+    expect(transitions).toHaveLength(3);
+    expect(transitions[0]).toEqual({ time: 1200, previousState: 'healthy', state: 'degraded' });
+  });
+
+  test('should trim when the limit is lowered', () => {
+    history.recordSnapshot(1000, metrics());
+    history.recordSnapshot(1100, metrics());
+    history.recordTransition(1100, 'idle', 'healthy');
+
+    history.setMaxEntries(1);
+
+    expect(history.getHistory().snapshots).toEqual([{ time: 1100, metrics: metrics() }]);
+    expect(history.getHistory().transitions).toHaveLength(1);
+  });
+
+  test('should weight the buffer level by time', () => {
+    history.recordBufferLevel(1000, 100, 400);
+    history.recordBufferLevel(1300, 200, 400);
+
+    const summary = history.getSummary(1400, 'turn', metrics());
+    expect(summary.averageBufferMs).toBe(125);
+    expect(summary.peakBufferMs).toBe(200);
+    expect(summary.durationMs).toBe(400);
+  });
+
+  test('should report the current level for a session with no duration', () => {
+    history.recordBufferLevel(1000, 80, 400);
+
+    expect(history.getSummary(1000, null, metrics()).averageBufferMs).toBe(80);
+  });
+
+  test('should time overruns while the level is above the maximum', () => {
+    history.recordBufferLevel(1000, 500, 400);
+    history.recordBufferLevel(1200, 300, 400);
+    history.recordBufferLevel(1300, 450, 400);
+
+    expect(history.getSummary(1350, null, metrics()).overrunDurationMs).toBe(250);
+  });
+
+  test('should time underruns until real audio resumes', () => {
+    history.recordPlayed(1000, 20);
+    history.recordUnderrun(1020);
+    history.recordUnderrun(1040);
+    history.recordPlayed(1100, 20);
+    history.recordUnderrun(1200);
+
+    const summary = history.getSummary(1250, null, metrics());
+    expect(summary.underrunDurationMs).toBe(130);
+    expect(summary.playedMs).toBe(40);
+  });
+
+  test('should take counters from the metrics', () => {
+    const summary = history.getSummary(
+      1000,
+      'turn',
+      metrics({
+        underrunCount: 2,
+        overrunCount: 1,
+        concealedMs: 40,
+        droppedMs: 60,
+        rebufferCount: 1,
+        rebufferDurationMs: 120,
+        packetsLost: 3,
+        chunksRejected: 4,
+      })
+    );
+
+    expect(summary).toEqual({
+      turnId: 'turn',
+      startTime: 1000,
+      durationMs: 0,
+      playedMs: 0,
+      concealedMs: 40,
+      droppedMs: 60,
+      underrunCount: 2,
+      underrunDurationMs: 0,
+      overrunCount: 1,
+      overrunDurationMs: 0,
+      rebufferCount: 1,
+      rebufferDurationMs: 120,
+      averageBufferMs: 0,
+      peakBufferMs: 0,
+      packetsLost: 3,
+      chunksRejected: 4,
+    });
+  });
+
+  test('should start over for a new session', () => {
+    history.recordSnapshot(1000, metrics());
+    history.recordBufferLevel(1000, 500, 400);
+    history.recordPlayed(1100, 20);
+
+    history.start(2000);
+
+    expect(history.getHistory()).toEqual({ snapshots: [], transitions: [] });
+    expect(history.getSummary(2000, null, metrics())).toMatchObject({
+      startTime: 2000,
+      playedMs: 0,
+      peakBufferMs: 0,
+      overrunDurationMs: 0,
+    });
+  });
+});
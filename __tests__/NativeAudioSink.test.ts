@@ -0,0 +1,60 @@
+import { NativeAudioSink } from '../src/audio/NativeAudioSink';
+import ExpoPlayAudioStreamModule from '../src/ExpoPlayAudioStreamModule';
+import { addSoundChunkPlayedListener, subscribeToEvent } from '../src/events';
+
+jest.mock('../src/ExpoPlayAudioStreamModule', () => ({
+  playSound: jest.fn(),
+}));
+
+jest.mock('../src/events', () => ({
+  AudioEvents: { SoundStarted: 'SoundStarted' },
+  addSoundChunkPlayedListener: jest.fn(() => ({ remove: jest.fn() })),
+  subscribeToEvent: jest.fn(() => ({ remove: jest.fn() })),
+}));
+
+describe('NativeAudioSink', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should play through the native module', async () => {
+    const playSound = ExpoPlayAudioStreamModule.playSound as jest.Mock;
+    playSound.mockResolvedValue(undefined);
+
+    await NativeAudioSink.play('AAAA', 'turn-1-frame-0', 'pcm_s16le');
+
+    expect(playSound).toHaveBeenCalledWith('AAAA', 'turn-1-frame-0', 'pcm_s16le');
+  });
+
+  test('should surface native play failures as rejections', async () => {
+    (ExpoPlayAudioStreamModule.playSound as jest.Mock).mockImplementation(() => {
+      throw new Error('native failure');
+    });
+
+    await expect(
+      NativeAudioSink.play('AAAA', 'turn-1-frame-0', 'pcm_s16le')
+    ).rejects.toThrow('native failure');
+  });
+
+  test('should relay SoundChunkPlayed events', async () => {
+    const listener = jest.fn();
+    const subscription = NativeAudioSink.addChunkPlayedListener(listener);
+
+    const handler = (addSoundChunkPlayedListener as jest.Mock).mock.calls[0][0];
+    await handler({ isFinal: true });
+
+    expect(listener).toHaveBeenCalledWith(true);
+    expect(subscription.remove).toBeDefined();
+  });
+
+  test('should relay SoundStarted events', async () => {
+    const listener = jest.fn();
+    NativeAudioSink.addStartedListener(listener);
+
+    const [eventName, handler] = (subscribeToEvent as jest.Mock).mock.calls[0];
+    await handler(undefined);
+
+    expect(eventName).toBe('SoundStarted');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,230 @@
+import {
+  CompositeConditionsProvider,
+  ConnectionTypeConditionsProvider,
+  DefaultConnectionProfiles,
+  PingPongConditionsProvider,
+} from '../src/audio/NetworkConditionsProvider';
+import { VirtualClock } from '../src/audio/Clock';
+import { IConnectionInfo } from '../src/types';
+
+describe('PingPongConditionsProvider', () => {
+  let clock: VirtualClock;
+  let provider: PingPongConditionsProvider;
+
+  const roundTrip = (pingId: number, roundTripMs: number): void => {
+    provider.pingSent(pingId);
+    clock.advance(roundTripMs);
+    provider.pongReceived(pingId);
+  };
+
+  beforeEach(() => {
+    clock = new VirtualClock();
+    provider = new PingPongConditionsProvider(1000, clock);
+  });
+
+  test('should report nothing before any pong', () => {
+    provider.pingSent(1);
+
+    expect(provider.getConditions()).toEqual({});
+  });
+
+  test('should report the first round trip as latency', () => {
+    const listener = jest.fn();
+    provider.addListener(listener);
+
+    roundTrip(1, 80);
+
+    expect(provider.getConditions()).toEqual({ latency: 80, jitter: 40, packetLoss: 0 });
+    expect(listener).toHaveBeenCalledWith({ latency: 80, jitter: 40, packetLoss: 0 });
+  });
+
+  test('should smooth later round trips', () => {
+    roundTrip(1, 80);
+    roundTrip(2, 160);
+
+    // RTTVAR = 3/4 * 40 + 1/4 * 80, SRTT = 7/8 * 80 + 1/8 * 160
+    expect(provider.getConditions()).toEqual({ latency: 90, jitter: 50, packetLoss: 0 });
+  });
+
+  test('should count pings past the timeout as lost', () => {
+    const listener = jest.fn();
+    roundTrip(1, 50);
+    provider.pingSent(2);
+    clock.advance(1000);
+    provider.addListener(listener);
+
+    provider.pongReceived(2);
+
+    expect(provider.getConditions().packetLoss).toBe(50);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ packetLoss: 50 }));
+  });
+
+  test('should ignore pongs for unknown pings', () => {
+    const listener = jest.fn();
+    provider.addListener(listener);
+
+    provider.pongReceived('unknown');
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(provider.getConditions()).toEqual({});
+  });
+
+  test('should measure loss over recent pings only', () => {
+    provider.pingSent(0);
+    clock.advance(1000);
+    for (let i = 1; i <= 20; i++) {
+      roundTrip(i, 10);
+    }
+
+    expect(provider.getConditions().packetLoss).toBe(0);
+  });
+
+  test('should reset', () => {
+    roundTrip(1, 80);
+    provider.pingSent(2);
+
+    provider.reset();
+    provider.pongReceived(2);
+
+    expect(provider.getConditions()).toEqual({});
+  });
+
+  test('should default to the system clock', () => {
+    const defaultProvider = new PingPongConditionsProvider();
+    defaultProvider.pingSent(1);
+    defaultProvider.pongReceived(1);
+
+    expect(defaultProvider.getConditions().packetLoss).toBe(0);
+  });
+});
+
+describe('ConnectionTypeConditionsProvider', () => {
+  let emit: (info: IConnectionInfo) => void;
+  const unsubscribe = jest.fn();
+  const source = jest.fn((listener: (info: IConnectionInfo) => void) => {
+    emit = listener;
+    return unsubscribe;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should give no hint before the source reports', () => {
+    const provider = new ConnectionTypeConditionsProvider(source);
+
+    expect(provider.getConditions()).toEqual({});
+  });
+
+  test('should map the connection type to its profile', () => {
+    const provider = new ConnectionTypeConditionsProvider(source);
+    const listener = jest.fn();
+    provider.addListener(listener);
+
+    emit({ type: 'wifi', details: null });
+
+    expect(provider.getConditions()).toEqual(DefaultConnectionProfiles.wifi);
+    expect(listener).toHaveBeenCalledWith(DefaultConnectionProfiles.wifi);
+  });
+
+  test('should prefer the cellular generation when known', () => {
+    const provider = new ConnectionTypeConditionsProvider(source);
+
+    emit({ type: 'cellular', details: { cellularGeneration: '3g' } });
+    expect(provider.getConditions()).toEqual(DefaultConnectionProfiles['3g']);
+
+    emit({ type: 'cellular', details: { cellularGeneration: null } });
+    expect(provider.getConditions()).toEqual(DefaultConnectionProfiles.cellular);
+
+    emit({ type: 'cellular', details: { cellularGeneration: '6g' } });
+    expect(provider.getConditions()).toEqual(DefaultConnectionProfiles.cellular);
+  });
+
+  test('should treat metered connections as no better than the expensive profile', () => {
+    const provider = new ConnectionTypeConditionsProvider(source);
+
+    emit({ type: 'wifi', details: { isConnectionExpensive: true } });
+
+    expect(provider.getConditions()).toEqual(DefaultConnectionProfiles.expensive);
+  });
+
+  test('should give no hint for unknown types', () => {
+    const provider = new ConnectionTypeConditionsProvider(source);
+
+    emit({ type: 'unknown' });
+
+    expect(provider.getConditions()).toEqual({});
+  });
+
+  test('should accept custom profiles', () => {
+    const provider = new ConnectionTypeConditionsProvider(source, {
+      wifi: { latency: 30 },
+      expensive: { latency: 200, bandwidth: 500 },
+    });
+
+    emit({ type: 'wifi', details: { isConnectionExpensive: true } });
+
+    expect(provider.getConditions()).toEqual({ latency: 200, bandwidth: 500 });
+  });
+
+  test('should unsubscribe from the source on destroy', () => {
+    const provider = new ConnectionTypeConditionsProvider(source);
+    const listener = jest.fn();
+    provider.addListener(listener);
+
+    provider.destroy();
+    emit({ type: 'wifi' });
+
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe('CompositeConditionsProvider', () => {
+  let clock: VirtualClock;
+  let ping: PingPongConditionsProvider;
+  let connection: ConnectionTypeConditionsProvider;
+  let emit: (info: IConnectionInfo) => void;
+
+  beforeEach(() => {
+    clock = new VirtualClock();
+    ping = new PingPongConditionsProvider(1000, clock);
+    connection = new ConnectionTypeConditionsProvider((listener) => {
+      emit = listener;
+      return jest.fn();
+    });
+  });
+
+  test('should let later providers override earlier ones', () => {
+    const composite = new CompositeConditionsProvider([connection, ping]);
+    emit({ type: 'wifi' });
+    expect(composite.getConditions()).toEqual(DefaultConnectionProfiles.wifi);
+
+    ping.pingSent(1);
+    clock.advance(200);
+    ping.pongReceived(1);
+
+    expect(composite.getConditions()).toEqual({ latency: 200, jitter: 100, packetLoss: 0 });
+  });
+
+  test('should notify with the merged conditions when any provider changes', () => {
+    const composite = new CompositeConditionsProvider([connection, ping]);
+    const listener = jest.fn();
+    composite.addListener(listener);
+
+    emit({ type: 'ethernet' });
+
+    expect(listener).toHaveBeenCalledWith(DefaultConnectionProfiles.ethernet);
+  });
+
+  test('should stop listening on destroy', () => {
+    const composite = new CompositeConditionsProvider([connection]);
+    const listener = jest.fn();
+    composite.addListener(listener);
+
+    composite.destroy();
+    emit({ type: 'wifi' });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,167 @@
+import { PacketReorderBuffer } from '../src/audio/PacketReorderBuffer';
+import { IAudioPlayPayload } from '../src/types';
+
+describe('PacketReorderBuffer', () => {
+  let reorderBuffer: PacketReorderBuffer;
+
+  const packet = (sequenceNumber?: number): IAudioPlayPayload => ({
+    audioData: `chunk-${sequenceNumber}`,
+    sequenceNumber,
+  });
+
+  const sequenceOf = (payloads: IAudioPlayPayload[]): Array<number | undefined> =>
+    payloads.map((payload) => payload.sequenceNumber);
+
+  beforeEach(() => {
+    reorderBuffer = new PacketReorderBuffer(3);
+  });
+
+  describe('In-Order Delivery', () => {
+    test('should pass through payloads without sequence numbers', () => {
+      const payload = { audioData: 'unsequenced' };
+      expect(reorderBuffer.push(payload)).toEqual([payload]);
+    });
+
+    test('should release consecutive payloads immediately', () => {
+      expect(sequenceOf(reorderBuffer.push(packet(10)))).toEqual([10]);
+      expect(sequenceOf(reorderBuffer.push(packet(11)))).toEqual([11]);
+      expect(reorderBuffer.getStats()).toEqual({
+        packetsLost: 0,
+        packetsReordered: 0,
+        packetsLate: 0,
+        duplicates: 0,
+      });
+    });
+
+    test('should use the default window when none is given', () => {
+      const defaultBuffer = new PacketReorderBuffer();
+      defaultBuffer.push(packet(0));
+      for (let i = 2; i <= 9; i++) {
+        expect(defaultBuffer.push(packet(i))).toEqual([]);
+      }
+      expect(sequenceOf(defaultBuffer.push(packet(10)))).toEqual([2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    });
+  });
+
+  describe('Reordering', () => {
+    test('should hold early payloads until the gap fills', () => {
+      reorderBuffer.push(packet(0));
+
+      expect(reorderBuffer.push(packet(2))).toEqual([]);
+      expect(sequenceOf(reorderBuffer.push(packet(1)))).toEqual([1, 2]);
+      expect(reorderBuffer.getStats().packetsReordered).toBe(1);
+      expect(reorderBuffer.getStats().packetsLost).toBe(0);
+    });
+
+    test('should count every payload arriving after a later one', () => {
+      reorderBuffer.push(packet(0));
+      reorderBuffer.push(packet(3));
+      reorderBuffer.push(packet(2));
+      const released = reorderBuffer.push(packet(1));
+
+      expect(sequenceOf(released)).toEqual([1, 2, 3]);
+      expect(reorderBuffer.getStats().packetsReordered).toBe(2);
+    });
+  });
+
+  describe('Loss Detection', () => {
+    test('should skip a gap once the window overflows', () => {
+      reorderBuffer.push(packet(0));
+      reorderBuffer.push(packet(2));
+      reorderBuffer.push(packet(3));
+      reorderBuffer.push(packet(4));
+      const released = reorderBuffer.push(packet(5));
+
+      expect(sequenceOf(released)).toEqual([2, 3, 4, 5]);
+      expect(reorderBuffer.getStats().packetsLost).toBe(1);
+    });
+
+    test('should drop payloads arriving after their slot was skipped', () => {
+      reorderBuffer.push(packet(0));
+      [2, 3, 4, 5].forEach((sequenceNumber) => reorderBuffer.push(packet(sequenceNumber)));
+
+      expect(reorderBuffer.push(packet(1))).toEqual([]);
+      expect(reorderBuffer.getStats()).toEqual({
+        packetsLost: 1,
+        packetsReordered: 0,
+        packetsLate: 1,
+        duplicates: 0,
+      });
+    });
+
+    test('should count payloads before the first sequence number as late', () => {
+      reorderBuffer.push(packet(5));
+
+      expect(reorderBuffer.push(packet(3))).toEqual([]);
+      expect(reorderBuffer.getStats()).toEqual({
+        packetsLost: 0,
+        packetsReordered: 0,
+        packetsLate: 1,
+        duplicates: 0,
+      });
+    });
+
+    test('should flush held payloads and count remaining gaps', () => {
+      reorderBuffer.push(packet(0));
+      reorderBuffer.push(packet(3));
+      reorderBuffer.push(packet(5));
+
+      expect(sequenceOf(reorderBuffer.flush())).toEqual([3, 5]);
+      expect(reorderBuffer.getStats().packetsLost).toBe(3);
+      expect(reorderBuffer.flush()).toEqual([]);
+    });
+
+    test('should release immediately with a zero window', () => {
+      reorderBuffer.setWindowSize(0);
+      reorderBuffer.push(packet(0));
+
+      expect(sequenceOf(reorderBuffer.push(packet(2)))).toEqual([2]);
+      expect(reorderBuffer.getStats().packetsLost).toBe(1);
+    });
+  });
+
+  describe('Duplicates', () => {
+    test('should drop duplicates of delivered payloads', () => {
+      reorderBuffer.push(packet(0));
+      expect(reorderBuffer.push(packet(0))).toEqual([]);
+      expect(reorderBuffer.getStats().duplicates).toBe(1);
+    });
+
+    test('should drop duplicates of held payloads', () => {
+      reorderBuffer.push(packet(0));
+      reorderBuffer.push(packet(2));
+      expect(reorderBuffer.push(packet(2))).toEqual([]);
+      expect(reorderBuffer.getStats().duplicates).toBe(1);
+    });
+
+    test('should bound the duplicate history', () => {
+      for (let i = 0; i < 100; i++) {
+        reorderBuffer.push(packet(i));
+      }
+
+      // Too old to be recognised as a duplicate, so it is treated as late
+      expect(reorderBuffer.push(packet(0))).toEqual([]);
+      expect(reorderBuffer.getStats().duplicates).toBe(0);
+      expect(reorderBuffer.push(packet(99))).toEqual([]);
+      expect(reorderBuffer.getStats().duplicates).toBe(1);
+    });
+  });
+
+  describe('Reset', () => {
+    test('should clear sequence state and counters', () => {
+      reorderBuffer.push(packet(0));
+      reorderBuffer.push(packet(0));
+      reorderBuffer.push(packet(2));
+
+      reorderBuffer.reset();
+
+      expect(reorderBuffer.getStats()).toEqual({
+        packetsLost: 0,
+        packetsReordered: 0,
+        packetsLate: 0,
+        duplicates: 0,
+      });
+      expect(sequenceOf(reorderBuffer.push(packet(0)))).toEqual([0]);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { PlaybackTracker } from '../src/audio/PlaybackTracker';
+import { VirtualClock } from '../src/audio/Clock';
+import { IAudioFrame } from '../src/types';
+
+const frame = (sequenceNumber: number, duration: number = 20): IAudioFrame => ({
+  sequenceNumber,
+  data: { audioData: '' },
+  duration,
+  timestamp: 0,
+});
+
+describe('PlaybackTracker', () => {
+  let clock: VirtualClock;
+  let tracker: PlaybackTracker;
+
+  beforeEach(() => {
+    clock = new VirtualClock();
+    tracker = new PlaybackTracker(clock);
+  });
+
+  test('should report nothing queued initially', () => {
+    expect(tracker.getQueuedMs()).toBe(0);
+    expect(tracker.getInFlightFrames()).toEqual([]);
+  });
+
+  test('should drain queued audio in real time', () => {
+    tracker.onFrameQueued(frame(0));
+    tracker.onFrameQueued(frame(1));
+    tracker.onFrameQueued(frame(2));
+    expect(tracker.getQueuedMs()).toBe(60);
+
+    clock.advance(25);
+    expect(tracker.getQueuedMs()).toBe(35);
+    expect(tracker.getInFlightFrames().map((f) => f.sequenceNumber)).toEqual([1, 2]);
+
+    clock.advance(100);
+    expect(tracker.getQueuedMs()).toBe(0);
+  });
+
+  test('should start frames queued after a gap from the time they are queued', () => {
+    tracker.onFrameQueued(frame(0));
+    clock.advance(100);
+    tracker.onFrameQueued(frame(1));
+
+    expect(tracker.getQueuedMs()).toBe(20);
+  });
+
+  test('should restart the drain when native playback starts', () => {
+    tracker.onFrameQueued(frame(0));
+    tracker.onFrameQueued(frame(1));
+    clock.advance(15);
+
+    tracker.onStarted();
+
+    expect(tracker.getQueuedMs()).toBe(40);
+  });
+
+  test('should retire chunks as native reports them played', () => {
+    tracker.onFrameQueued(frame(0));
+    tracker.onFrameQueued(frame(1));
+    clock.advance(5);
+
+    // Native ran ahead of the estimate
+    tracker.onChunkPlayed(false);
+
+    expect(tracker.getInFlightFrames().map((f) => f.sequenceNumber)).toEqual([1]);
+    expect(tracker.getQueuedMs()).toBe(20);
+  });
+
+  test('should not retire a chunk twice when native lags the estimate', () => {
+    tracker.onFrameQueued(frame(0));
+    tracker.onFrameQueued(frame(1));
+    clock.advance(25);
+
+    // The clock already retired frame 0; its late event resyncs frame 1
+    tracker.onChunkPlayed(false);
+
+    expect(tracker.getInFlightFrames().map((f) => f.sequenceNumber)).toEqual([1]);
+    expect(tracker.getQueuedMs()).toBe(20);
+  });
+
+  test('should clear everything when native reports its queue empty', () => {
+    tracker.onFrameQueued(frame(0));
+    tracker.onFrameQueued(frame(1));
+    clock.advance(30);
+
+    tracker.onChunkPlayed(true);
+    tracker.onFrameQueued(frame(2));
+    tracker.onChunkPlayed(false);
+
+    expect(tracker.getQueuedMs()).toBe(0);
+  });
+
+  test('should ignore chunk events with nothing in flight', () => {
+    tracker.onChunkPlayed(false);
+    expect(tracker.getQueuedMs()).toBe(0);
+  });
+
+  test('should reset', () => {
+    tracker.onFrameQueued(frame(0));
+    tracker.reset();
+
+    expect(tracker.getQueuedMs()).toBe(0);
+    expect(tracker.getInFlightFrames()).toEqual([]);
+  });
+});
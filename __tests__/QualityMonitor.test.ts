@@ -54,6 +54,17 @@ describe('QualityMonitor', () => {
       expect(metrics.averageJitter).toBeGreaterThan(0);
     });
 
+    test('should measure jitter from a first arrival at time zero', () => {
+      const monitor = new QualityMonitor(frameIntervalMs, 5000, { now: () => 100 });
+      monitor.recordFrameArrival(0);
+      monitor.recordFrameArrival(80);
+      monitor.recordFrameArrival(100);
+
+      const metrics = monitor.getMetrics();
+      expect(metrics.averageJitter).toBeGreaterThan(0);
+      expect(metrics.jitterP95).toBe(60);
+    });
+
     test('should apply exponential moving average to jitter', () => {
       const baseTime = Date.now();
       let timestamp = baseTime;
@@ -85,6 +96,88 @@ describe('QualityMonitor', () => {
     });
   });
 
+  describe('Sender-Timestamped Jitter', () => {
+    test('should report no jitter when arrivals track send times', () => {
+      const baseTime = Date.now();
+      // Chunks of varying length sent and received with the same spacing
+      [0, 40, 50, 110].forEach((sent) => {
+        qualityMonitor.recordFrameArrival(baseTime + sent, sent);
+      });
+
+      const metrics = qualityMonitor.getMetrics();
+      expect(metrics.averageJitter).toBe(0);
+      expect(metrics.interarrivalJitter).toBe(0);
+      expect(metrics.jitterP95).toBe(0);
+      expect(metrics.delayP95).toBe(0);
+    });
+
+    test('should estimate interarrival jitter as in RFC 3550', () => {
+      const baseTime = Date.now();
+      qualityMonitor.recordFrameArrival(baseTime, 0);
+      qualityMonitor.recordFrameArrival(baseTime + 36, 20);
+
+      // J = 0 + (|36 - 20| - 0) / 16
+      expect(qualityMonitor.getMetrics().interarrivalJitter).toBe(1);
+    });
+
+    test('should report jitter and delay percentiles', () => {
+      const baseTime = Date.now();
+      for (let i = 0; i < 100; i++) {
+        // Every tenth chunk is delayed by 30ms
+        const delay = i % 10 === 9 ? 30 : 0;
+        qualityMonitor.recordFrameArrival(baseTime - 3000 + i * 20 + delay, i * 20);
+      }
+
+      const metrics = qualityMonitor.getMetrics();
+      expect(metrics.delayP50).toBe(0);
+      expect(metrics.delayP95).toBe(30);
+      expect(metrics.delayP99).toBe(30);
+      expect(metrics.jitterP50).toBe(0);
+      expect(metrics.jitterP95).toBe(30);
+      expect(metrics.jitterP99).toBe(30);
+    });
+
+    test('should only use samples inside the event window', () => {
+      const windowedMonitor = new QualityMonitor(frameIntervalMs, 1000);
+      const now = Date.now();
+      windowedMonitor.recordFrameArrival(now - 5000, 0);
+      windowedMonitor.recordFrameArrival(now - 4900 + 50, 100);
+      windowedMonitor.recordFrameArrival(now - 100, 4900);
+      windowedMonitor.recordFrameArrival(now - 80, 4920);
+      windowedMonitor.recordFrameArrival(now - 60, 4940);
+
+      // The delayed chunk at 100ms has left the window
+      const metrics = windowedMonitor.getMetrics();
+      expect(metrics.jitterP50).toBe(0);
+      expect(metrics.delayP99).toBe(0);
+    });
+
+    test('should bound the number of stored samples', () => {
+      const baseTime = Date.now() - 2000;
+      for (let i = 0; i < 1500; i++) {
+        qualityMonitor.recordFrameArrival(baseTime + i, i);
+      }
+
+      expect(qualityMonitor.getMetrics().delayP99).toBe(0);
+    });
+
+    test('should recommend a larger buffer from tail jitter', () => {
+      const baseTime = Date.now() - 1000;
+      for (let i = 0; i < 20; i++) {
+        const delay = i % 4 === 3 ? 40 : 0;
+        qualityMonitor.recordFrameArrival(baseTime + i * 20 + delay, i * 20);
+      }
+
+      expect(qualityMonitor.getRecommendedAdjustment()).toBe(20);
+    });
+
+    test('should report zero percentiles without arrivals', () => {
+      const metrics = qualityMonitor.getMetrics();
+      expect(metrics.jitterP95).toBe(0);
+      expect(metrics.delayP95).toBe(0);
+    });
+  });
+
   describe('Event Recording', () => {
     test('should record underrun events', () => {
       qualityMonitor.recordUnderrun();
@@ -112,6 +205,44 @@ describe('QualityMonitor', () => {
       expect(metrics.underrunCount).toBe(2);
       expect(metrics.overrunCount).toBe(1);
     });
+
+    test('should accumulate concealed milliseconds', () => {
+      qualityMonitor.recordConcealment(20);
+      qualityMonitor.recordConcealment(20);
+
+      expect(qualityMonitor.getMetrics().concealedMs).toBe(40);
+
+      qualityMonitor.reset();
+      expect(qualityMonitor.getMetrics().concealedMs).toBe(0);
+    });
+
+    test('should accumulate dropped milliseconds', () => {
+      qualityMonitor.recordDroppedAudio(60);
+      qualityMonitor.recordDroppedAudio(20);
+
+      expect(qualityMonitor.getMetrics().droppedMs).toBe(80);
+
+      qualityMonitor.reset();
+      expect(qualityMonitor.getMetrics().droppedMs).toBe(0);
+    });
+
+    test('should count rebuffers and the time spent paused', () => {
+      qualityMonitor.recordRebuffer();
+      qualityMonitor.recordRebufferTime(120);
+      qualityMonitor.recordRebuffer();
+      qualityMonitor.recordRebufferTime(80);
+
+      expect(qualityMonitor.getMetrics()).toMatchObject({
+        rebufferCount: 2,
+        rebufferDurationMs: 200,
+      });
+
+      qualityMonitor.reset();
+      expect(qualityMonitor.getMetrics()).toMatchObject({
+        rebufferCount: 0,
+        rebufferDurationMs: 0,
+      });
+    });
   });
 
   describe('Buffer Level Tracking', () => {
@@ -162,7 +293,7 @@ describe('QualityMonitor', () => {
         qualityMonitor.recordUnderrun();
       }
       
-      // Add arrival history < 20 to make recent count = total count
+      // Arrivals inside the event window
       const baseTime = Date.now();
       for (let i = 0; i < 15; i++) {
         qualityMonitor.recordFrameArrival(baseTime + i * frameIntervalMs);
@@ -180,7 +311,7 @@ describe('QualityMonitor', () => {
         qualityMonitor.recordOverrun();
       }
       
-      // Add arrival history < 20 to make recent count = total count
+      // Arrivals inside the event window
       const baseTime = Date.now();
       for (let i = 0; i < 15; i++) {
         qualityMonitor.recordFrameArrival(baseTime + i * frameIntervalMs);
@@ -255,6 +386,108 @@ describe('QualityMonitor', () => {
     });
   });
 
+  describe('Sliding Event Window', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test('should recover from degraded once underruns leave the window', () => {
+      qualityMonitor.updateBufferLevel(100);
+      for (let i = 0; i < 5; i++) {
+        qualityMonitor.recordUnderrun();
+      }
+      expect(qualityMonitor.getBufferHealthState(true, 100)).toBe('degraded');
+
+      jest.advanceTimersByTime(5001);
+
+      expect(qualityMonitor.getBufferHealthState(true, 100)).toBe('healthy');
+      // Lifetime totals are still reported
+      expect(qualityMonitor.getMetrics().underrunCount).toBe(5);
+    });
+
+    test('should count overruns inside a configurable window', () => {
+      const shortWindowMonitor = new QualityMonitor(frameIntervalMs, 1000);
+      shortWindowMonitor.updateBufferLevel(100);
+      for (let i = 0; i < 4; i++) {
+        shortWindowMonitor.recordOverrun();
+      }
+      expect(shortWindowMonitor.getBufferHealthState(true, 100)).toBe('degraded');
+
+      jest.advanceTimersByTime(1001);
+      expect(shortWindowMonitor.getBufferHealthState(true, 100)).toBe('healthy');
+    });
+
+    test('should accept explicit event timestamps', () => {
+      const now = Date.now();
+      qualityMonitor.updateBufferLevel(100);
+      for (let i = 0; i < 5; i++) {
+        qualityMonitor.recordUnderrun(now - 10000);
+      }
+
+      expect(qualityMonitor.getBufferHealthState(true, 100)).toBe('healthy');
+    });
+
+    test('should drop expired events as new ones are recorded', () => {
+      qualityMonitor.updateBufferLevel(100);
+      for (let i = 0; i < 3; i++) {
+        qualityMonitor.recordUnderrun();
+      }
+
+      jest.advanceTimersByTime(6000);
+      qualityMonitor.recordUnderrun();
+      qualityMonitor.recordUnderrun();
+
+      expect(qualityMonitor.getBufferHealthState(true, 100)).toBe('healthy');
+      qualityMonitor.recordUnderrun();
+      expect(qualityMonitor.getBufferHealthState(true, 100)).toBe('degraded');
+    });
+
+    test('should apply a new window size', () => {
+      qualityMonitor.updateBufferLevel(100);
+      for (let i = 0; i < 5; i++) {
+        qualityMonitor.recordUnderrun();
+      }
+
+      jest.advanceTimersByTime(2000);
+      expect(qualityMonitor.getBufferHealthState(true, 100)).toBe('degraded');
+
+      qualityMonitor.setEventWindow(1000);
+      expect(qualityMonitor.getBufferHealthState(true, 100)).toBe('healthy');
+    });
+
+    test('should keep no samples with an empty window', () => {
+      const emptyWindowMonitor = new QualityMonitor(frameIntervalMs, 0);
+      const start = Date.now();
+
+      expect(() => {
+        emptyWindowMonitor.recordFrameArrival(start, 0);
+        emptyWindowMonitor.recordFrameArrival(start + 25, 20);
+      }).not.toThrow();
+      expect(emptyWindowMonitor.getMetrics()).toMatchObject({
+        jitterP95: 0,
+        delayP95: 0,
+      });
+    });
+
+    test('should only recommend adjustments from recent arrivals', () => {
+      const start = Date.now();
+      for (let i = 0; i < 20; i++) {
+        qualityMonitor.recordFrameArrival(start + i * frameIntervalMs);
+      }
+      qualityMonitor.recordUnderrun();
+      qualityMonitor.recordUnderrun();
+      expect(qualityMonitor.getRecommendedAdjustment()).not.toBe(0);
+
+      jest.advanceTimersByTime(10000);
+      expect(qualityMonitor.getRecommendedAdjustment()).toBe(0);
+    });
+  });
+
   describe('Adaptive Recommendations', () => {
     test('should return 0 adjustment for insufficient data', () => {
       const adjustment = qualityMonitor.getRecommendedAdjustment();
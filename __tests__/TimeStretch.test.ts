@@ -0,0 +1,82 @@
+import { timeStretch } from '../src/audio/TimeStretch';
+import { EncodingTypes, IAudioFormat } from '../src/types';
+
+describe('timeStretch', () => {
+  const format: IAudioFormat = {
+    sampleRate: 16000,
+    encoding: EncodingTypes.PCM_S16LE,
+    channels: 1,
+  };
+
+  const sine = (length: number, period: number): Float32Array =>
+    Float32Array.from({ length }, (_, i) => 0.5 * Math.sin((2 * Math.PI * i) / period));
+
+  const countZeroCrossings = (samples: Float32Array): number => {
+    let crossings = 0;
+    for (let i = 1; i < samples.length; i++) {
+      if (samples[i - 1] < 0 && samples[i] >= 0) {
+        crossings++;
+      }
+    }
+    return crossings;
+  };
+
+  test('should return the input when the rate does not change the length', () => {
+    const samples = sine(320, 80);
+    expect(timeStretch(samples, 1, format)).toBe(samples);
+  });
+
+  test('should return blocks shorter than two windows unchanged', () => {
+    const samples = sine(100, 20);
+    expect(timeStretch(samples, 1.1, format)).toBe(samples);
+  });
+
+  test('should shorten the block when speeding up', () => {
+    const output = timeStretch(sine(960, 80), 1.05, format);
+    expect(output.length).toBe(Math.round(960 / 1.05));
+  });
+
+  test('should lengthen the block when slowing down', () => {
+    const output = timeStretch(sine(960, 80), 0.95, format);
+    expect(output.length).toBe(Math.round(960 / 0.95));
+  });
+
+  test('should keep the pitch of a periodic signal', () => {
+    const period = 80;
+    const output = timeStretch(sine(3200, period), 1.25, format);
+
+    // Same period means proportionally fewer cycles in the shorter output
+    expect(countZeroCrossings(output)).toBeGreaterThanOrEqual(Math.floor(output.length / period) - 1);
+    expect(countZeroCrossings(output)).toBeLessThanOrEqual(Math.ceil(output.length / period) + 1);
+  });
+
+  test('should keep the block edges so consecutive blocks join cleanly', () => {
+    const samples = sine(640, 64);
+    const output = timeStretch(samples, 0.9, format);
+
+    expect(output[0]).toBeCloseTo(samples[0], 5);
+    expect(output[10]).toBeCloseTo(samples[10], 5);
+    expect(output[output.length - 1]).toBeCloseTo(samples[samples.length - 1], 5);
+  });
+
+  test('should stretch interleaved channels together', () => {
+    const mono = sine(960, 80);
+    const stereo = new Float32Array(mono.length * 2);
+    mono.forEach((sample, i) => {
+      stereo[i * 2] = sample;
+      stereo[i * 2 + 1] = -sample;
+    });
+
+    const output = timeStretch(stereo, 1.05, { ...format, channels: 2 });
+
+    expect(output.length).toBe(Math.round(960 / 1.05) * 2);
+    for (let i = 0; i < output.length; i += 2) {
+      expect(output[i + 1]).toBeCloseTo(-output[i], 5);
+    }
+  });
+
+  test('should handle silent input', () => {
+    const output = timeStretch(new Float32Array(960), 1.05, format);
+    expect(output.every((sample) => sample === 0)).toBe(true);
+  });
+});
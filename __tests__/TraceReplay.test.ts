@@ -0,0 +1,265 @@
+import {
+  SimulatedAudioSink,
+  replayTrace,
+  compareReplayConfigs,
+} from '../src/audio/TraceReplay';
+import { VirtualClock } from '../src/audio/Clock';
+import { DefaultAudioFormat } from '../src/audio/AudioFormat';
+import { encodeBase64 } from '../src/audio/Base64';
+import { INetworkTrace, ITraceArrival } from '../src/types';
+
+describe('TraceReplay', () => {
+  // 20ms of 16kHz s16 mono
+  const frameBytes = 640;
+
+  // A chunk every 20ms, optionally held back on the wire
+  const steadyTrace = (
+    count: number,
+    delayFor: (index: number) => number = () => 0
+  ): INetworkTrace => ({
+    arrivals: Array.from({ length: count }, (_, index): ITraceArrival => ({
+      arrivalTime: 1000 + index * 20 + delayFor(index),
+      byteLength: frameBytes,
+      sequenceNumber: index,
+    })),
+  });
+
+  describe('SimulatedAudioSink', () => {
+    let clock: VirtualClock;
+    let sink: SimulatedAudioSink;
+    const chunk = encodeBase64(new Uint8Array(frameBytes));
+
+    beforeEach(() => {
+      clock = new VirtualClock();
+      sink = new SimulatedAudioSink(clock, DefaultAudioFormat);
+    });
+
+    test('should play chunks back to back in real time', async () => {
+      const played = jest.fn();
+      sink.addChunkPlayedListener(played);
+
+      await sink.play(chunk);
+      await sink.play(chunk);
+      expect(sink.getQueuedMs()).toBe(40);
+
+      clock.advance(30);
+      expect(played).toHaveBeenCalledTimes(1);
+      expect(played).toHaveBeenCalledWith(false);
+      expect(sink.getQueuedMs()).toBe(10);
+
+      clock.advance(10);
+      expect(played).toHaveBeenCalledTimes(2);
+      expect(sink.getQueuedMs()).toBe(0);
+      expect(sink.getIdleSince()).toBe(40);
+    });
+
+    test('should report starts from idle and the gaps between them', async () => {
+      const started = jest.fn();
+      sink.addStartedListener(started);
+
+      // The wait before the first chunk is not a gap
+      clock.advance(100);
+      await sink.play(chunk);
+      await sink.play(chunk);
+      clock.advance(70);
+      await sink.play(chunk);
+
+      expect(started).toHaveBeenCalledTimes(2);
+      expect(sink.getGapMs()).toBe(30);
+      expect(sink.getIdleSince()).toBeNull();
+    });
+  });
+
+  describe('replayTrace', () => {
+    test('should play a steady trace without underruns', async () => {
+      const report = await replayTrace(steadyTrace(50), {
+        name: 'steady',
+      });
+
+      expect(report.name).toBe('steady');
+      expect(report.receivedMs).toBe(1000);
+      expect(report.underruns).toBe(0);
+      expect(report.concealedMs).toBe(0);
+      expect(report.droppedMs).toBe(0);
+      expect(report.gapMs).toBe(0);
+      expect(report.healthTimeline[0]).toEqual({ time: 1000, state: 'critical' });
+      expect(report.healthTimeline.map((change) => change.state)).toContain(
+        'healthy'
+      );
+      expect(report.healthTimeline.at(-1)?.state).toBe('idle');
+      expect(report.durationMs).toBeGreaterThanOrEqual(1000);
+    });
+
+    test('should count underruns and concealment when the network stalls', async () => {
+      // Everything from chunk 20 on arrives 400ms late
+      const trace = steadyTrace(40, (index) => (index >= 20 ? 400 : 0));
+
+      const report = await replayTrace(trace, {
+        bufferConfig: { targetBufferMs: 60, minBufferMs: 40, maxBufferMs: 120 },
+      });
+
+      expect(report.name).toBe('fixed');
+      expect(report.underruns).toBeGreaterThan(0);
+      expect(report.concealedMs).toBe(report.underruns * 20);
+    });
+
+    test('should report audio dropped by the storage caps', async () => {
+      // A one-second burst into a buffer capped at 200ms
+      const trace: INetworkTrace = {
+        arrivals: Array.from({ length: 50 }, (_, index) => ({
+          arrivalTime: 1000,
+          byteLength: frameBytes,
+          sequenceNumber: index,
+        })),
+      };
+
+      const report = await replayTrace(trace, {
+        bufferConfig: { maxStoredMs: 200 },
+      });
+
+      expect(report.droppedMs).toBeGreaterThan(0);
+      expect(report.receivedMs).toBe(1000);
+    });
+
+    test('should add network delay and queued audio to the latency estimate', async () => {
+      const trace = steadyTrace(20);
+      const delayed: INetworkTrace = {
+        arrivals: trace.arrivals.map((arrival) => ({
+          ...arrival,
+          sentAt: arrival.arrivalTime - 50,
+        })),
+      };
+
+      const local = await replayTrace(trace);
+      const remote = await replayTrace(delayed);
+
+      expect(local.latency.maxMs).toBeGreaterThan(0);
+      expect(remote.latency.meanMs).toBe(local.latency.meanMs + 50);
+      expect(remote.latency.p95Ms).toBeGreaterThanOrEqual(remote.latency.meanMs);
+      expect(remote.latency.maxMs).toBeGreaterThanOrEqual(remote.latency.p95Ms);
+    });
+
+    test('should replay arrivals in arrival order', async () => {
+      const ordered = await replayTrace(steadyTrace(20));
+      const shuffled = await replayTrace({
+        arrivals: [...steadyTrace(20).arrivals].reverse(),
+      });
+
+      expect(shuffled).toEqual(ordered);
+    });
+
+    test('should take the audio format from the trace', async () => {
+      const report = await replayTrace({
+        ...steadyTrace(10),
+        audioFormat: { sampleRate: 48000 },
+      });
+
+      expect(report.receivedMs).toBe(66.67);
+    });
+
+    test('should report an empty trace', async () => {
+      const report = await replayTrace({ arrivals: [] });
+
+      expect(report).toMatchObject({
+        name: 'fixed',
+        receivedMs: 0,
+        underruns: 0,
+        concealedMs: 0,
+        droppedMs: 0,
+        gapMs: 0,
+        latency: { meanMs: 0, p95Ms: 0, maxMs: 0 },
+      });
+      expect(report.healthTimeline.at(-1)?.state).toBe('idle');
+    });
+
+    test('should play directly through a smart buffer on a good network', async () => {
+      const trace = steadyTrace(20, (index) => (index === 10 ? 100 : 0));
+
+      const report = await replayTrace(trace, {
+        smartBuffer: { mode: 'conservative' },
+      });
+
+      expect(report.name).toBe('conservative');
+      expect(report.underruns).toBe(0);
+      expect(report.gapMs).toBeGreaterThan(0);
+      expect(report.healthTimeline).toEqual([{ time: 1000, state: 'idle' }]);
+    });
+
+    test('should buffer a smart replay in the trace audio format', async () => {
+      // 20ms of 48kHz s16 mono
+      const trace: INetworkTrace = {
+        arrivals: steadyTrace(60).arrivals.map((arrival) => ({
+          ...arrival,
+          byteLength: 1920,
+        })),
+        audioFormat: { sampleRate: 48000 },
+      };
+
+      const report = await replayTrace(trace, {
+        smartBuffer: { mode: 'aggressive', networkConditions: { latency: 300 } },
+      });
+
+      expect(report.receivedMs).toBe(1200);
+      expect(report.underruns).toBe(0);
+      expect(report.healthTimeline.map((change) => change.state)).toEqual([
+        'critical',
+        'healthy',
+        'idle',
+      ]);
+    });
+
+    test('should ride out a smart buffer stall on the pre-roll', async () => {
+      const trace = steadyTrace(60, (index) => (index >= 30 ? 300 : 0));
+
+      const report = await replayTrace(trace, {
+        smartBuffer: {
+          mode: 'adaptive',
+          networkConditions: { latency: 300, jitter: 120, packetLoss: 5 },
+        },
+      });
+
+      // Pre-roll fills the buffer to target first, which rides out the stall
+      expect(report.underruns).toBe(0);
+      expect(report.healthTimeline.map((change) => change.state)).toEqual([
+        'critical',
+        'healthy',
+        'degraded',
+        'healthy',
+        'idle',
+      ]);
+    });
+
+    test('should sum counters across smart buffer handoffs', async () => {
+      const trace = steadyTrace(60, (index) => (index >= 30 ? 600 : 0));
+
+      const report = await replayTrace(trace, {
+        smartBuffer: {
+          mode: 'adaptive',
+          networkConditions: { latency: 300, jitter: 120, packetLoss: 5 },
+        },
+      });
+
+      // Draining releases the buffer, so its counters are kept from before
+      expect(report.underruns).toBeGreaterThan(0);
+      expect(report.healthTimeline.map((change) => change.state)).toContain(
+        'degraded'
+      );
+      expect(report.healthTimeline.at(-1)?.state).toBe('idle');
+    });
+  });
+
+  describe('compareReplayConfigs', () => {
+    test('should report each config on the same trace, in order', async () => {
+      const trace = steadyTrace(40, (index) => (index % 10 === 5 ? 80 : 0));
+
+      const reports = await compareReplayConfigs(trace, [
+        { name: 'small', bufferConfig: { targetBufferMs: 40, minBufferMs: 20 } },
+        { name: 'large', bufferConfig: { targetBufferMs: 240 } },
+      ]);
+
+      expect(reports.map((report) => report.name)).toEqual(['small', 'large']);
+      expect(reports[0].latency.meanMs).toBeLessThan(reports[1].latency.meanMs);
+      expect(reports[0].receivedMs).toBe(reports[1].receivedMs);
+    });
+  });
+});
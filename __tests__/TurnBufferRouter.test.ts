@@ -0,0 +1,410 @@
+import { TurnBufferRouter } from '../src/audio/TurnBufferRouter';
+import { AudioBufferManager } from '../src/audio/BufferManagerCore';
+import { BufferManagerAdaptive } from '../src/audio/BufferManagerAdaptive';
+import { VirtualClock } from '../src/audio/Clock';
+import { encodeBase64 } from '../src/audio/Base64';
+import { EncodingTypes } from '../src/types';
+
+jest.mock('../src/ExpoPlayAudioStreamModule', () => ({
+  playSound: jest.fn(),
+}));
+
+describe('TurnBufferRouter', () => {
+  // 20ms of 16kHz s16 mono
+  const chunk = encodeBase64(new Uint8Array(640));
+  const directPlay = jest.fn().mockResolvedValue(undefined);
+
+  let clock: VirtualClock;
+  let sink: { play: jest.Mock; addChunkPlayedListener: jest.Mock; addStartedListener: jest.Mock };
+  let router: TurnBufferRouter;
+
+  const play = (turnId: string, count: number = 1): Promise<void[]> =>
+    Promise.all(
+      Array.from({ length: count }, () =>
+        router.play(chunk, turnId, EncodingTypes.PCM_S16LE, directPlay)
+      )
+    );
+
+  const playedTurns = (): string[] =>
+    sink.play.mock.calls.map(([, playbackId]) => playbackId.replace(/-frame-\d+$/, ''));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clock = new VirtualClock();
+    sink = {
+      play: jest.fn().mockResolvedValue(undefined),
+      addChunkPlayedListener: jest.fn(() => ({ remove: jest.fn() })),
+      addStartedListener: jest.fn(() => ({ remove: jest.fn() })),
+    };
+    router = new TurnBufferRouter(clock, sink);
+  });
+
+  afterEach(() => {
+    router.clearAll();
+  });
+
+  test('should be disabled until a sound config enables buffering', () => {
+    expect(router.isEnabled()).toBe(false);
+
+    router.configure({ enableBuffering: true });
+    expect(router.isEnabled()).toBe(true);
+
+    router.configure({ enableBuffering: true, useDefault: true });
+    expect(router.isEnabled()).toBe(false);
+
+    router.configure({ autoBuffer: true });
+    expect(router.isEnabled()).toBe(true);
+  });
+
+  test('should jitter-buffer each turn with enableBuffering', async () => {
+    router.configure({
+      enableBuffering: true,
+      bufferConfig: { targetBufferMs: 60, minBufferMs: 40, maxBufferMs: 400 },
+    });
+
+    await play('turn-1', 3);
+    await play('turn-2', 3);
+    expect(sink.play).toHaveBeenCalledTimes(0);
+
+    clock.advance(50);
+
+    expect(new Set(playedTurns())).toEqual(new Set(['turn-1', 'turn-2']));
+    expect(directPlay).not.toHaveBeenCalled();
+  });
+
+  test('should size frames from the configured sample rate', async () => {
+    router.configure({
+      enableBuffering: true,
+      sampleRate: 16000,
+      bufferConfig: { targetBufferMs: 100, minBufferMs: 20, maxBufferMs: 400, frameIntervalMs: 20 },
+    });
+    const playF32 = (count: number): Promise<void[]> =>
+      Promise.all(
+        Array.from({ length: count }, () =>
+          router.play(chunk, 'turn-1', EncodingTypes.PCM_F32LE, directPlay)
+        )
+      );
+
+    // 640 bytes of f32 mono at 16kHz is 10ms, so five chunks are short of target
+    await playF32(5);
+    clock.advance(50);
+    expect(sink.play).not.toHaveBeenCalled();
+
+    await playF32(5);
+    clock.advance(50);
+    expect(sink.play).toHaveBeenCalledWith(chunk, 'turn-1-frame-0', 'pcm_f32le');
+  });
+
+  test('should time frames in the full configured format', async () => {
+    router.configure({
+      enableBuffering: true,
+      sampleRate: 24000,
+      bufferConfig: {
+        audioFormat: { sampleRate: 16000, encoding: EncodingTypes.PCM_S16LE, channels: 2 },
+        targetBufferMs: 100,
+        minBufferMs: 20,
+        maxBufferMs: 400,
+      },
+    });
+
+    // 640 bytes of s16 stereo at 24kHz is 6.67ms, so it takes fifteen chunks to reach target
+    await play('turn-1', 14);
+    clock.advance(0);
+    expect(sink.play).not.toHaveBeenCalled();
+
+    await play('turn-1');
+    clock.advance(0);
+    expect(sink.play).toHaveBeenCalled();
+  });
+
+  test('should play out and release a turn once it goes quiet', async () => {
+    const drain = jest.spyOn(AudioBufferManager.prototype, 'drain');
+    router.configure({
+      enableBuffering: true,
+      turnIdleTimeoutMs: 500,
+      bufferConfig: { targetBufferMs: 100, minBufferMs: 0, maxBufferMs: 400 },
+    });
+    await play('turn-1', 8);
+
+    clock.advance(499);
+    expect(sink.play).toHaveBeenCalledTimes(8);
+    expect(drain).not.toHaveBeenCalled();
+
+    clock.advance(1);
+    expect(drain).toHaveBeenCalledTimes(1);
+    clock.advance(100);
+    expect(clock.getPendingTimerCount()).toBe(0);
+
+    // A later chunk starts a fresh buffer for the same turn
+    await play('turn-1', 5);
+    clock.advance(0);
+    expect(sink.play).toHaveBeenCalledTimes(11);
+    drain.mockRestore();
+  });
+
+  test('should play out a quiet turn shorter than the pre-roll threshold', async () => {
+    router.configure({
+      enableBuffering: true,
+      bufferConfig: {
+        targetBufferMs: 300,
+        minBufferMs: 40,
+        maxBufferMs: 600,
+        preRoll: { maxWaitMs: 0 },
+      },
+    });
+    await play('turn-1', 5);
+
+    clock.advance(60000);
+
+    expect(sink.play).toHaveBeenCalledTimes(5);
+    expect(clock.getPendingTimerCount()).toBe(0);
+  });
+
+  test('should play out a quiet turn\'s tail below the refill threshold', async () => {
+    router.configure({
+      enableBuffering: true,
+      bufferConfig: {
+        targetBufferMs: 100,
+        minBufferMs: 40,
+        maxBufferMs: 400,
+        underrunRecovery: 'rebuffer',
+        refillThresholdMs: 200,
+      },
+    });
+    await play('turn-1', 5);
+    clock.advance(200);
+    expect(sink.play).toHaveBeenCalledTimes(5);
+
+    // Too short to refill, so only draining plays it
+    await play('turn-1', 3);
+    clock.advance(60000);
+
+    expect(sink.play).toHaveBeenCalledTimes(8);
+    expect(clock.getPendingTimerCount()).toBe(0);
+  });
+
+  test('should keep one buffer for chunks arriving in real time', async () => {
+    const startPlayback = jest.spyOn(AudioBufferManager.prototype, 'startPlayback');
+    router.configure({ enableBuffering: true });
+    // 200ms chunks, each arriving up to 60ms either side of its slot
+    const longChunk = encodeBase64(new Uint8Array(6400));
+    const jitterMs = [0, 40, -30, 60, 0, -60, 20, 50, -40, 0];
+
+    let elapsedMs = 0;
+    for (const [index, offsetMs] of jitterMs.entries()) {
+      const arrivalMs = index * 200 + offsetMs;
+      clock.advance(arrivalMs - elapsedMs);
+      elapsedMs = arrivalMs;
+      await router.play(longChunk, 'turn-1', EncodingTypes.PCM_S16LE, directPlay);
+    }
+    clock.advance(3000);
+
+    expect(startPlayback).toHaveBeenCalledTimes(1);
+    expect(sink.play.mock.calls.length).toBeGreaterThanOrEqual(10);
+    startPlayback.mockRestore();
+  });
+
+  test('should keep a turn open while chunks keep arriving', async () => {
+    const drain = jest.spyOn(AudioBufferManager.prototype, 'drain');
+    router.configure({
+      enableBuffering: true,
+      bufferConfig: { targetBufferMs: 100, minBufferMs: 40, maxBufferMs: 400 },
+    });
+
+    for (let i = 0; i < 50; i++) {
+      await play('turn-1');
+      clock.advance(20);
+    }
+
+    expect(drain).not.toHaveBeenCalled();
+    expect(sink.play.mock.calls.length).toBeGreaterThan(40);
+    drain.mockRestore();
+  });
+
+  test('should let adaptive buffering decide with autoBuffer', async () => {
+    router.configure({ autoBuffer: true });
+
+    await play('turn-1');
+
+    expect(directPlay).toHaveBeenCalledWith(chunk, 'turn-1', 'pcm_s16le');
+  });
+
+  test('should pass chunk send times to the turn buffer', async () => {
+    const processAudioChunk = jest.spyOn(BufferManagerAdaptive.prototype, 'processAudioChunk');
+    const enqueueFrames = jest.spyOn(AudioBufferManager.prototype, 'enqueueFrames');
+
+    router.configure({ autoBuffer: true });
+    await router.play(chunk, 'turn-1', EncodingTypes.PCM_S16LE, directPlay, { sentAt: 500 });
+    router.configure({ enableBuffering: true });
+    await router.play(chunk, 'turn-2', EncodingTypes.PCM_S16LE, directPlay, { sentAt: 520 });
+
+    expect(processAudioChunk).toHaveBeenCalledWith({ audioData: chunk, sentAt: 500 }, directPlay);
+    expect(enqueueFrames).toHaveBeenCalledWith({ audioData: chunk, sentAt: 520 });
+    processAudioChunk.mockRestore();
+    enqueueFrames.mockRestore();
+  });
+
+  test('should pass clock sync samples to adaptive turns, including later ones', async () => {
+    const addClockSyncSample = jest.spyOn(BufferManagerAdaptive.prototype, 'addClockSyncSample');
+    const sample = (clientSendTime: number) => ({
+      clientSendTime,
+      serverReceiveTime: clientSendTime + 150,
+      clientReceiveTime: clientSendTime + 100,
+    });
+
+    router.configure({ enableBuffering: true });
+    await play('turn-0');
+    router.configure({ autoBuffer: true });
+    await play('turn-1');
+    for (let i = 0; i < 10; i++) {
+      router.addClockSyncSample(sample(i));
+    }
+    expect(addClockSyncSample).toHaveBeenCalledTimes(10);
+
+    // A later turn starts from the most recent samples only
+    addClockSyncSample.mockClear();
+    await play('turn-2');
+    expect(addClockSyncSample.mock.calls.map(([{ clientSendTime }]) => clientSendTime)).toEqual([
+      2, 3, 4, 5, 6, 7, 8, 9,
+    ]);
+    addClockSyncSample.mockRestore();
+  });
+
+  test('should base64 encode binary chunks played directly', async () => {
+    router.configure({ autoBuffer: true });
+
+    await router.play(new Uint8Array(640), 'turn-1', EncodingTypes.PCM_S16LE, directPlay);
+
+    expect(directPlay).toHaveBeenCalledWith(chunk, 'turn-1', 'pcm_s16le');
+  });
+
+  test('should buffer binary chunks', async () => {
+    router.configure({
+      enableBuffering: true,
+      bufferConfig: { targetBufferMs: 60, minBufferMs: 40, maxBufferMs: 400 },
+    });
+
+    for (let i = 0; i < 3; i++) {
+      await router.play(new Int16Array(320), 'turn-1', EncodingTypes.PCM_S16LE, directPlay);
+    }
+    clock.advance(50);
+
+    expect(sink.play).toHaveBeenCalledWith(chunk, 'turn-1-frame-0', 'pcm_s16le');
+  });
+
+  test('should prefer fixed buffering when both options are set', async () => {
+    router.configure({ enableBuffering: true, autoBuffer: true });
+
+    await play('turn-1');
+
+    expect(directPlay).not.toHaveBeenCalled();
+  });
+
+  test('should drain adaptive turns when they go quiet', async () => {
+    router.configure({ autoBuffer: true });
+    await play('turn-1');
+
+    clock.advance(1000);
+
+    expect(clock.getPendingTimerCount()).toBe(0);
+  });
+
+  test('should drop a cleared turn without playing it', async () => {
+    router.configure({
+      enableBuffering: true,
+      bufferConfig: { targetBufferMs: 60, minBufferMs: 40, maxBufferMs: 400 },
+    });
+    await play('turn-1', 2);
+
+    router.clearTurn('turn-1');
+    router.clearTurn('unknown-turn');
+    clock.advance(1000);
+
+    expect(sink.play).not.toHaveBeenCalled();
+  });
+
+  test('should stop draining turns when cleared', async () => {
+    router.configure({
+      enableBuffering: true,
+      bufferConfig: { targetBufferMs: 100, minBufferMs: 40, maxBufferMs: 800 },
+    });
+    await play('turn-1', 30);
+    await play('turn-2', 30);
+
+    router.drainAll();
+    clock.advance(100);
+    const playedBeforeClear = sink.play.mock.calls.length;
+    router.clearAll();
+    clock.advance(1000);
+
+    expect(sink.play).toHaveBeenCalledTimes(playedBeforeClear);
+    expect(clock.getPendingTimerCount()).toBe(0);
+  });
+
+  test('should hold a turn\'s chunks until its draining buffer has played out', async () => {
+    const startPlayback = jest.spyOn(AudioBufferManager.prototype, 'startPlayback');
+    router.configure({
+      enableBuffering: true,
+      bufferConfig: { targetBufferMs: 60, minBufferMs: 0, maxBufferMs: 400 },
+    });
+    await play('turn-1', 10);
+    router.drainAll();
+
+    const held = play('turn-1', 3);
+    clock.advance(0);
+    expect(startPlayback).toHaveBeenCalledTimes(1);
+
+    clock.advance(1000);
+    await held;
+    clock.advance(1000);
+
+    expect(startPlayback).toHaveBeenCalledTimes(2);
+    expect(sink.play.mock.calls.map(([, playbackId]) => playbackId)).toEqual([
+      ...Array.from({ length: 10 }, (_, index) => `turn-1-frame-${index}`),
+      'turn-1-frame-0',
+      'turn-1-frame-1',
+      'turn-1-frame-2',
+    ]);
+    startPlayback.mockRestore();
+  });
+
+  test('should drop chunks held for a draining turn that is cleared', async () => {
+    router.configure({
+      enableBuffering: true,
+      bufferConfig: { targetBufferMs: 60, minBufferMs: 40, maxBufferMs: 400 },
+    });
+    await play('turn-1', 10);
+    router.drainAll();
+    const held = play('turn-1', 3);
+
+    router.clearTurn('turn-1');
+    await held;
+    clock.advance(1000);
+
+    expect(sink.play).not.toHaveBeenCalled();
+    expect(clock.getPendingTimerCount()).toBe(0);
+  });
+
+  test('should let buffered turns play out when reconfigured', async () => {
+    router.configure({
+      enableBuffering: true,
+      bufferConfig: { targetBufferMs: 100, minBufferMs: 40, maxBufferMs: 400 },
+    });
+    await play('turn-1', 2);
+
+    router.configure({});
+    clock.advance(100);
+
+    expect(sink.play).toHaveBeenCalledTimes(2);
+    expect(router.isEnabled()).toBe(false);
+  });
+
+  test('should default to the system clock and native player', async () => {
+    const defaultRouter = new TurnBufferRouter();
+    defaultRouter.configure({ enableBuffering: true });
+
+    await defaultRouter.play(chunk, 'turn-1', EncodingTypes.PCM_S16LE, directPlay);
+
+    defaultRouter.clearAll();
+  });
+});
@@ -0,0 +1,78 @@
+import { TypedEventEmitter } from '../src/audio/TypedEventEmitter';
+
+interface TestEvents {
+  level: { value: number };
+  done: { ok: boolean };
+}
+
+describe('TypedEventEmitter', () => {
+  let emitter: TypedEventEmitter<TestEvents>;
+
+  beforeEach(() => {
+    emitter = new TypedEventEmitter<TestEvents>();
+  });
+
+  test('should deliver events to listeners of that event only', () => {
+    const levelListener = jest.fn();
+    const doneListener = jest.fn();
+    emitter.addListener('level', levelListener);
+    emitter.addListener('done', doneListener);
+
+    emitter.emit('level', { value: 3 });
+
+    expect(levelListener).toHaveBeenCalledWith({ value: 3 });
+    expect(doneListener).not.toHaveBeenCalled();
+  });
+
+  test('should emit with no listeners', () => {
+    expect(() => emitter.emit('done', { ok: true })).not.toThrow();
+    expect(emitter.listenerCount('done')).toBe(0);
+  });
+
+  test('should stop delivering once a subscription is removed', () => {
+    const listener = jest.fn();
+    const other = jest.fn();
+    const subscription = emitter.addListener('level', listener);
+    emitter.addListener('level', other);
+
+    subscription.remove();
+    emitter.emit('level', { value: 1 });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(other).toHaveBeenCalledTimes(1);
+    expect(emitter.listenerCount('level')).toBe(1);
+  });
+
+  test('should tolerate removal after all listeners are cleared', () => {
+    const subscription = emitter.addListener('level', jest.fn());
+    emitter.removeAllListeners();
+
+    expect(() => subscription.remove()).not.toThrow();
+    expect(emitter.listenerCount('level')).toBe(0);
+  });
+
+  test('should let listeners unsubscribe while being called', () => {
+    const later = jest.fn();
+    const subscription = emitter.addListener('level', () => subscription.remove());
+    emitter.addListener('level', later);
+
+    emitter.emit('level', { value: 1 });
+
+    expect(later).toHaveBeenCalledTimes(1);
+    expect(emitter.listenerCount('level')).toBe(1);
+  });
+
+  test('should keep calling listeners after one throws', () => {
+    const later = jest.fn();
+    emitter.addListener('done', () => {
+      throw new Error('listener failure');
+    });
+    emitter.addListener('done', later);
+
+    emitter.emit('done', { ok: false });
+
+    expect(later).toHaveBeenCalledWith({ ok: false });
+    // eslint-disable-next-line no-console
+    expect(console.error).toHaveBeenCalled();
+  });
+});
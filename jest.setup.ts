@@ -30,7 +30,9 @@ jest.mock('react-native', () => ({
 // Mock Expo modules
 jest.mock('expo-modules-core', () => ({
   NativeModulesProxy: {},
-  EventEmitter: jest.fn(),
+  EventEmitter: jest.fn(() => ({
+    addListener: jest.fn(() => ({ remove: jest.fn() })),
+  })),
   Subscription: jest.fn(),
   requireNativeModule: jest.fn(() => ({
     // Mock native module methods
@@ -0,0 +1,122 @@
+import {
+  Encoding,
+  EncodingTypes,
+  IAudioFormat,
+} from '../types';
+
+/**
+ * Format assumed when a stream does not describe its audio:
+ * 16kHz mono 16-bit PCM, matching the native player defaults.
+ */
+export const DefaultAudioFormat: Readonly<IAudioFormat> = {
+  sampleRate: 16000,
+  encoding: EncodingTypes.PCM_S16LE,
+  channels: 1,
+};
+
+/** Bytes used by a single sample of the given encoding. */
+export function getBytesPerSample(encoding: Encoding): number {
+  return encoding === EncodingTypes.PCM_F32LE ? 4 : 2;
+}
+
+/** Bytes used by one interleaved sample frame (all channels). */
+export function getBlockAlign(format: IAudioFormat): number {
+  return getBytesPerSample(format.encoding) * format.channels;
+}
+
+/** Playback duration in milliseconds of a PCM byte count. */
+export function bytesToDurationMs(
+  byteCount: number,
+  format: IAudioFormat
+): number {
+  const sampleFrames = byteCount / getBlockAlign(format);
+  return (sampleFrames / format.sampleRate) * 1000;
+}
+
+/** PCM byte count for a duration, aligned down to whole sample frames. */
+export function durationMsToBytes(
+  durationMs: number,
+  format: IAudioFormat
+): number {
+  const sampleFrames = Math.floor(
+    (durationMs * format.sampleRate) / 1000
+  );
+  return sampleFrames * getBlockAlign(format);
+}
+
+/**
+ * Merge partial formats over the default format.
+ * Later sources win; undefined fields are ignored.
+ */
+export function resolveAudioFormat(
+  ...sources: Array<Partial<IAudioFormat> | undefined>
+): IAudioFormat {
+  const format: IAudioFormat = { ...DefaultAudioFormat };
+
+  for (const source of sources) {
+    if (!source) {
+      continue;
+    }
+    if (source.sampleRate !== undefined) {
+      format.sampleRate = source.sampleRate;
+    }
+    if (source.encoding !== undefined) {
+      format.encoding = source.encoding;
+    }
+    if (source.channels !== undefined) {
+      format.channels = source.channels;
+    }
+  }
+
+  return format;
+}
+
+/** Decode little-endian PCM bytes into normalized float samples. */
+export function decodePcmSamples(
+  bytes: Uint8Array,
+  encoding: Encoding
+): Float32Array {
+  const view = new DataView(
+    bytes.buffer,
+    bytes.byteOffset,
+    bytes.byteLength
+  );
+  const bytesPerSample = getBytesPerSample(encoding);
+  const samples = new Float32Array(
+    Math.floor(bytes.byteLength / bytesPerSample)
+  );
+
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] =
+      encoding === EncodingTypes.PCM_F32LE
+        ? view.getFloat32(i * bytesPerSample, true)
+        : view.getInt16(i * bytesPerSample, true) / 32768;
+  }
+
+  return samples;
+}
+
+/** Encode normalized float samples as little-endian PCM bytes. */
+export function encodePcmSamples(
+  samples: Float32Array,
+  encoding: Encoding
+): Uint8Array {
+  const bytesPerSample = getBytesPerSample(encoding);
+  const bytes = new Uint8Array(samples.length * bytesPerSample);
+  const view = new DataView(bytes.buffer);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    if (encoding === EncodingTypes.PCM_F32LE) {
+      view.setFloat32(i * bytesPerSample, sample, true);
+    } else {
+      view.setInt16(
+        i * bytesPerSample,
+        Math.round(sample * 32767),
+        true
+      );
+    }
+  }
+
+  return bytes;
+}
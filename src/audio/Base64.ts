@@ -0,0 +1,123 @@
+import { AudioChunkData } from '../types';
+
+const base64Chars =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Build binary strings in slices to stay under argument count limits
+const binaryStringChunkSize = 0x8000;
+
+/** Encode raw bytes as a base64 string. */
+export function encodeBase64(bytes: Uint8Array): string {
+  let binaryString = '';
+  for (
+    let offset = 0;
+    offset < bytes.length;
+    offset += binaryStringChunkSize
+  ) {
+    // apply takes the typed array directly, without an intermediate array
+    binaryString += String.fromCharCode.apply(
+      null,
+      bytes.subarray(
+        offset,
+        offset + binaryStringChunkSize
+      ) as unknown as number[]
+    );
+  }
+
+  if (typeof btoa !== 'undefined') {
+    return btoa(binaryString);
+  }
+
+  let result = '';
+  for (let i = 0; i < binaryString.length; i += 3) {
+    const a = binaryString.charCodeAt(i);
+    const b =
+      i + 1 < binaryString.length
+        ? binaryString.charCodeAt(i + 1)
+        : 0;
+    const c =
+      i + 2 < binaryString.length
+        ? binaryString.charCodeAt(i + 2)
+        : 0;
+    const bitmap = (a << 16) | (b << 8) | c;
+
+    result += base64Chars.charAt((bitmap >> 18) & 63);
+    result += base64Chars.charAt((bitmap >> 12) & 63);
+    result +=
+      i + 1 < binaryString.length
+        ? base64Chars.charAt((bitmap >> 6) & 63)
+        : '=';
+    result +=
+      i + 2 < binaryString.length
+        ? base64Chars.charAt(bitmap & 63)
+        : '=';
+  }
+
+  return result;
+}
+
+/**
+ * Decode a base64 string into raw bytes.
+ * Throws on characters outside the base64 alphabet.
+ */
+export function decodeBase64(base64Data: string): Uint8Array {
+  const cleaned = base64Data.replace(/=+$/, '');
+
+  if (typeof atob !== 'undefined') {
+    const binaryString = atob(cleaned);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+      bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  const bytes = new Uint8Array(
+    Math.floor((cleaned.length * 3) / 4)
+  );
+  let byteIndex = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  for (let i = 0; i < cleaned.length; i++) {
+    const value = base64Chars.indexOf(cleaned.charAt(i));
+    if (value < 0) {
+      throw new Error('Invalid base64 character');
+    }
+
+    bitBuffer = ((bitBuffer << 6) | value) & 0xfff;
+    bitCount += 6;
+
+    if (bitCount >= 8) {
+      bitCount -= 8;
+      bytes[byteIndex++] = (bitBuffer >> bitCount) & 0xff;
+    }
+  }
+
+  return bytes.subarray(0, byteIndex);
+}
+
+/** View audio data as bytes, decoding it if it is a base64 string. */
+export function audioDataToBytes(audioData: AudioChunkData): Uint8Array {
+  if (typeof audioData === 'string') {
+    return decodeBase64(audioData);
+  }
+  if (audioData instanceof ArrayBuffer) {
+    return new Uint8Array(audioData);
+  }
+  return new Uint8Array(
+    audioData.buffer,
+    audioData.byteOffset,
+    audioData.byteLength
+  );
+}
+
+/**
+ * Audio data as base64 for the native bridge. Strings are passed
+ * through unchanged.
+ */
+export function audioDataToBase64(audioData: AudioChunkData): string {
+  return typeof audioData === 'string'
+    ? audioData
+    : encodeBase64(audioDataToBytes(audioData));
+}
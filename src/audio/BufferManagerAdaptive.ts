@@ -1,42 +1,99 @@
+import type { EventSubscription } from "expo-modules-core";
 import { AudioBufferManager } from "./BufferManagerCore";
 import { QualityMonitor } from "./QualityMonitor";
+import { SystemClock } from "./Clock";
+import { NativeAudioSink } from "./NativeAudioSink";
+import { TypedEventEmitter } from "./TypedEventEmitter";
+import { ClockOffsetEstimator, OneWayDelayEstimator } from "./ClockSync";
+import { audioDataToBase64 } from "./Base64";
+import { createRejectionCounts } from "./ChunkValidation";
+import { resolveAudioFormat } from "./AudioFormat";
 import {
   IAudioBufferConfig,
+  IAudioFormat,
   IAudioPlayPayload,
   SmartBufferMode,
   NetworkConditions,
   SmartBufferConfig,
   IBufferHealthMetrics,
   Encoding,
-  EncodingTypes,
+  IAudioSink,
+  IScheduler,
+  BufferingTransitionReason,
+  IAdaptiveBufferEventMap,
+  IClockSyncSample,
 } from "../types";
 
+type DirectPlayCallback = (
+  data: string,
+  turnId: string,
+  encoding: Encoding
+) => Promise<void>;
+
+interface PendingChunk {
+  audioData: IAudioPlayPayload;
+  directPlayCallback: DirectPlayCallback;
+}
+
+type ConditionLimits = Partial<
+  Record<"latency" | "jitter" | "packetLoss", number>
+>;
+
 /**
- * Smart buffering manager that automatically adapts to network conditions
+ * Smart buffering manager that automatically adapts to network conditions.
+ *
+ * Switching buffering off hands over without loss: the outgoing buffer
+ * plays out first, and chunks arriving meanwhile are held and routed in
+ * order once it has finished.
  */
 export class BufferManagerAdaptive {
+  private static readonly _decisionIntervalMs = 5000;
+
   private _mode: SmartBufferMode;
   private _bufferManager: AudioBufferManager | null = null;
+  private _handoffManager: AudioBufferManager | null = null; // Outgoing buffer playing out
+  private _drainingManagers: Set<AudioBufferManager> = new Set(); // Drained buffers still playing out
+  private _isDrainPending: boolean = false; // drained is due once nothing plays out
+  private _pendingChunks: PendingChunk[] = [];
   private _networkMonitor: QualityMonitor;
+  private _providerSubscription: EventSubscription | null = null;
+  private _isMeasuringArrivals: boolean = false; // Chunks carry send times for the monitor
+  private _clockOffset = new ClockOffsetEstimator();
+  private _delayEstimator = new OneWayDelayEstimator(this._clockOffset);
   private _isBufferingEnabled: boolean = false;
   private _networkConditions: NetworkConditions = {};
   private _adaptiveThresholds: Required<
     SmartBufferConfig["adaptiveThresholds"]
   >;
+  private _transitionSettings: Required<
+    NonNullable<SmartBufferConfig["transitions"]>
+  >;
   private _turnId: string;
-  private _encoding: Encoding;
+  private _audioFormat: IAudioFormat;
+  private _baseBufferConfig: Partial<IAudioBufferConfig>;
   private _lastDecisionTime: number = 0;
+  private _lastTransitionTime: number | null = null;
   private _consecutiveProblems: number = 0;
+  private _clock: IScheduler;
+  private _sink: IAudioSink;
+  private _events = new TypedEventEmitter<IAdaptiveBufferEventMap>();
 
   constructor(
     config: SmartBufferConfig,
     turnId: string,
-    encoding: Encoding = EncodingTypes.PCM_S16LE
+    encoding?: Encoding, // Overrides bufferConfig.audioFormat.encoding
+    clock: IScheduler = SystemClock,
+    sink: IAudioSink = NativeAudioSink
   ) {
     this._mode = config.mode;
     this._turnId = turnId;
-    this._encoding = encoding;
-    this._networkMonitor = new QualityMonitor();
+    this._audioFormat = resolveAudioFormat(config.bufferConfig?.audioFormat, {
+      encoding,
+    });
+    this._baseBufferConfig = config.bufferConfig ?? {};
+    this._clock = clock;
+    this._sink = sink;
+    this._networkMonitor = new QualityMonitor(undefined, undefined, clock);
 
     // Set default adaptive thresholds
     this._adaptiveThresholds = {
@@ -45,12 +102,27 @@ export class BufferManagerAdaptive {
       packetLossPercent: config.adaptiveThresholds?.packetLossPercent ?? 1.0,
     };
 
+    this._transitionSettings = {
+      cooldownMs: config.transitions?.cooldownMs ?? 10000,
+      hysteresisPercent: config.transitions?.hysteresisPercent ?? 20,
+    };
+
     if (config.networkConditions) {
       this._networkConditions = {
         ...config.networkConditions,
       };
     }
 
+    if (config.networkProvider) {
+      this._networkConditions = {
+        ...this._networkConditions,
+        ...config.networkProvider.getConditions(),
+      };
+      this._providerSubscription = config.networkProvider.addListener(
+        (conditions) => this.updateNetworkConditions(conditions)
+      );
+    }
+
     // Initialize buffering state based on mode
     this._evaluateBufferingNeed();
   }
@@ -60,41 +132,94 @@ export class BufferManagerAdaptive {
    */
   public async processAudioChunk(
     audioData: IAudioPlayPayload,
-    directPlayCallback: (
-      data: string,
-      turnId: string,
-      encoding: Encoding
-    ) => Promise<void>
+    directPlayCallback: DirectPlayCallback
   ): Promise<void> {
+    if (audioData.sentAt !== undefined) {
+      this._recordArrival(audioData.sentAt);
+    }
+
     // Update network conditions from the quality monitor
     this._updateNetworkConditions();
 
     // Re-evaluate buffering need periodically or when conditions change
-    if (Date.now() - this._lastDecisionTime > 5000) {
-      // Re-evaluate every 5 seconds
+    if (
+      this._clock.now() - this._lastDecisionTime >
+      BufferManagerAdaptive._decisionIntervalMs
+    ) {
       this._evaluateBufferingNeed();
-      this._lastDecisionTime = Date.now();
+      this._lastDecisionTime = this._clock.now();
+    }
+
+    if (this._handoffManager) {
+      // Hold until the outgoing buffer has played out
+      this._pendingChunks.push({ audioData, directPlayCallback });
+      return;
     }
 
+    await this._routeChunk(audioData, directPlayCallback);
+  }
+
+  /**
+   * Subscribe to buffering transitions
+   */
+  public addListener<K extends keyof IAdaptiveBufferEventMap>(
+    eventName: K,
+    listener: (event: IAdaptiveBufferEventMap[K]) => void
+  ): EventSubscription {
+    return this._events.addListener(eventName, listener);
+  }
+
+  /**
+   * Add a ping/pong exchange with the sender. Clock sync turns chunk
+   * sentAt times into one-way delay, and its round trip feeds latency.
+   */
+  public addClockSyncSample(sample: IClockSyncSample): void {
+    this._clockOffset.addSample(sample);
+    this._mergeMeasuredDelay();
+  }
+
+  /**
+   * Measure delay from a chunk's send time. Send spacing replaces the
+   * assumed frame interval in the monitor's jitter estimate.
+   */
+  private _recordArrival(sentAt: number): void {
+    const arrivalTime = this._clock.now();
+    this._isMeasuringArrivals = true;
+    this._delayEstimator.recordArrival(sentAt, arrivalTime);
+    this._networkMonitor.recordFrameArrival(
+      arrivalTime,
+      this._clockOffset.toLocalTime(sentAt)
+    );
+  }
+
+  private _mergeMeasuredDelay(): void {
+    this._networkConditions = {
+      ...this._networkConditions,
+      ...this._delayEstimator.getNetworkConditions(),
+    };
+  }
+
+  private async _routeChunk(
+    audioData: IAudioPlayPayload,
+    directPlayCallback: DirectPlayCallback
+  ): Promise<void> {
     if (this._isBufferingEnabled) {
-      // Use buffered playback
-      /* istanbul ignore next */
+      // Use buffered playback, starting a fresh buffer after a drain or handoff
       if (!this._bufferManager) {
-        /* istanbul ignore next */
         this._initializeBuffering();
       }
       this._bufferManager!.enqueueFrames(audioData);
+
+      // The buffer drains itself after a final chunk; the next turn starts a fresh one
+      if (audioData.isFinal) {
+        this.drain();
+      }
     } else {
       // Use direct playback
-      /* istanbul ignore next */
-      if (this._bufferManager) {
-        /* istanbul ignore next */
-        this._disableBuffering();
-      }
       await directPlayCallback(
-        audioData.audioData,
+        audioDataToBase64(audioData.audioData),
         this._turnId,
-        this._encoding
+        this._audioFormat.encoding
       );
     }
   }
@@ -105,8 +230,12 @@ export class BufferManagerAdaptive {
   private _updateNetworkConditions(): void {
     const metrics = this._networkMonitor.getMetrics();
 
-    // Update conditions from quality monitor
-    this._networkConditions.jitter = metrics.averageJitter;
+    // Update conditions from quality monitor and measured delay. The
+    // monitor only knows jitter once chunks carry send times.
+    if (this._isMeasuringArrivals) {
+      this._networkConditions.jitter = metrics.averageJitter;
+    }
+    this._mergeMeasuredDelay();
 
     // Track consecutive quality problems
     /* istanbul ignore next */
@@ -126,150 +255,160 @@ export class BufferManagerAdaptive {
    * Evaluate whether buffering should be enabled based on current conditions and mode
    */
   private _evaluateBufferingNeed(): void {
-    const previousState = this._isBufferingEnabled;
+    const reason = this._getBufferingReason();
+    const shouldBuffer = reason !== null;
 
-    // Determine if buffering should be enabled based on current mode
-    let shouldBuffer: boolean;
-    /* istanbul ignore next */
+    if (
+      shouldBuffer !== this._isBufferingEnabled &&
+      !this._isInCooldown()
+    ) {
+      this._transition(shouldBuffer, reason ?? "recovered");
+    }
+
+    // Track consecutive problems for adaptive logic
+    if (shouldBuffer) {
+      this._consecutiveProblems++;
+    } else {
+      this._consecutiveProblems = 0;
+    }
+  }
+
+  /**
+   * The condition that calls for buffering under the current mode, or
+   * null when none does
+   */
+  private _getBufferingReason(): BufferingTransitionReason | null {
     switch (this._mode) {
       case "conservative":
-        shouldBuffer = this._shouldBufferConservative();
-        break;
+        return this._bufferingReasonConservative();
       case "balanced":
-        shouldBuffer = this._shouldBufferBalanced();
-        break;
-      /* istanbul ignore next */
+        return this._bufferingReasonBalanced();
       case "aggressive":
-        /* istanbul ignore next */
-        shouldBuffer = this._shouldBufferAggressive();
-        /* istanbul ignore next */
-        break;
-      /* istanbul ignore next */
+        return this._bufferingReasonAggressive();
       case "adaptive":
-        /* istanbul ignore next */
-        shouldBuffer = this._shouldBufferAdaptive();
-        /* istanbul ignore next */
-        break;
+        return this._bufferingReasonAdaptive();
       /* istanbul ignore next */
       default:
-        /* istanbul ignore next */
         // eslint-disable-next-line no-console
         console.warn(`Unknown buffering mode: ${this._mode}, using balanced`);
-        /* istanbul ignore next */
-        shouldBuffer = this._shouldBufferBalanced();
+        return this._bufferingReasonBalanced();
     }
+  }
 
-    // Update buffering state
-    /* istanbul ignore next */
-    if (shouldBuffer && !this._isBufferingEnabled) {
-      /* istanbul ignore next */
-      this._isBufferingEnabled = true;
-      /* istanbul ignore next */
-      this._initializeBuffering();
-    /* istanbul ignore next */
-    } else if (!shouldBuffer && this._isBufferingEnabled) {
-      /* istanbul ignore next */
-      this._isBufferingEnabled = false;
-      /* istanbul ignore next */
-      this._disableBuffering();
-    }
+  /** A switch right after the last one is skipped, so decisions settle. */
+  private _isInCooldown(): boolean {
+    return (
+      this._lastTransitionTime !== null &&
+      this._clock.now() - this._lastTransitionTime <
+        this._transitionSettings.cooldownMs
+    );
+  }
 
-    // Track consecutive problems for adaptive logic
-    /* istanbul ignore next */
-    if (shouldBuffer) {
-      /* istanbul ignore next */
-      this._consecutiveProblems++;
+  private _transition(
+    bufferingEnabled: boolean,
+    reason: BufferingTransitionReason
+  ): void {
+    this._isBufferingEnabled = bufferingEnabled;
+    this._lastTransitionTime = this._clock.now();
+
+    if (bufferingEnabled) {
+      // Mid-handoff, the new buffer starts once the old one has played out
+      if (!this._handoffManager) {
+        this._initializeBuffering();
+      }
     } else {
-      /* istanbul ignore next */
-      this._consecutiveProblems = 0;
+      this._handOffToDirect();
     }
 
-    // Log state changes for debugging
-    /* istanbul ignore next */
-    if (previousState !== this._isBufferingEnabled) {
-      /* istanbul ignore next */
-      // eslint-disable-next-line no-console
-      console.log(
-        `[SmartBufferManager] Buffering ${
-          this._isBufferingEnabled ? "enabled" : "disabled"
-        } for turnId: ${this._turnId} (mode: ${this._mode})`
-      );
+    // eslint-disable-next-line no-console
+    console.log(
+      `[SmartBufferManager] Buffering ${
+        bufferingEnabled ? "enabled" : "disabled"
+      } for turnId: ${this._turnId} (mode: ${this._mode}, reason: ${reason})`
+    );
+
+    this._events.emit("transition", {
+      bufferingEnabled,
+      reason,
+      networkConditions: { ...this._networkConditions },
+    });
+  }
+
+  /**
+   * First network condition above its limit. While buffering, limits are
+   * lowered by hysteresisPercent so conditions hovering at a threshold
+   * do not flip buffering back and forth.
+   */
+  private _exceededCondition(
+    limits: ConditionLimits
+  ): BufferingTransitionReason | null {
+    const scale = this._isBufferingEnabled
+      ? 1 - this._transitionSettings.hysteresisPercent / 100
+      : 1;
+
+    for (const condition of ["latency", "jitter", "packetLoss"] as const) {
+      const value = this._networkConditions[condition];
+      const limit = limits[condition];
+      if (value !== undefined && limit !== undefined && value > limit * scale) {
+        return condition;
+      }
     }
+    return null;
   }
 
-  private _shouldBufferConservative(): boolean {
+  private _bufferingReasonConservative(): BufferingTransitionReason | null {
     // Only buffer on clear network problems
-    /* istanbul ignore next */
     return (
-      /* istanbul ignore next */
-      (this._networkConditions.latency !== undefined &&
-        this._networkConditions.latency >
-          this._adaptiveThresholds!.highLatencyMs * 1.5) ||
-      /* istanbul ignore next */
-      (this._networkConditions.packetLoss !== undefined &&
-        this._networkConditions.packetLoss >
-          this._adaptiveThresholds!.packetLossPercent * 2) ||
-      /* istanbul ignore next */
-      this._consecutiveProblems > 3
+      this._exceededCondition({
+        latency: this._adaptiveThresholds!.highLatencyMs * 1.5,
+        packetLoss: this._adaptiveThresholds!.packetLossPercent * 2,
+      }) ?? (this._consecutiveProblems > 3 ? "consecutiveProblems" : null)
     );
   }
 
-  private _shouldBufferBalanced(): boolean {
+  private _bufferingReasonBalanced(): BufferingTransitionReason | null {
     // Buffer on moderate network issues
     return (
-      (this._networkConditions.latency !== undefined &&
-        this._networkConditions.latency >
-          this._adaptiveThresholds!.highLatencyMs) ||
-      (this._networkConditions.jitter !== undefined &&
-        this._networkConditions.jitter >
-          this._adaptiveThresholds!.highJitterMs) ||
-      (this._networkConditions.packetLoss !== undefined &&
-        this._networkConditions.packetLoss >
-          this._adaptiveThresholds!.packetLossPercent) ||
-      this._consecutiveProblems > 2
+      this._exceededCondition({
+        latency: this._adaptiveThresholds!.highLatencyMs,
+        jitter: this._adaptiveThresholds!.highJitterMs,
+        packetLoss: this._adaptiveThresholds!.packetLossPercent,
+      }) ?? (this._consecutiveProblems > 2 ? "consecutiveProblems" : null)
     );
   }
 
-  private _shouldBufferAggressive(): boolean {
+  private _bufferingReasonAggressive(): BufferingTransitionReason | null {
     // Buffer proactively on any signs of network issues
-    /* istanbul ignore next */
     return (
-      /* istanbul ignore next */
-      (this._networkConditions.latency !== undefined &&
-        this._networkConditions.latency >
-          this._adaptiveThresholds!.highLatencyMs * 0.7) ||
-      /* istanbul ignore next */
-      (this._networkConditions.jitter !== undefined &&
-        this._networkConditions.jitter >
-          this._adaptiveThresholds!.highJitterMs * 0.5) ||
-      /* istanbul ignore next */
-      (this._networkConditions.packetLoss !== undefined &&
-        this._networkConditions.packetLoss > 0.1) ||
-      /* istanbul ignore next */
-      this._consecutiveProblems > 1
+      this._exceededCondition({
+        latency: this._adaptiveThresholds!.highLatencyMs * 0.7,
+        jitter: this._adaptiveThresholds!.highJitterMs * 0.5,
+        packetLoss: 0.1,
+      }) ?? (this._consecutiveProblems > 1 ? "consecutiveProblems" : null)
     );
   }
 
-  private _shouldBufferAdaptive(): boolean {
+  private _bufferingReasonAdaptive(): BufferingTransitionReason | null {
     // Dynamic decision based on recent performance
     const recentMetrics = this._networkMonitor.getMetrics();
 
-    // Start with balanced approach
-    let shouldBuffer = this._shouldBufferBalanced();
-
-    // Adapt based on recent buffer health
+    // Always buffer on critical issues
     /* istanbul ignore next */
     if (recentMetrics.bufferHealthState === "critical") {
-      shouldBuffer = true; // Always buffer on critical issues
-    } else if (
+      return "bufferHealth";
+    }
+
+    // Disable if consistently healthy
+    /* istanbul ignore next */
+    if (
       recentMetrics.bufferHealthState === "healthy" &&
       this._consecutiveProblems === 0
     ) {
-      /* istanbul ignore next */
-      shouldBuffer = false; // Disable if consistently healthy
+      return null;
     }
 
-    return shouldBuffer;
+    // Otherwise take the balanced approach
+    return this._bufferingReasonBalanced();
   }
 
   /**
@@ -279,9 +418,12 @@ export class BufferManagerAdaptive {
     const bufferConfig: Partial<IAudioBufferConfig> =
       this._getBufferConfigForConditions();
 
-    this._bufferManager = new AudioBufferManager(bufferConfig);
+    this._bufferManager = new AudioBufferManager(
+      bufferConfig,
+      this._clock,
+      this._sink
+    );
     this._bufferManager.setTurnId(this._turnId);
-    this._bufferManager.setEncoding(this._encoding);
     this._bufferManager.startPlayback();
 
     // eslint-disable-next-line no-console
@@ -291,6 +433,70 @@ export class BufferManagerAdaptive {
     );
   }
 
+  /**
+   * Let the active buffer play out before chunks go direct, so nothing
+   * queued is lost or overlaps direct playback
+   */
+  private _handOffToDirect(): void {
+    const manager = this._bufferManager;
+    if (!manager) {
+      return;
+    }
+
+    this._bufferManager = null;
+    this._handoffManager = manager;
+    manager.addListener("drained", ({ isFinal }) => {
+      if (isFinal) {
+        this._completeHandoff();
+      }
+    });
+    manager.drain();
+  }
+
+  /**
+   * Release the outgoing buffer and route held chunks in arrival order
+   */
+  private _completeHandoff(): void {
+    this._handoffManager?.destroy();
+    this._handoffManager = null;
+
+    // Routing is synchronous up to the direct play call, so order holds
+    this._pendingChunks.splice(0).forEach(({ audioData, directPlayCallback }) =>
+      this._routeChunk(audioData, directPlayCallback).catch((error) => {
+        // eslint-disable-next-line no-console
+        console.error(
+          `[SmartBufferManager] Failed to play held chunk for turnId: ${this._turnId}`,
+          error
+        );
+      })
+    );
+
+    // Held chunks may have started a new buffer, which plays out too
+    if (this._isDrainPending) {
+      this.drain();
+    }
+  }
+
+  /**
+   * Release a drained buffer once its last frame has played
+   */
+  private _releaseDrained(manager: AudioBufferManager): void {
+    this._drainingManagers.delete(manager);
+    manager.destroy();
+    this._emitDrainedIfIdle();
+  }
+
+  private _emitDrainedIfIdle(): void {
+    if (
+      this._isDrainPending &&
+      !this._handoffManager &&
+      this._drainingManagers.size === 0
+    ) {
+      this._isDrainPending = false;
+      this._events.emit("drained", { isFinal: true });
+    }
+  }
+
   /**
    * Disable buffering and clean up
    */
@@ -307,11 +513,14 @@ export class BufferManagerAdaptive {
   }
 
   /**
-   * Get appropriate buffer configuration based on network conditions
+   * Get appropriate buffer configuration based on network conditions,
+   * over the base config and in the stream's audio format
    */
   private _getBufferConfigForConditions(): Partial<IAudioBufferConfig> {
     const baseConfig: Partial<IAudioBufferConfig> = {
       frameIntervalMs: 20,
+      ...this._baseBufferConfig,
+      audioFormat: this._audioFormat,
     };
 
     // Adjust buffer size based on network conditions
@@ -365,8 +574,9 @@ export class BufferManagerAdaptive {
    * Get current buffer health metrics
    */
   public getHealthMetrics(): IBufferHealthMetrics | null {
-    if (this._bufferManager) {
-      return this._bufferManager.getHealthMetrics();
+    const manager = this._bufferManager ?? this._handoffManager;
+    if (manager) {
+      return manager.getHealthMetrics();
     }
 
     // Return basic metrics from network monitor when not buffering
@@ -376,8 +586,25 @@ export class BufferManagerAdaptive {
       underrunCount: 0,
       overrunCount: 0,
       averageJitter: this._networkConditions.jitter || 0,
+      interarrivalJitter: 0,
+      jitterP50: 0,
+      jitterP95: 0,
+      jitterP99: 0,
+      delayP50: 0,
+      delayP95: 0,
+      delayP99: 0,
       bufferHealthState: "idle",
       adaptiveAdjustmentsCount: 0,
+      packetsLost: 0,
+      packetsReordered: 0,
+      packetsLate: 0,
+      duplicates: 0,
+      concealedMs: 0,
+      droppedMs: 0,
+      rebufferCount: 0,
+      rebufferDurationMs: 0,
+      chunksRejected: 0,
+      chunkRejections: createRejectionCounts(),
     };
   }
 
@@ -388,11 +615,46 @@ export class BufferManagerAdaptive {
     return this._isBufferingEnabled;
   }
 
+  /**
+   * Play out audio still buffered, then release the buffer and emit
+   * drained. Later chunks start a fresh buffer if buffering is still
+   * enabled.
+   */
+  public drain(): void {
+    this._isDrainPending = true;
+
+    const manager = this._bufferManager;
+    if (manager) {
+      // The buffer manager stops itself once the last frame has played
+      this._bufferManager = null;
+      this._drainingManagers.add(manager);
+      manager.addListener("drained", ({ isFinal }) => {
+        if (isFinal) {
+          this._releaseDrained(manager);
+        }
+      });
+      manager.drain();
+    }
+
+    this._emitDrainedIfIdle();
+  }
+
   /**
    * Stop and clean up
    */
   public destroy(): void {
     this._disableBuffering();
+    this._handoffManager?.destroy();
+    this._handoffManager = null;
+    this._drainingManagers.forEach((manager) => manager.destroy());
+    this._drainingManagers.clear();
+    this._isDrainPending = false;
+    this._pendingChunks = [];
     this._networkMonitor.reset();
+    this._clockOffset.reset();
+    this._delayEstimator.reset();
+    this._events.removeAllListeners();
+    this._providerSubscription?.remove();
+    this._providerSubscription = null;
   }
 }
@@ -1,48 +1,143 @@
-import { Encoding, EncodingTypes } from '../types';
+import type { EventSubscription } from 'expo-modules-core';
+import { Encoding } from '../types';
 import { FrameProcessor } from './FrameProcessor';
 import { QualityMonitor } from './QualityMonitor';
-import ExpoPlayAudioStreamModule from '../ExpoPlayAudioStreamModule';
+import { PacketReorderBuffer } from './PacketReorderBuffer';
+import { createConcealmentStrategy } from './Concealment';
+import { timeStretch } from './TimeStretch';
+import { SystemClock } from './Clock';
+import { NativeAudioSink } from './NativeAudioSink';
+import { PlaybackTracker } from './PlaybackTracker';
+import { FrameRingBuffer } from './FrameRingBuffer';
+import { HealthHistory } from './HealthHistory';
+import { createRejectionCounts } from './ChunkValidation';
+import { TypedEventEmitter } from './TypedEventEmitter';
 import {
+  bytesToDurationMs,
+  decodePcmSamples,
+  durationMsToBytes,
+  encodePcmSamples,
+  getBlockAlign,
+  resolveAudioFormat,
+} from './AudioFormat';
+import { audioDataToBase64, audioDataToBytes } from './Base64';
+import {
+  BufferEventName,
+  BufferHealthState,
   IAudioBufferConfig,
   IAudioBufferManager,
   IAudioFrame,
   IAudioPlayPayload,
+  IAudioSink,
+  IAudioSinkSubscription,
+  IBufferEventMap,
   IBufferHealthMetrics,
+  IConcealmentStrategy,
+  IHealthHistory,
+  IPreRollPolicy,
+  IScheduler,
+  ISessionSummary,
+  PlaybackStartReason,
+  TimerHandle,
 } from '../types';
 
 export class AudioBufferManager
   implements IAudioBufferManager
 {
-  private static readonly _sampleRate = 16000;
-  private static readonly _bytesPerSample = 2;
-  private static readonly _bufferCheckIntervalMs = 50;
+  private static readonly _defaultPreRollMaxWaitMs = 1000;
+  private static readonly _overrunDropThresholdMs = 100; // Hard cap above maxBufferMs before frames are dropped
+  private static readonly _concealmentHistoryMs = 60; // Enough for two 20ms pitch periods
 
-  private _buffer: IAudioFrame[] = [];
+  private _buffer: FrameRingBuffer;
   private _config: IAudioBufferConfig;
   private _frameProcessor: FrameProcessor | null;
   private _qualityMonitor: QualityMonitor | null;
-  private _playbackTimer: any = null;
+  private _reorderBuffer: PacketReorderBuffer;
+  private _concealment: IConcealmentStrategy;
+  private _recentFrames: IAudioFrame[] = [];
+  private _consecutiveConcealments: number = 0;
+  private _mediaTimeMs: number = 0;
+  private _playbackTimer: TimerHandle | null = null;
   private _isActive: boolean = false;
+  private _isDraining: boolean = false;
+  private _isFinalPending: boolean = false; // Final chunk seen, waiting on a gap before it
   private _lastPlaybackTime: number = 0;
   private _nextSequenceNumber: number = 0;
   private _currentTurnId: string | null = null;
-  private _encoding: Encoding = EncodingTypes.PCM_S16LE;
-
-  constructor(config?: Partial<IAudioBufferConfig>) {
+  private _clock: IScheduler;
+  private _sink: IAudioSink;
+  private _playbackTracker: PlaybackTracker;
+  private _sinkSubscriptions: IAudioSinkSubscription[] = [];
+  private _events = new TypedEventEmitter<IBufferEventMap>();
+  private _healthState: BufferHealthState = 'idle';
+  private _metricsTimer: TimerHandle | null = null;
+  private _history: HealthHistory;
+  private _sessionSummary: ISessionSummary | null = null; // Frozen when playback stops
+  private _preRollStartTime: number | null = null; // Set while waiting to start playout
+  private _preRollTimer: TimerHandle | null = null; // maxWaitMs timeout
+  private _preRollCheckTimer: TimerHandle | null = null;
+  private _preRollTimedOut: boolean = false;
+  private _rebufferStartTime: number | null = null; // Set while paused to refill
+  private _isPaused: boolean = false;
+
+  constructor(
+    config?: Partial<IAudioBufferConfig>,
+    clock: IScheduler = SystemClock,
+    sink: IAudioSink = NativeAudioSink
+  ) {
+    this._clock = clock;
+    this._sink = sink;
+    this._playbackTracker = new PlaybackTracker(clock);
     this._config = {
       targetBufferMs: 240,
       minBufferMs: 120,
       maxBufferMs: 480,
       frameIntervalMs: 20,
+      reorderWindow: 8,
+      concealment: 'silence',
+      playoutMode: 'fixed',
+      maxTimeStretch: 0.06,
+      eventWindowMs: 5000,
+      playoutClock: 'native',
+      nativeLeadMs: 60,
+      metricsIntervalMs: 0,
+      maxStoredBytes: 0,
+      maxStoredMs: 0,
+      validation: {},
+      historySize: 300,
+      preRoll: {},
+      underrunRecovery: 'conceal',
+      refillThresholdMs: 0,
+      producerProfile: 'realtime',
       ...config,
+      audioFormat: resolveAudioFormat(config?.audioFormat),
     };
 
     this._frameProcessor = new FrameProcessor(
-      this._config.frameIntervalMs
+      this._config.frameIntervalMs,
+      this._config.audioFormat,
+      clock,
+      this._config.validation
+    );
+    this._frameProcessor.setRejectionListener((rejection) =>
+      this._events.emit('chunkRejected', rejection)
     );
     this._qualityMonitor = new QualityMonitor(
-      this._config.frameIntervalMs
+      this._config.frameIntervalMs,
+      this._config.eventWindowMs,
+      clock
+    );
+    this._buffer = new FrameRingBuffer(
+      this._config.maxStoredBytes,
+      this._config.maxStoredMs
+    );
+    this._reorderBuffer = new PacketReorderBuffer(
+      this._config.reorderWindow
     );
+    this._concealment = createConcealmentStrategy(
+      this._config.concealment
+    );
+    this._history = new HealthHistory(this._config.historySize);
   }
 
   /** Set the turn ID for queue management integration */
@@ -52,7 +147,9 @@ export class AudioBufferManager
 
   /** Set the audio encoding format */
   public setEncoding(encoding: Encoding): void {
-    this._encoding = encoding;
+    this.updateConfig({
+      audioFormat: { ...this._config.audioFormat, encoding },
+    });
   }
 
   public enqueueFrames(audioData: IAudioPlayPayload): void {
@@ -60,22 +157,39 @@ export class AudioBufferManager
       return;
     }
 
-    const frames =
-      this._frameProcessor.parseChunk(audioData);
-
-    for (const frame of frames) {
-      this._buffer.push(frame);
+    // Sender-timestamped chunks are measured on arrival, before reordering
+    if (audioData?.timestamp !== undefined) {
       this._qualityMonitor.recordFrameArrival(
-        frame.timestamp
+        this._clock.now(),
+        audioData.timestamp
       );
     }
 
-    const currentBufferMs = this.getCurrentBufferMs();
-    this._qualityMonitor.updateBufferLevel(currentBufferMs);
+    // Rejected chunks leave a sequence gap, which is counted as lost
+    const pcm = this._frameProcessor.decodeChunk(audioData);
+    if (pcm) {
+      this._appendPayloads(
+        this._reorderBuffer.push({ ...audioData, audioData: pcm })
+      );
 
-    if (currentBufferMs > this._config.maxBufferMs) {
-      this._handleOverrun();
+      this._updateBufferLevel();
+
+      if (this._isOverrun()) {
+        this._handleOverrun();
+      }
+
+      this._resumeAfterRefill();
+    }
+
+    // The turn's last chunk, even if rejected: play out the rest and stop
+    // once the chunks sequenced before it have arrived
+    if (audioData?.isFinal) {
+      this._isFinalPending = true;
     }
+    this._drainIfFinalReleased();
+
+    this._schedulePreRollCheck();
+    this._updateHealthState();
   }
 
   public startPlayback(): void {
@@ -84,38 +198,154 @@ export class AudioBufferManager
     }
 
     this._isActive = true;
-    this._lastPlaybackTime = Date.now();
+    this._lastPlaybackTime = this._clock.now();
+    this._history.start(this._clock.now());
+    this._sessionSummary = null;
 
-    const initialWaitMs = Math.min(
-      this._config.targetBufferMs,
-      200
-    );
-    this._waitForBufferFill(initialWaitMs).then(() => {
-      if (this._isActive) {
-        this._startPlaybackLoop();
-      }
-    });
+    if (this._config.playoutClock === 'native') {
+      this._subscribeToSink();
+    }
+    this._scheduleMetrics();
+
+    this._preRollStartTime = this._clock.now();
+    this._preRollTimedOut = false;
+    const { maxWaitMs } = this._getPreRollPolicy();
+    if (maxWaitMs > 0) {
+      this._preRollTimer = this._clock.setTimeout(() => {
+        this._preRollTimer = null;
+        this._preRollTimedOut = true;
+        this._checkPreRoll();
+      }, maxWaitMs);
+    }
+    this._checkPreRoll();
   }
 
   public stopPlayback(): void {
+    this._endRebuffer();
+
+    const wasActive = this._isActive;
+    if (wasActive) {
+      const metrics = this.getHealthMetrics();
+      this._history.recordSnapshot(this._clock.now(), metrics);
+      this._sessionSummary = this._history.getSummary(
+        this._clock.now(),
+        this._currentTurnId,
+        metrics
+      );
+    }
     this._isActive = false;
+    this._preRollStartTime = null;
+    this._clearPreRollTimers();
 
     if (this._playbackTimer) {
-      clearTimeout(this._playbackTimer);
+      this._clock.clearTimeout(this._playbackTimer);
       this._playbackTimer = null;
     }
+    this._clearMetricsTimer();
+
+    for (const subscription of this._sinkSubscriptions) {
+      subscription.remove();
+    }
+    this._sinkSubscriptions = [];
+    this._playbackTracker.reset();
+    this._isDraining = false;
+    this._isFinalPending = false;
+    this._isPaused = false;
 
-    this._buffer = [];
+    this._buffer.clear();
     this._nextSequenceNumber = 0;
+    this._reorderBuffer.reset();
+    this._recentFrames = [];
+    this._consecutiveConcealments = 0;
+    this._mediaTimeMs = 0;
+    this._concealment.reset();
     if (this._frameProcessor) {
       this._frameProcessor.reset();
     }
+
+    this._updateHealthState();
+
+    if (wasActive) {
+      this._events.emit('sessionEnded', this._sessionSummary!);
+    }
+  }
+
+  /**
+   * Freeze playout, keeping everything buffered. Chunks are still
+   * accepted, with overrun handling past maxBufferMs as usual. Only this
+   * buffer stops sending: the native player is shared, so the frames
+   * already queued there (up to nativeLeadMs) play out.
+   */
+  public pause(): void {
+    if (!this._isActive || this._isPaused) {
+      return;
+    }
+
+    this._isPaused = true;
+    if (this._playbackTimer !== null) {
+      this._clock.clearTimeout(this._playbackTimer);
+      this._playbackTimer = null;
+    }
+  }
+
+  /** Continue playout where pause() left it. */
+  public resume(): void {
+    if (!this._isPaused) {
+      return;
+    }
+
+    this._isPaused = false;
+
+    // Pick up whatever playout was waiting for when paused
+    if (this._preRollStartTime !== null) {
+      this._checkPreRoll();
+    } else if (this._rebufferStartTime !== null) {
+      this._resumeAfterRefill();
+    } else {
+      this._startPlaybackLoop();
+    }
+  }
+
+  public isPaused(): boolean {
+    return this._isPaused;
+  }
+
+  /**
+   * Play out everything buffered, including audio below minBufferMs,
+   * then emit drained with isFinal and stop once the last frame has
+   * played. Enqueueing a chunk marked isFinal drains too, once any
+   * sequence gap before it fills or is given up on.
+   */
+  public drain(): void {
+    this._isDraining = true;
+    this._isFinalPending = false;
+
+    if (this._frameProcessor && this._qualityMonitor) {
+      this._appendPayloads(this._reorderBuffer.flush());
+    }
+    this._schedulePreRollCheck();
+    this._resumeAfterRefill();
+  }
+
+  /**
+   * Subscribe to buffer events. Listeners are removed when the manager
+   * is destroyed.
+   */
+  public addListener<K extends BufferEventName>(
+    eventName: K,
+    listener: (event: IBufferEventMap[K]) => void
+  ): EventSubscription {
+    return this._events.addListener(eventName, listener);
   }
 
   public isPlaying(): boolean {
     return this._isActive;
   }
 
+  public isDraining(): boolean {
+    return this._isDraining;
+  }
+
   public getHealthMetrics(): IBufferHealthMetrics {
     if (!this._qualityMonitor) {
       return {
@@ -124,27 +354,124 @@ export class AudioBufferManager
         underrunCount: 0,
         overrunCount: 0,
         averageJitter: 0,
+        interarrivalJitter: 0,
+        jitterP50: 0,
+        jitterP95: 0,
+        jitterP99: 0,
+        delayP50: 0,
+        delayP95: 0,
+        delayP99: 0,
         bufferHealthState: 'idle',
         adaptiveAdjustmentsCount: 0,
+        concealedMs: 0,
+        droppedMs: 0,
+        rebufferCount: 0,
+        rebufferDurationMs: 0,
+        chunksRejected: 0,
+        chunkRejections: createRejectionCounts(),
+        ...this._reorderBuffer.getStats(),
       };
     }
 
-    const metrics = this._qualityMonitor.getMetrics();
+    const metrics = {
+      ...this._qualityMonitor.getMetrics(),
+      ...this._reorderBuffer.getStats(),
+      ...this._frameProcessor!.getStats(),
+    };
     metrics.currentBufferMs = this.getCurrentBufferMs();
     metrics.targetBufferMs = this._config.targetBufferMs; // Fix: Set the actual target from config
-    metrics.bufferHealthState =
-      this._qualityMonitor.getBufferHealthState(
-        this._isActive,
-        0
-      );
+    metrics.bufferHealthState = this._getHealthState();
+    if (this._rebufferStartTime !== null) {
+      metrics.rebufferDurationMs += this._clock.now() - this._rebufferStartTime;
+    }
 
     return metrics;
   }
 
+  /** Health snapshots and state transitions of the current or last session. */
+  public getHealthHistory(): IHealthHistory {
+    return this._history.getHistory();
+  }
+
+  /** Totals of the last session once stopped, or so far while playing. */
+  public getSessionSummary(): ISessionSummary {
+    return (
+      this._sessionSummary ??
+      this._history.getSummary(
+        this._clock.now(),
+        this._currentTurnId,
+        this.getHealthMetrics()
+      )
+    );
+  }
+
   public updateConfig(
     config: Partial<IAudioBufferConfig>
   ): void {
     this._config = { ...this._config, ...config };
+
+    if (config.reorderWindow !== undefined) {
+      this._reorderBuffer.setWindowSize(config.reorderWindow);
+    }
+
+    if (config.eventWindowMs !== undefined && this._qualityMonitor) {
+      this._qualityMonitor.setEventWindow(config.eventWindowMs);
+    }
+
+    if (config.concealment !== undefined) {
+      this._concealment = createConcealmentStrategy(
+        config.concealment
+      );
+    }
+
+    if (config.audioFormat && this._frameProcessor) {
+      this._frameProcessor.setAudioFormat(
+        this._config.audioFormat
+      );
+    }
+
+    if (config.validation && this._frameProcessor) {
+      this._frameProcessor.setValidationPolicy(config.validation);
+    }
+
+    if (
+      config.maxStoredBytes !== undefined ||
+      config.maxStoredMs !== undefined
+    ) {
+      const bufferedMs = this._buffer.durationMs;
+      const evictedFrames = this._buffer.setLimits(
+        this._config.maxStoredBytes,
+        this._config.maxStoredMs
+      );
+      this._reportEvictions(
+        evictedFrames,
+        bufferedMs - this._buffer.durationMs
+      );
+    }
+
+    if (
+      config.preRoll !== undefined ||
+      config.targetBufferMs !== undefined
+    ) {
+      this._schedulePreRollCheck();
+    }
+
+    if (
+      config.underrunRecovery !== undefined ||
+      config.refillThresholdMs !== undefined ||
+      config.targetBufferMs !== undefined
+    ) {
+      this._resumeAfterRefill();
+    }
+
+    if (config.historySize !== undefined) {
+      this._history.setMaxEntries(config.historySize);
+    }
+
+    if (config.metricsIntervalMs !== undefined && this._isActive) {
+      this._clearMetricsTimer();
+      this._scheduleMetrics();
+    }
   }
 
   public applyAdaptiveAdjustments(): void {
@@ -176,20 +503,135 @@ export class AudioBufferManager
 
   public destroy(): void {
     this.stopPlayback();
-    this._buffer.length = 0;
+    this._events.removeAllListeners();
+    this._buffer.clear();
     this._nextSequenceNumber = 0;
     this._qualityMonitor = null;
     this._frameProcessor = null;
   }
 
   public getCurrentBufferMs(): number {
-    if (this._buffer.length === 0) {
-      return 0;
+    return this._buffer.durationMs;
+  }
+
+  /** Parse in-order payloads into frames and append them to the buffer. */
+  private _appendPayloads(payloads: IAudioPlayPayload[]): void {
+    let evictedFrames = 0;
+    let evictedMs = 0;
+
+    for (const payload of payloads) {
+      const frames = this._frameProcessor!.parseChunk(payload);
+
+      // Jitter is measured per network chunk, not per split frame.
+      // Without a sender timestamp, the stream's own media time stands
+      // in for the send time.
+      if (frames.length > 0 && payload.timestamp === undefined) {
+        this._qualityMonitor!.recordFrameArrival(
+          frames[0].timestamp,
+          this._mediaTimeMs
+        );
+      }
+
+      for (const frame of frames) {
+        const bufferedMs = this._buffer.durationMs;
+        const evicted = this._buffer.push(frame);
+        if (evicted > 0) {
+          evictedFrames += evicted;
+          evictedMs += bufferedMs + frame.duration - this._buffer.durationMs;
+        }
+        this._mediaTimeMs += frame.duration;
+      }
     }
 
-    return this._buffer.reduce(
-      (totalMs, frame) => totalMs + frame.duration,
-      0
+    this._reportEvictions(evictedFrames, evictedMs);
+  }
+
+  /** Frames evicted by the storage caps are dropped like an overrun. */
+  private _reportEvictions(evictedFrames: number, evictedMs: number): void {
+    if (evictedFrames === 0) {
+      return;
+    }
+
+    this._qualityMonitor!.recordOverrun();
+    this._qualityMonitor!.recordDroppedAudio(evictedMs);
+    this._events.emit('overrun', {
+      bufferMs: this.getCurrentBufferMs(),
+      droppedFrames: evictedFrames,
+      droppedMs: evictedMs,
+    });
+  }
+
+  /** Follow native playback progress while playout is native-paced. */
+  private _subscribeToSink(): void {
+    this._sinkSubscriptions = [
+      this._sink.addChunkPlayedListener((isFinal) => {
+        this._playbackTracker.onChunkPlayed(isFinal);
+        // A pending playout timer means prefill is over
+        if (this._playbackTimer !== null) {
+          this._pumpNativeQueue();
+        }
+      }),
+      this._sink.addStartedListener(() => {
+        this._playbackTracker.onStarted();
+      }),
+    ];
+  }
+
+  /**
+   * Top the native queue up to nativeLeadMs, then wake when the estimate
+   * says it has drained below that. Native completion events also pump,
+   * so playback progress rather than JS send times sets the pace.
+   */
+  private _pumpNativeQueue(): void {
+    /* istanbul ignore next */
+    if (!this._isActive) return;
+
+    if (this._playbackTimer !== null) {
+      this._clock.clearTimeout(this._playbackTimer);
+      this._playbackTimer = null;
+    }
+
+    this._updateBufferLevel();
+
+    const leadMs = this._config.nativeLeadMs;
+    let queuedMs = this._playbackTracker.getQueuedMs();
+    try {
+      while (queuedMs < leadMs && !this._isDrained()) {
+        if (this._shouldRebuffer()) {
+          this._startRebuffer();
+          break;
+        }
+        if (this._isStarving()) {
+          this._handleUnderrun();
+        } else {
+          this._playNextFrame();
+        }
+
+        const nextQueuedMs = this._playbackTracker.getQueuedMs();
+        if (nextQueuedMs <= queuedMs) {
+          break;
+        }
+        queuedMs = nextQueuedMs;
+      }
+    } catch {
+      /* no-op */
+    }
+
+    this._updateHealthState();
+
+    if (this._isDrained()) {
+      this._finishDrain();
+      return;
+    }
+
+    // Paused: the queue plays out and new audio resumes playout
+    if (this._rebufferStartTime !== null) {
+      return;
+    }
+
+    this._playbackTimer = this._clock.setTimeout(
+      () => this._pumpNativeQueue(),
+      Math.max(1, Math.floor(queuedMs - leadMs) + 1)
     );
   }
 
@@ -197,17 +639,27 @@ export class AudioBufferManager
     /* istanbul ignore next */
     if (!this._isActive) return;
 
-    const currentBufferMs = this.getCurrentBufferMs();
-    /* istanbul ignore next */
-    if (this._qualityMonitor) {
-      /* istanbul ignore next */
-      this._qualityMonitor.updateBufferLevel(
-        currentBufferMs
-      );
+    if (this._config.playoutClock === 'native') {
+      this._pumpNativeQueue();
+      return;
+    }
+
+    if (this._isDrained()) {
+      this._finishDrain();
+      return;
+    }
+
+    this._updateBufferLevel();
+
+    if (this._shouldRebuffer()) {
+      this._startRebuffer();
+      this._playbackTimer = null;
+      this._updateHealthState();
+      return;
     }
 
     try {
-      if (currentBufferMs < this._config.minBufferMs) {
+      if (this._isStarving()) {
         this._handleUnderrun();
       } else {
         this._scheduleNextFrames();
@@ -216,13 +668,153 @@ export class AudioBufferManager
       /* no-op */
     }
 
+    this._updateHealthState();
+
     const nextInterval = this._calculateNextInterval();
-    this._playbackTimer = setTimeout(
+    this._playbackTimer = this._clock.setTimeout(
       () => this._startPlaybackLoop(),
       nextInterval
     );
   }
 
+  /** Report the buffer level to the quality monitor and the session history. */
+  private _updateBufferLevel(): void {
+    const bufferMs = this.getCurrentBufferMs();
+    this._history.recordBufferLevel(
+      this._clock.now(),
+      bufferMs,
+      this._isBursty() ? Infinity : this._config.maxBufferMs
+    );
+
+    /* istanbul ignore next */
+    if (this._qualityMonitor) {
+      this._qualityMonitor.updateBufferLevel(bufferMs);
+    }
+  }
+
+  /**
+   * Below minBufferMs outside drain mode, where underrun handling
+   * applies. In rebuffer mode buffered audio plays out instead.
+   */
+  private _isStarving(): boolean {
+    return (
+      this._config.underrunRecovery === 'conceal' &&
+      !this._isDraining &&
+      this.getCurrentBufferMs() < this._config.minBufferMs
+    );
+  }
+
+  /**
+   * Above maxBufferMs from a realtime producer. A bursty producer's
+   * backlog is expected, so only the storage caps bound it.
+   */
+  private _isOverrun(): boolean {
+    return (
+      !this._isBursty() &&
+      this.getCurrentBufferMs() > this._config.maxBufferMs
+    );
+  }
+
+  private _isBursty(): boolean {
+    return this._config.producerProfile === 'bursty';
+  }
+
+  /** Out of audio in rebuffer mode, once late chunks are given up on. */
+  private _shouldRebuffer(): boolean {
+    if (
+      this._config.underrunRecovery !== 'rebuffer' ||
+      this._isDraining ||
+      this._buffer.length > 0
+    ) {
+      return false;
+    }
+
+    /* istanbul ignore next */
+    if (this._frameProcessor && this._qualityMonitor) {
+      this._appendPayloads(this._reorderBuffer.flush());
+    }
+    this._drainIfFinalReleased();
+    return !this._isDraining && this._buffer.length === 0;
+  }
+
+  /** Drain once a final chunk no longer waits on a gap before it. */
+  private _drainIfFinalReleased(): void {
+    if (this._isFinalPending && this._reorderBuffer.getHeldCount() === 0) {
+      this.drain();
+    }
+  }
+
+  /** Pause playout until refillThresholdMs is buffered again. */
+  private _startRebuffer(): void {
+    this._rebufferStartTime = this._clock.now();
+
+    /* istanbul ignore next */
+    if (this._qualityMonitor) {
+      this._qualityMonitor.recordRebuffer();
+    }
+    this._events.emit('rebuffering', {
+      bufferMs: this.getCurrentBufferMs(),
+      minBufferMs: this._config.minBufferMs,
+    });
+  }
+
+  /**
+   * Resume a paused playout once the refill threshold is met, when
+   * draining begins, or when rebuffer mode is switched off.
+   */
+  private _resumeAfterRefill(): void {
+    if (this._rebufferStartTime === null || this._isPaused) {
+      return;
+    }
+
+    const thresholdMs =
+      this._config.refillThresholdMs || this._config.targetBufferMs;
+    if (
+      this._config.underrunRecovery === 'rebuffer' &&
+      !this._isDraining &&
+      this.getCurrentBufferMs() < thresholdMs
+    ) {
+      return;
+    }
+
+    this._endRebuffer();
+    this._startPlaybackLoop();
+  }
+
+  private _endRebuffer(): void {
+    if (this._rebufferStartTime === null) {
+      return;
+    }
+
+    /* istanbul ignore next */
+    if (this._qualityMonitor) {
+      this._qualityMonitor.recordRebufferTime(
+        this._clock.now() - this._rebufferStartTime
+      );
+    }
+    this._rebufferStartTime = null;
+  }
+
+  /** Draining with nothing left to send. */
+  private _isDrained(): boolean {
+    return this._isDraining && this._buffer.length === 0;
+  }
+
+  /** Wait for the native queue to play out, then stop and emit drained. */
+  private _finishDrain(): void {
+    const queuedMs = this._playbackTracker.getQueuedMs();
+    if (queuedMs > 0) {
+      this._playbackTimer = this._clock.setTimeout(
+        () => this._finishDrain(),
+        Math.ceil(queuedMs)
+      );
+      return;
+    }
+
+    this.stopPlayback();
+    this._events.emit('drained', { isFinal: true });
+  }
+
   private _scheduleNextFrames(): void {
     const currentBufferMs = this.getCurrentBufferMs();
     let maxScheduledFrames = 2;
@@ -255,6 +847,85 @@ export class AudioBufferManager
       return;
     }
 
+    this._consecutiveConcealments = 0;
+    const played =
+      this._config.playoutMode === 'timeStretch'
+        ? this._timeStretchFrame(frame)
+        : frame;
+    this._playFrame(played);
+    this._history.recordPlayed(this._clock.now(), played.duration);
+
+    if (this._buffer.length === 0 && !this._isDraining) {
+      this._events.emit('drained', {
+        isFinal: frame.data.isFinal ?? false,
+      });
+    }
+  }
+
+  /**
+   * Shorten frames slightly while the buffer is above target and
+   * lengthen them while it drains toward the minimum, so the level
+   * converges on target without skipping audio.
+   */
+  private _timeStretchFrame(frame: IAudioFrame): IAudioFrame {
+    const rate = this._getPlayoutRate();
+    if (rate === 1) {
+      return frame;
+    }
+
+    const format = this._config.audioFormat;
+    const samples = decodePcmSamples(
+      audioDataToBytes(frame.data.audioData),
+      format.encoding
+    );
+    const stretched = timeStretch(samples, rate, format);
+    if (stretched === samples) {
+      return frame;
+    }
+
+    const bytes = encodePcmSamples(stretched, format.encoding);
+    return {
+      ...frame,
+      data: { ...frame.data, audioData: bytes },
+      duration: bytesToDurationMs(bytes.length, format),
+    };
+  }
+
+  /**
+   * Playback speed for the next frame, 1 inside the target band. A
+   * bursty producer's backlog is not sped through.
+   */
+  private _getPlayoutRate(): number {
+    const {
+      targetBufferMs,
+      minBufferMs,
+      maxBufferMs,
+      frameIntervalMs,
+      maxTimeStretch,
+    } = this._config;
+    const bufferMs = this.getCurrentBufferMs();
+
+    if (bufferMs > targetBufferMs + frameIntervalMs) {
+      if (this._isBursty()) {
+        return 1;
+      }
+      const excess =
+        (bufferMs - targetBufferMs) /
+        Math.max(frameIntervalMs, maxBufferMs - targetBufferMs);
+      return 1 + maxTimeStretch * Math.min(1, excess);
+    }
+
+    if (bufferMs < targetBufferMs - frameIntervalMs) {
+      const deficit =
+        (targetBufferMs - bufferMs) /
+        Math.max(frameIntervalMs, targetBufferMs - minBufferMs);
+      return 1 - maxTimeStretch * Math.min(1, deficit);
+    }
+
+    return 1;
+  }
+
+  private _playFrame(frame: IAudioFrame): void {
     /* istanbul ignore next */
     try {
       // Use the turnId with sequence number suffix for individual frames
@@ -262,29 +933,75 @@ export class AudioBufferManager
         ? `${this._currentTurnId}-frame-${frame.sequenceNumber}`
         : `buffered-frame-${frame.sequenceNumber}`;
 
-      ExpoPlayAudioStreamModule.playSound(
-        frame.data.audioData,
-        playbackId,
-        this._encoding
-      );
-      this._lastPlaybackTime = Date.now();
+      // Frames hold raw PCM; the native bridge still takes base64
+      this._sink
+        .play(
+          audioDataToBase64(frame.data.audioData),
+          playbackId,
+          this._config.audioFormat.encoding
+        )
+        .catch(() => {
+          /* no-op */
+        });
+      this._lastPlaybackTime = this._clock.now();
+      this._playbackTracker.onFrameQueued(frame);
     /* istanbul ignore next */
     } catch {
       /* istanbul ignore next */
       /* no-op */
     }
+
+    this._rememberPlayedFrame(frame);
+  }
+
+  /** Keep just enough played audio for concealment to continue from. */
+  private _rememberPlayedFrame(frame: IAudioFrame): void {
+    this._recentFrames.push(frame);
+
+    let retainedMs = this._recentFrames.reduce(
+      (totalMs, recent) => totalMs + recent.duration,
+      0
+    );
+    while (
+      this._recentFrames.length > 1 &&
+      retainedMs - this._recentFrames[0].duration >=
+        AudioBufferManager._concealmentHistoryMs
+    ) {
+      retainedMs -= this._recentFrames.shift()!.duration;
+    }
   }
 
   /* istanbul ignore next */
   private _handleUnderrun(): void {
+    // Stop waiting for missing chunks once playback is starving
+    if (this._frameProcessor && this._qualityMonitor) {
+      this._appendPayloads(this._reorderBuffer.flush());
+      this._drainIfFinalReleased();
+      if (
+        this._isDraining ||
+        this.getCurrentBufferMs() >= this._config.minBufferMs
+      ) {
+        return;
+      }
+    }
+
     /* istanbul ignore next */
     if (this._qualityMonitor) {
       /* istanbul ignore next */
       this._qualityMonitor.recordUnderrun();
     }
 
-    /* istanbul ignore next */
-    this._insertSilenceFrame();
+    const bufferMs = this.getCurrentBufferMs();
+    if (this._consecutiveConcealments === 0) {
+      this._events.emit('rebuffering', {
+        bufferMs,
+        minBufferMs: this._config.minBufferMs,
+      });
+    }
+    this._events.emit('underrun', { bufferMs });
+    this._history.recordUnderrun(this._clock.now());
+
+    this._playConcealmentFrame();
   }
 
   /* istanbul ignore next */
@@ -295,124 +1012,148 @@ export class AudioBufferManager
       this._qualityMonitor.recordOverrun();
     }
 
-    const excessMs =
-      this.getCurrentBufferMs() - this._config.maxBufferMs;
+    const bufferMs = this.getCurrentBufferMs();
+    const excessMs = bufferMs - this._config.maxBufferMs;
+    let droppedFrames = 0;
 
-    if (excessMs > 100) {
+    // Time stretching can only recover a few percent, so past the
+    // hard cap frames are dropped in every playout mode
+    if (excessMs > AudioBufferManager._overrunDropThresholdMs) {
       const framesToDrop = Math.floor(
         excessMs / this._config.frameIntervalMs
       );
 
       for (
         let i = 0;
-        i < framesToDrop && this._buffer.length > 0;
+        i < framesToDrop && this._buffer.drop();
         i++
       ) {
-        this._buffer.shift();
+        droppedFrames++;
       }
     }
+
+    const droppedMs = bufferMs - this.getCurrentBufferMs();
+    /* istanbul ignore next */
+    if (this._qualityMonitor) {
+      this._qualityMonitor.recordDroppedAudio(droppedMs);
+    }
+    this._events.emit('overrun', { bufferMs, droppedFrames, droppedMs });
+  }
+
+  /** The monitor's assessment, overridden while paused to refill. */
+  private _getHealthState(): BufferHealthState {
+    if (this._rebufferStartTime !== null) {
+      return 'rebuffering';
+    }
+    return this._qualityMonitor!.getBufferHealthState(this._isActive, 0);
   }
 
-  private _insertSilenceFrame(): void {
-    const samplesNeeded = Math.floor(
-      (this._config.frameIntervalMs *
-        AudioBufferManager._sampleRate) /
-        1000
+  /** Emit healthStateChanged when the assessed state moves. */
+  private _updateHealthState(): void {
+    if (!this._qualityMonitor) {
+      return;
+    }
+
+    const state = this._getHealthState();
+    if (state === this._healthState) {
+      return;
+    }
+
+    const previousState = this._healthState;
+    this._healthState = state;
+    this._history.recordTransition(this._clock.now(), previousState, state);
+    this._events.emit('healthStateChanged', {
+      previousState,
+      state,
+      metrics: this.getHealthMetrics(),
+    });
+  }
+
+  /** Emit periodic metrics while playing, if an interval is configured. */
+  private _scheduleMetrics(): void {
+    if (this._config.metricsIntervalMs <= 0) {
+      return;
+    }
+
+    this._metricsTimer = this._clock.setTimeout(() => {
+      const metrics = this.getHealthMetrics();
+      this._history.recordSnapshot(this._clock.now(), metrics);
+      this._events.emit('metrics', metrics);
+      this._scheduleMetrics();
+    }, this._config.metricsIntervalMs);
+  }
+
+  private _clearMetricsTimer(): void {
+    if (this._metricsTimer !== null) {
+      this._clock.clearTimeout(this._metricsTimer);
+      this._metricsTimer = null;
+    }
+  }
+
+  /**
+   * Play one frame of synthesized audio straight away so the native
+   * queue keeps running while the buffer refills.
+   */
+  private _playConcealmentFrame(): void {
+    const format = this._config.audioFormat;
+    const bytesNeeded = durationMsToBytes(
+      this._config.frameIntervalMs,
+      format
     );
-    const bytesNeeded =
-      samplesNeeded * AudioBufferManager._bytesPerSample;
 
-    const silenceBuffer = new ArrayBuffer(bytesNeeded);
-    const silenceBase64 =
-      this._arrayBufferToBase64(silenceBuffer);
+    const samples = this._concealment.conceal({
+      history: this._getPlayedHistory(),
+      sampleFrames: bytesNeeded / getBlockAlign(format),
+      format,
+      consecutiveCount: this._consecutiveConcealments++,
+    });
 
-    const silenceFrame: IAudioFrame = {
+    const concealedFrame: IAudioFrame = {
       sequenceNumber: this._nextSequenceNumber++,
       data: {
-        audioData: silenceBase64,
+        audioData: encodePcmSamples(samples, format.encoding),
         isFirst: false,
         isFinal: false,
       },
-      duration: this._config.frameIntervalMs,
-      timestamp: Date.now(),
+      duration: bytesToDurationMs(bytesNeeded, format),
+      timestamp: this._clock.now(),
     };
 
-    this._buffer.unshift(silenceFrame);
-  }
-
-  private _arrayBufferToBase64(
-    buffer: ArrayBuffer
-  ): string {
-    const bytes = new Uint8Array(buffer);
-    let binaryString = '';
-
-    for (let i = 0; i < bytes.length; i++) {
-      binaryString += String.fromCharCode(bytes[i]);
-    }
+    this._playFrame(concealedFrame);
 
     /* istanbul ignore next */
-    if (typeof btoa !== 'undefined') {
-      /* istanbul ignore next */
-      return btoa(binaryString);
+    if (this._qualityMonitor) {
+      this._qualityMonitor.recordConcealment(
+        concealedFrame.duration
+      );
     }
+  }
 
-    /* istanbul ignore next */
-    const chars =
-      'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
-    /* istanbul ignore next */
-    let result = '';
-    /* istanbul ignore next */
-    let i = 0;
-
-    /* istanbul ignore next */
-    while (i < binaryString.length) {
-      /* istanbul ignore next */
-      const a = binaryString.charCodeAt(i++);
-      /* istanbul ignore next */
-      const b =
-        i < binaryString.length
-          ? binaryString.charCodeAt(i++)
-          : 0;
-      /* istanbul ignore next */
-      const c =
-        i < binaryString.length
-          ? binaryString.charCodeAt(i++)
-          : 0;
-
-      /* istanbul ignore next */
-      const bitmap = (a << 16) | (b << 8) | c;
+  /** Decode recently played frames into normalized samples. */
+  private _getPlayedHistory(): Float32Array {
+    const chunks = this._recentFrames.map((frame) =>
+      audioDataToBytes(frame.data.audioData)
+    );
+    const bytes = new Uint8Array(
+      chunks.reduce((total, chunk) => total + chunk.length, 0)
+    );
 
-      /* istanbul ignore next */
-      result += chars.charAt((bitmap >> 18) & 63);
-      /* istanbul ignore next */
-      result += chars.charAt((bitmap >> 12) & 63);
-      /* istanbul ignore next */
-      result += chars.charAt((bitmap >> 6) & 63);
-      /* istanbul ignore next */
-      result += chars.charAt(bitmap & 63);
+    let offset = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
     }
 
-    /* istanbul ignore next */
-    const padding = (3 - (binaryString.length % 3)) % 3;
-    /* istanbul ignore next */
-    let finalResult = result.slice(
-      0,
-      result.length - padding
+    return decodePcmSamples(
+      bytes,
+      this._config.audioFormat.encoding
     );
-    /* istanbul ignore next */
-    for (let j = 0; j < padding; j++) {
-      /* istanbul ignore next */
-      finalResult += '=';
-    }
-
-    /* istanbul ignore next */
-    return finalResult;
   }
 
   private _calculateNextInterval(): number {
     const expectedTime =
       this._lastPlaybackTime + this._config.frameIntervalMs;
-    const currentTime = Date.now();
+    const currentTime = this._clock.now();
     const drift = currentTime - expectedTime;
 
     return Math.max(
@@ -421,29 +1162,89 @@ export class AudioBufferManager
     );
   }
 
-  private _waitForBufferFill(targetMs: number): { then: (onResolve: () => void) => void } {
-    const self = this;
-
+  /** The pre-roll policy with defaults filled in. */
+  private _getPreRollPolicy(): IPreRollPolicy {
     return {
-      then: function (onResolve: () => void) {
-        const checkBuffer = (): void => {
-          if (
-            self.getCurrentBufferMs() >= targetMs ||
-            !self._isActive
-          ) {
-            onResolve();
-            /* istanbul ignore next */
-            return;
-          }
-
-          setTimeout(
-            checkBuffer,
-            AudioBufferManager._bufferCheckIntervalMs
-          );
-        };
-
-        checkBuffer();
-      },
+      startThresholdMs: this._config.targetBufferMs,
+      maxWaitMs: AudioBufferManager._defaultPreRollMaxWaitMs,
+      startOnFinal: true,
+      immediate: false,
+      ...this._config.preRoll,
     };
   }
+
+  /**
+   * Check the pre-roll on the next tick as audio arrives or draining
+   * begins, so a burst of chunks delivered together lands first.
+   */
+  private _schedulePreRollCheck(): void {
+    if (
+      this._preRollStartTime === null ||
+      this._preRollCheckTimer !== null
+    ) {
+      return;
+    }
+
+    this._preRollCheckTimer = this._clock.setTimeout(() => {
+      this._preRollCheckTimer = null;
+      this._checkPreRoll();
+    }, 0);
+  }
+
+  /**
+   * Start the playout loop once the pre-roll policy is met. Checked on
+   * start, as audio arrives and when the wait times out, so nothing polls.
+   */
+  private _checkPreRoll(): void {
+    /* istanbul ignore next */
+    if (this._preRollStartTime === null) {
+      return;
+    }
+
+    const reason = this._isPaused ? null : this._getStartReason();
+    if (!reason) {
+      return;
+    }
+
+    const waitedMs = this._clock.now() - this._preRollStartTime;
+    this._preRollStartTime = null;
+    this._clearPreRollTimers();
+    this._events.emit('playbackStarted', {
+      reason,
+      preRollMs: this.getCurrentBufferMs(),
+      waitedMs,
+    });
+    this._startPlaybackLoop();
+  }
+
+  private _getStartReason(): PlaybackStartReason | null {
+    const policy = this._getPreRollPolicy();
+    const bufferMs = this.getCurrentBufferMs();
+
+    if (policy.immediate && bufferMs > 0) {
+      return 'immediate';
+    }
+    if (bufferMs >= policy.startThresholdMs) {
+      return 'threshold';
+    }
+    if (this._isDraining && policy.startOnFinal) {
+      return 'final';
+    }
+    // After the timeout, wait only for the first audio, or nothing once draining
+    if (this._preRollTimedOut && (bufferMs > 0 || this._isDraining)) {
+      return 'timeout';
+    }
+    return null;
+  }
+
+  private _clearPreRollTimers(): void {
+    if (this._preRollTimer !== null) {
+      this._clock.clearTimeout(this._preRollTimer);
+      this._preRollTimer = null;
+    }
+    if (this._preRollCheckTimer !== null) {
+      this._clock.clearTimeout(this._preRollCheckTimer);
+      this._preRollCheckTimer = null;
+    }
+  }
 }
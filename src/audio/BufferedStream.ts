@@ -0,0 +1,254 @@
+import type { EventSubscription } from 'expo-modules-core';
+import { AudioBufferManager } from './BufferManagerCore';
+import { resolveAudioFormat } from './AudioFormat';
+import { SystemClock } from './Clock';
+import { NativeAudioSink } from './NativeAudioSink';
+import ExpoPlayAudioStreamModule from '../ExpoPlayAudioStreamModule';
+import {
+  AudioChunkData,
+  BufferEventName,
+  BufferedStreamConfig,
+  IAudioBufferConfig,
+  IAudioPlayPayload,
+  IAudioSink,
+  IBufferEventMap,
+  IBufferHealthMetrics,
+  IHealthHistory,
+  IScheduler,
+  ISessionSummary,
+} from '../types';
+
+type BufferedStreamState = 'streaming' | 'ending' | 'closed';
+
+/**
+ * Handle for one jitter-buffered turn. Write chunks as they arrive, then
+ * end() to play out what is left or abort() to drop it. done resolves
+ * once the stream has closed either way.
+ */
+export class BufferedStream
+  implements AsyncIterable<IBufferHealthMetrics>
+{
+  private static readonly _defaultMetricsIntervalMs = 1000;
+  private static readonly _maxPendingSnapshots = 32; // Oldest unread snapshots are dropped past this
+
+  public readonly turnId: string;
+  public readonly done: Promise<void>;
+
+  private _manager: AudioBufferManager;
+  private _state: BufferedStreamState = 'streaming';
+  private _resolveDone!: () => void;
+
+  constructor(
+    config: BufferedStreamConfig,
+    clock: IScheduler = SystemClock,
+    sink: IAudioSink = NativeAudioSink
+  ) {
+    this.turnId = config.turnId;
+    this.done = new Promise<void>((resolve) => {
+      this._resolveDone = resolve;
+    });
+
+    this._manager = new AudioBufferManager(
+      {
+        ...config.bufferConfig,
+        producerProfile:
+          config.producerProfile ??
+          config.bufferConfig?.producerProfile ??
+          'realtime',
+        metricsIntervalMs:
+          config.bufferConfig?.metricsIntervalMs ??
+          BufferedStream._defaultMetricsIntervalMs,
+        audioFormat: resolveAudioFormat(
+          config.bufferConfig?.audioFormat,
+          {
+            sampleRate: config.sampleRate,
+            encoding: config.encoding,
+            channels: config.channels,
+          }
+        ),
+      },
+      clock,
+      sink
+    );
+    this._manager.setTurnId(config.turnId);
+
+    if (config.onBufferHealth) {
+      this._manager.addListener('metrics', config.onBufferHealth);
+    }
+    this._manager.addListener('drained', ({ isFinal }) => {
+      if (isFinal && this._state === 'ending') {
+        this._close();
+      }
+    });
+
+    this._manager.startPlayback();
+  }
+
+  /** Latest buffer health snapshot. */
+  public get metrics(): IBufferHealthMetrics {
+    return this._manager.getHealthMetrics();
+  }
+
+  /** Health snapshots and state transitions so far, kept after the stream closes. */
+  public get healthHistory(): IHealthHistory {
+    return this._manager.getHealthHistory();
+  }
+
+  /**
+   * Session totals, final once the stream has closed. Also emitted as
+   * sessionEnded when playback stops.
+   */
+  public get summary(): ISessionSummary {
+    return this._manager.getSessionSummary();
+  }
+
+  /**
+   * Whether the stream is accepting chunks: open, or ended by a final
+   * chunk whose earlier sequence numbers may still arrive.
+   */
+  public get isWritable(): boolean {
+    return (
+      this._state === 'streaming' ||
+      (this._state === 'ending' && !this._manager.isDraining())
+    );
+  }
+
+  /**
+   * Buffer a base64 encoded or binary chunk for playback. A chunk marked
+   * isFinal ends the stream, like end(), though chunks sequenced before
+   * it are still accepted until the gap is filled or given up on.
+   * @throws {Error} If the stream has been ended or aborted.
+   */
+  public write(
+    chunk: AudioChunkData,
+    options?: Pick<
+      IAudioPlayPayload,
+      'isFirst' | 'isFinal' | 'sequenceNumber' | 'timestamp' | 'sentAt'
+    >
+  ): void {
+    if (!this.isWritable) {
+      throw new Error(
+        `Buffered stream for turnId ${this.turnId} has already ended`
+      );
+    }
+
+    // The manager drains itself once the final chunk is released
+    if (options?.isFinal) {
+      this._state = 'ending';
+    }
+
+    this._manager.enqueueFrames({
+      audioData: chunk,
+      isFirst: options?.isFirst ?? false,
+      isFinal: options?.isFinal ?? false,
+      sequenceNumber: options?.sequenceNumber,
+      timestamp: options?.timestamp,
+      sentAt: options?.sentAt,
+    });
+  }
+
+  /** Stop accepting chunks and play out everything buffered. */
+  public end(): void {
+    if (!this.isWritable) {
+      return;
+    }
+
+    this._state = 'ending';
+    this._manager.drain();
+  }
+
+  /** Drop buffered audio and clear this turn from the native queue. */
+  public async abort(): Promise<void> {
+    if (this._state === 'closed') {
+      return;
+    }
+
+    this._close();
+    await ExpoPlayAudioStreamModule.clearSoundQueueByTurnId(
+      this.turnId
+    );
+  }
+
+  /** Hold playback, still accepting chunks. */
+  public pause(): void {
+    this._manager.pause();
+  }
+
+  public resume(): void {
+    this._manager.resume();
+  }
+
+  public isPlaying(): boolean {
+    return this._manager.isPlaying();
+  }
+
+  public isPaused(): boolean {
+    return this._manager.isPaused();
+  }
+
+  public updateConfig(config: Partial<IAudioBufferConfig>): void {
+    this._manager.updateConfig(config);
+    this._manager.applyAdaptiveAdjustments();
+  }
+
+  /** Subscribe to buffer events until the stream closes. */
+  public addListener<K extends BufferEventName>(
+    eventName: K,
+    listener: (event: IBufferEventMap[K]) => void
+  ): EventSubscription {
+    return this._manager.addListener(eventName, listener);
+  }
+
+  /**
+   * Health snapshots at bufferConfig.metricsIntervalMs, ending when the
+   * stream closes.
+   */
+  public [Symbol.asyncIterator](): AsyncIterator<IBufferHealthMetrics> {
+    const pending: IBufferHealthMetrics[] = [];
+    let finished = this._state === 'closed';
+    let wake: (() => void) | null = null;
+
+    const subscription = this._manager.addListener(
+      'metrics',
+      (metrics) => {
+        pending.push(metrics);
+        if (pending.length > BufferedStream._maxPendingSnapshots) {
+          pending.shift();
+        }
+        wake?.();
+      }
+    );
+    this.done.then(() => {
+      finished = true;
+      wake?.();
+    });
+
+    const finish = (): IteratorResult<IBufferHealthMetrics> => {
+      finished = true;
+      subscription.remove();
+      return { value: undefined, done: true };
+    };
+
+    return {
+      next: async () => {
+        while (pending.length === 0 && !finished) {
+          await new Promise<void>((resolve) => {
+            wake = resolve;
+          });
+          wake = null;
+        }
+
+        return pending.length > 0
+          ? { value: pending.shift()!, done: false }
+          : finish();
+      },
+      return: async () => finish(),
+    };
+  }
+
+  private _close(): void {
+    this._state = 'closed';
+    this._manager.destroy();
+    this._resolveDone();
+  }
+}
@@ -0,0 +1,38 @@
+import {
+  ChunkRejectionCounts,
+  ChunkRejectionReason,
+  IChunkValidationPolicy,
+} from '../types';
+
+/** Used for any policy fields left unset. */
+export const DefaultChunkValidationPolicy: Readonly<IChunkValidationPolicy> = {
+  maxChunkBytes: 64 * 1024,
+  base64: 'lenient',
+  partialSamples: 'carry',
+  minChunkMs: 0,
+  maxChunkMs: 0,
+  onRejection: 'event',
+};
+
+/** Thrown for rejected chunks when the policy's onRejection is 'throw'. */
+export class ChunkRejectedError extends Error {
+  public readonly reason: ChunkRejectionReason;
+
+  constructor(reason: ChunkRejectionReason, message: string) {
+    super(message);
+    this.name = 'ChunkRejectedError';
+    this.reason = reason;
+  }
+}
+
+/** Rejection counts with every reason at zero. */
+export function createRejectionCounts(): ChunkRejectionCounts {
+  return {
+    invalidPayload: 0,
+    invalidBase64: 0,
+    tooLarge: 0,
+    partialSample: 0,
+    tooShort: 0,
+    tooLong: 0,
+  };
+}
@@ -0,0 +1,105 @@
+import { IScheduler, TimerHandle } from '../types';
+
+/**
+ * Wall-clock time and the global timer functions. Globals are looked up
+ * on every call, so test fake timers installed later still apply.
+ */
+export const SystemClock: IScheduler = {
+  now: () => Date.now(),
+  setTimeout: (callback, delayMs) => setTimeout(callback, delayMs),
+  clearTimeout: (handle) =>
+    clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+interface VirtualTimer {
+  id: number;
+  dueTime: number;
+  callback: () => void;
+}
+
+/**
+ * Manually advanced clock for deterministic tests and simulations.
+ * Timers run in due-time order (then scheduling order) while time is
+ * advanced, with now() reporting each timer's due time as it runs.
+ */
+export class VirtualClock implements IScheduler {
+  private _now: number;
+  private _nextId: number = 1;
+  private _timers: VirtualTimer[] = [];
+
+  constructor(startTime: number = 0) {
+    this._now = startTime;
+  }
+
+  public now(): number {
+    return this._now;
+  }
+
+  public setTimeout(
+    callback: () => void,
+    delayMs: number
+  ): TimerHandle {
+    const timer: VirtualTimer = {
+      id: this._nextId++,
+      dueTime: this._now + Math.max(0, delayMs || 0),
+      callback,
+    };
+
+    // Keep timers sorted, after existing timers due at the same time
+    let index = this._timers.length;
+    while (
+      index > 0 &&
+      this._timers[index - 1].dueTime > timer.dueTime
+    ) {
+      index--;
+    }
+    this._timers.splice(index, 0, timer);
+
+    return timer.id;
+  }
+
+  public clearTimeout(handle: TimerHandle): void {
+    this._timers = this._timers.filter(
+      (timer) => timer.id !== handle
+    );
+  }
+
+  /** Move time forward, running every timer that falls due. */
+  public advance(durationMs: number): void {
+    const endTime = this._now + durationMs;
+
+    while (
+      this._timers.length > 0 &&
+      this._timers[0].dueTime <= endTime
+    ) {
+      const timer = this._timers.shift()!;
+      this._now = timer.dueTime;
+      timer.callback();
+    }
+
+    this._now = endTime;
+  }
+
+  /**
+   * Run timers until none are left, up to a limit so that
+   * self-rescheduling loops cannot run forever.
+   * Returns the number of timers run.
+   */
+  public runAll(maxTimers: number = 10000): number {
+    let count = 0;
+
+    while (this._timers.length > 0 && count < maxTimers) {
+      const timer = this._timers.shift()!;
+      this._now = timer.dueTime;
+      timer.callback();
+      count++;
+    }
+
+    return count;
+  }
+
+  /** Number of timers waiting to run. */
+  public getPendingTimerCount(): number {
+    return this._timers.length;
+  }
+}
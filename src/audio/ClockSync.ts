@@ -0,0 +1,162 @@
+import { IClockSyncSample, NetworkConditions } from '../types';
+
+interface OffsetSample {
+  offsetMs: number;
+  roundTripMs: number;
+}
+
+/**
+ * Estimates the sender's clock offset from ping/pong samples, NTP style.
+ * The offset comes from the recent sample with the shortest round trip,
+ * which queueing delay has distorted least.
+ */
+export class ClockOffsetEstimator {
+  private static readonly _maxSamples = 8; // NTP's clock filter keeps eight
+  private static readonly _roundTripGain = 1 / 8; // RFC 6298 smoothed RTT
+
+  private _samples: OffsetSample[] = [];
+  private _smoothedRoundTripMs: number = 0;
+
+  /** Add a ping/pong exchange. Samples with a negative round trip are ignored. */
+  public addSample(sample: IClockSyncSample): void {
+    const serverSendTime =
+      sample.serverSendTime ?? sample.serverReceiveTime;
+    const roundTripMs =
+      sample.clientReceiveTime -
+      sample.clientSendTime -
+      (serverSendTime - sample.serverReceiveTime);
+
+    if (roundTripMs < 0) {
+      return;
+    }
+
+    const offsetMs =
+      (sample.serverReceiveTime -
+        sample.clientSendTime +
+        (serverSendTime - sample.clientReceiveTime)) /
+      2;
+
+    this._smoothedRoundTripMs =
+      this._samples.length === 0
+        ? roundTripMs
+        : this._smoothedRoundTripMs +
+          (roundTripMs - this._smoothedRoundTripMs) *
+            ClockOffsetEstimator._roundTripGain;
+
+    this._samples.push({ offsetMs, roundTripMs });
+    if (this._samples.length > ClockOffsetEstimator._maxSamples) {
+      this._samples.shift();
+    }
+  }
+
+  public hasEstimate(): boolean {
+    return this._samples.length > 0;
+  }
+
+  /** Sender clock minus local clock in ms, 0 before any sample. */
+  public getOffsetMs(): number {
+    if (this._samples.length === 0) {
+      return 0;
+    }
+
+    return this._samples.reduce((best, sample) =>
+      sample.roundTripMs < best.roundTripMs ? sample : best
+    ).offsetMs;
+  }
+
+  /** Smoothed round-trip time in ms, 0 before any sample. */
+  public getRoundTripMs(): number {
+    return this._smoothedRoundTripMs;
+  }
+
+  /** Convert a sender clock reading to local time. */
+  public toLocalTime(senderTime: number): number {
+    return senderTime - this.getOffsetMs();
+  }
+
+  public reset(): void {
+    this._samples = [];
+    this._smoothedRoundTripMs = 0;
+  }
+}
+
+/**
+ * Derives one-way delay and delay variation from chunk send times.
+ *
+ * Transit time (arrival minus send time) is tracked on the raw clocks,
+ * so the variation needs no clock sync and a later offset estimate still
+ * applies to transit measured before it.
+ */
+export class OneWayDelayEstimator {
+  private static readonly _transitGain = 1 / 8; // Same smoothing as RFC 6298 RTT
+  private static readonly _variationGain = 1 / 16; // RFC 3550 section 6.4.1
+
+  private _clockOffset: ClockOffsetEstimator;
+  private _smoothedTransitMs: number = 0;
+  private _delayVariationMs: number = 0;
+  private _lastTransitMs: number | null = null;
+
+  constructor(clockOffset: ClockOffsetEstimator) {
+    this._clockOffset = clockOffset;
+  }
+
+  /** Record a chunk sent at sentAt (sender clock) arriving at arrivalTime (local). */
+  public recordArrival(sentAt: number, arrivalTime: number): void {
+    const transitMs = arrivalTime - sentAt;
+
+    if (this._lastTransitMs === null) {
+      this._smoothedTransitMs = transitMs;
+    } else {
+      this._smoothedTransitMs +=
+        (transitMs - this._smoothedTransitMs) *
+        OneWayDelayEstimator._transitGain;
+      this._delayVariationMs +=
+        (Math.abs(transitMs - this._lastTransitMs) -
+          this._delayVariationMs) *
+        OneWayDelayEstimator._variationGain;
+    }
+
+    this._lastTransitMs = transitMs;
+  }
+
+  /** Smoothed one-way delay in ms, or null without arrivals and clock sync. */
+  public getOneWayDelayMs(): number | null {
+    if (this._lastTransitMs === null || !this._clockOffset.hasEstimate()) {
+      return null;
+    }
+
+    // Asymmetric paths can make the estimate dip below zero
+    return Math.max(
+      0,
+      this._smoothedTransitMs + this._clockOffset.getOffsetMs()
+    );
+  }
+
+  public getDelayVariationMs(): number {
+    return this._delayVariationMs;
+  }
+
+  /** Whatever has been measured so far, ready to merge into NetworkConditions. */
+  public getNetworkConditions(): Partial<NetworkConditions> {
+    const conditions: Partial<NetworkConditions> = {};
+    const oneWayDelay = this.getOneWayDelayMs();
+
+    if (this._clockOffset.hasEstimate()) {
+      conditions.latency = this._clockOffset.getRoundTripMs();
+    }
+    if (oneWayDelay !== null) {
+      conditions.oneWayDelay = oneWayDelay;
+    }
+    if (this._lastTransitMs !== null) {
+      conditions.delayVariation = this._delayVariationMs;
+    }
+
+    return conditions;
+  }
+
+  public reset(): void {
+    this._smoothedTransitMs = 0;
+    this._delayVariationMs = 0;
+    this._lastTransitMs = null;
+  }
+}
@@ -0,0 +1,279 @@
+import {
+  ConcealmentMode,
+  IConcealmentContext,
+  IConcealmentStrategy,
+} from '../types';
+
+/** Take the last `sampleFrames` interleaved frames of the history. */
+function takeTail(
+  history: Float32Array,
+  sampleFrames: number,
+  channels: number
+): Float32Array {
+  const available = Math.floor(history.length / channels);
+  const frames = Math.min(available, sampleFrames);
+  return history.slice(history.length - frames * channels);
+}
+
+/** Root mean square level of a block of samples. */
+function rms(samples: Float32Array): number {
+  if (samples.length === 0) {
+    return 0;
+  }
+
+  let sumOfSquares = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sumOfSquares += samples[i] * samples[i];
+  }
+  return Math.sqrt(sumOfSquares / samples.length);
+}
+
+/**
+ * Tile a periodic template across the output while ramping the gain
+ * from decay^n to decay^(n+1), so consecutive frames fade out smoothly.
+ */
+function renderTemplate(
+  template: Float32Array,
+  startPosition: number,
+  context: IConcealmentContext,
+  decayPerFrame: number
+): { samples: Float32Array; nextPosition: number } {
+  const channels = context.format.channels;
+  const output = new Float32Array(context.sampleFrames * channels);
+  const templateFrames = template.length / channels;
+  const startGain = Math.pow(decayPerFrame, context.consecutiveCount);
+  const endGain = startGain * decayPerFrame;
+  let position = startPosition;
+
+  for (let frame = 0; frame < context.sampleFrames; frame++) {
+    const gain =
+      startGain +
+      ((endGain - startGain) * frame) / context.sampleFrames;
+    for (let channel = 0; channel < channels; channel++) {
+      output[frame * channels + channel] =
+        template[position * channels + channel] * gain;
+    }
+    position = (position + 1) % templateFrames;
+  }
+
+  return { samples: output, nextPosition: position };
+}
+
+/**
+ * Plays digital silence in place of missing audio.
+ */
+export class SilenceConcealment implements IConcealmentStrategy {
+  public conceal(context: IConcealmentContext): Float32Array {
+    return new Float32Array(
+      context.sampleFrames * context.format.channels
+    );
+  }
+
+  public reset(): void {
+    /* stateless */
+  }
+}
+
+/**
+ * Repeats the last played frame with a gain that decays on each
+ * consecutive concealed frame.
+ */
+export class FadeRepeatConcealment implements IConcealmentStrategy {
+  private _decayPerFrame: number;
+  private _template: Float32Array | null = null;
+  private _position: number = 0;
+
+  constructor(decayPerFrame: number = 0.5) {
+    this._decayPerFrame = decayPerFrame;
+  }
+
+  public conceal(context: IConcealmentContext): Float32Array {
+    if (context.consecutiveCount === 0 || !this._template) {
+      this._template = takeTail(
+        context.history,
+        context.sampleFrames,
+        context.format.channels
+      );
+      this._position = 0;
+    }
+
+    if (this._template.length === 0) {
+      return new SilenceConcealment().conceal(context);
+    }
+
+    const { samples, nextPosition } = renderTemplate(
+      this._template,
+      this._position,
+      context,
+      this._decayPerFrame
+    );
+    this._position = nextPosition;
+    return samples;
+  }
+
+  public reset(): void {
+    this._template = null;
+    this._position = 0;
+  }
+}
+
+/**
+ * Extends the waveform by repeating its last pitch period, found by
+ * normalized autocorrelation, so voiced speech continues without a
+ * phase jump. Gain decays on consecutive concealed frames.
+ */
+export class WaveformExtensionConcealment
+  implements IConcealmentStrategy
+{
+  private static readonly _minPeriodMs = 2.5; // 400Hz
+  private static readonly _maxPeriodMs = 20; // 50Hz
+
+  private _decayPerFrame: number;
+  private _template: Float32Array | null = null;
+  private _position: number = 0;
+
+  constructor(decayPerFrame: number = 0.7) {
+    this._decayPerFrame = decayPerFrame;
+  }
+
+  public conceal(context: IConcealmentContext): Float32Array {
+    if (context.consecutiveCount === 0 || !this._template) {
+      const channels = context.format.channels;
+      const period = this._estimatePeriod(context);
+      this._template = takeTail(context.history, period, channels);
+      this._position = 0;
+    }
+
+    if (this._template.length === 0) {
+      return new SilenceConcealment().conceal(context);
+    }
+
+    const { samples, nextPosition } = renderTemplate(
+      this._template,
+      this._position,
+      context,
+      this._decayPerFrame
+    );
+    this._position = nextPosition;
+    return samples;
+  }
+
+  public reset(): void {
+    this._template = null;
+    this._position = 0;
+  }
+
+  /** Pitch period in sample frames, measured on the first channel. */
+  private _estimatePeriod(context: IConcealmentContext): number {
+    const { history, format } = context;
+    const channels = format.channels;
+    const historyFrames = Math.floor(history.length / channels);
+    const minLag = Math.max(
+      1,
+      Math.round(
+        (WaveformExtensionConcealment._minPeriodMs *
+          format.sampleRate) /
+          1000
+      )
+    );
+    const maxLag = Math.min(
+      Math.round(
+        (WaveformExtensionConcealment._maxPeriodMs *
+          format.sampleRate) /
+          1000
+      ),
+      Math.floor(historyFrames / 2)
+    );
+
+    if (maxLag < minLag) {
+      return historyFrames;
+    }
+
+    // Compare the most recent window against windows one lag earlier
+    const windowFrames = maxLag;
+    const windowStart = historyFrames - windowFrames;
+    const sampleAt = (frame: number): number =>
+      history[frame * channels];
+
+    let bestLag = maxLag;
+    let bestScore = -Infinity;
+
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      let cross = 0;
+      let energy = 0;
+      for (let i = 0; i < windowFrames; i++) {
+        const current = sampleAt(windowStart + i);
+        const previous = sampleAt(windowStart + i - lag);
+        cross += current * previous;
+        energy += previous * previous;
+      }
+
+      const score = energy > 0 ? cross / Math.sqrt(energy) : 0;
+      if (score > bestScore) {
+        bestScore = score;
+        bestLag = lag;
+      }
+    }
+
+    return bestLag;
+  }
+}
+
+/**
+ * Fills gaps with white noise at the level of the last played frame.
+ */
+export class ComfortNoiseConcealment implements IConcealmentStrategy {
+  private _random: () => number;
+  private _level: number | null = null;
+
+  constructor(random: () => number = Math.random) {
+    this._random = random;
+  }
+
+  public conceal(context: IConcealmentContext): Float32Array {
+    if (context.consecutiveCount === 0 || this._level === null) {
+      this._level = rms(
+        takeTail(
+          context.history,
+          context.sampleFrames,
+          context.format.channels
+        )
+      );
+    }
+
+    // Uniform noise in [-1, 1] has an RMS of 1/sqrt(3)
+    const amplitude = this._level * Math.sqrt(3);
+    const output = new Float32Array(
+      context.sampleFrames * context.format.channels
+    );
+    for (let i = 0; i < output.length; i++) {
+      output[i] = (this._random() * 2 - 1) * amplitude;
+    }
+    return output;
+  }
+
+  public reset(): void {
+    this._level = null;
+  }
+}
+
+/** Resolve a configured concealment mode or custom strategy. */
+export function createConcealmentStrategy(
+  concealment: ConcealmentMode | IConcealmentStrategy
+): IConcealmentStrategy {
+  if (typeof concealment !== 'string') {
+    return concealment;
+  }
+
+  switch (concealment) {
+    case 'fadeRepeat':
+      return new FadeRepeatConcealment();
+    case 'waveformExtension':
+      return new WaveformExtensionConcealment();
+    case 'comfortNoise':
+      return new ComfortNoiseConcealment();
+    case 'silence':
+    default:
+      return new SilenceConcealment();
+  }
+}
@@ -1,174 +1,342 @@
 import {
+  ChunkRejectionCounts,
+  IAudioFormat,
+  IChunkRejection,
+  IChunkValidationPolicy,
+  IClock,
   IAudioPlayPayload,
   IAudioFrame,
   IFrameProcessor,
+  IValidationStats,
 } from '../types';
+import {
+  bytesToDurationMs,
+  DefaultAudioFormat,
+  durationMsToBytes,
+  getBlockAlign,
+} from './AudioFormat';
+import { audioDataToBytes, decodeBase64 } from './Base64';
+import { SystemClock } from './Clock';
+import {
+  ChunkRejectedError,
+  createRejectionCounts,
+  DefaultChunkValidationPolicy,
+} from './ChunkValidation';
+
+type RejectionListener = (rejection: IChunkRejection) => void;
 
 /**
- * Processes base64 PCM audio chunks into timestamped frames.
- * Validates input, sanitizes data, estimates duration.
+ * Processes base64 or binary PCM audio chunks into timestamped frames.
+ * Validates input against the validation policy, sanitizes base64, and
+ * splits chunks into fixed-size frames of raw PCM bytes.
  */
 export class FrameProcessor implements IFrameProcessor {
-  private static readonly _sampleRate = 16000; // 16kHz
-  private static readonly _bytesPerSample = 2; // 16-bit PCM
-  private static readonly _maxReasonableChunkSizeBytes =
-    64 * 1024; // 64KB safety
   private static readonly _validBase64Regex =
     /^[A-Za-z0-9+/]*={0,2}$/;
 
   private _sequenceNumber: number = 0;
   private _frameIntervalMs: number;
+  private _audioFormat: IAudioFormat;
+  private _policy: IChunkValidationPolicy;
+  private _carriedBytes: Uint8Array | null = null;
+  private _clock: IClock;
+  private _rejectionListener: RejectionListener | null = null;
+  private _chunksRejected: number = 0;
+  private _chunkRejections: ChunkRejectionCounts = createRejectionCounts();
 
   /* istanbul ignore next */
-  constructor(frameIntervalMs: number = 20) {
+  constructor(
+    frameIntervalMs: number = 20,
+    audioFormat: IAudioFormat = DefaultAudioFormat,
+    clock: IClock = SystemClock,
+    validationPolicy: Partial<IChunkValidationPolicy> = {}
+  ) {
     this._frameIntervalMs = frameIntervalMs;
+    this._audioFormat = { ...audioFormat };
+    this._clock = clock;
+    this._policy = { ...DefaultChunkValidationPolicy, ...validationPolicy };
   }
 
-  /** Parse an audio payload into timestamped frames with validation. */
+  /**
+   * Parse an audio payload into timestamped frames with validation.
+   * The decoded PCM is re-framed into frameIntervalMs-sized frames;
+   * with partialSamples 'carry', a trailing partial sample is carried
+   * over to the next chunk.
+   */
   public parseChunk(
     payload: IAudioPlayPayload
   ): IAudioFrame[] {
-    if (!this._isValidPayload(payload)) {
+    const decoded = this.decodeChunk(payload);
+    if (!decoded) {
       return [];
     }
 
-    try {
-      const sanitizedData = this._sanitizeBase64(
-        payload.audioData
-      );
-      const estimatedDuration =
-        this._calculateDuration(sanitizedData);
+    const pcm = this._takeCarriedBytes(decoded);
+    const blockAlign = getBlockAlign(this._audioFormat);
+    const alignedLength =
+      pcm.length - (pcm.length % blockAlign);
+    this._carriedBytes =
+      payload.isFinal || alignedLength === pcm.length
+        ? null
+        : pcm.slice(alignedLength);
 
-      const frame: IAudioFrame = {
-        sequenceNumber: this._sequenceNumber++,
-        data: {
-          audioData: sanitizedData,
-          isFirst: payload.isFirst ?? false,
-          isFinal: payload.isFinal ?? false,
-        },
-        duration: estimatedDuration,
-        timestamp: Date.now(),
-      };
+    return this._splitIntoFrames(
+      pcm.subarray(0, alignedLength),
+      payload
+    );
+  }
 
-      return [frame];
+  /**
+   * Validate a payload and return its PCM, without framing it. Rejected
+   * chunks are counted, then reported to the rejection listener and
+   * null returned, or thrown as ChunkRejectedError, per the policy.
+   */
+  public decodeChunk(payload: IAudioPlayPayload): Uint8Array | null {
+    try {
+      return this._validate(payload);
     } catch (error) {
-      // Log error if logging is available, otherwise silently handle
-      // eslint-disable-next-line no-console
-      console.warn(
-        'FrameProcessor: Failed to parse chunk:',
-        error
-      );
-      return [];
+      const rejection = error as ChunkRejectedError;
+      this._chunksRejected++;
+      this._chunkRejections[rejection.reason]++;
+
+      if (this._policy.onRejection === 'throw') {
+        throw rejection;
+      }
+      this._reportRejection({
+        reason: rejection.reason,
+        message: rejection.message,
+        sequenceNumber: payload?.sequenceNumber,
+      });
+      return null;
     }
   }
 
-  /** Reset sequence numbering (on stream restart). */
+  /** Update the PCM format used for duration estimation. */
+  public setAudioFormat(format: IAudioFormat): void {
+    this._audioFormat = { ...format };
+    this._carriedBytes = null;
+  }
+
+  /** Replace the validation policy; omitted fields take their defaults. */
+  public setValidationPolicy(
+    policy: Partial<IChunkValidationPolicy>
+  ): void {
+    this._policy = { ...DefaultChunkValidationPolicy, ...policy };
+  }
+
+  /**
+   * Receive rejections when the policy reports them as events. Without
+   * a listener they are logged.
+   */
+  public setRejectionListener(listener: RejectionListener | null): void {
+    this._rejectionListener = listener;
+  }
+
+  public getStats(): IValidationStats {
+    return {
+      chunksRejected: this._chunksRejected,
+      chunkRejections: { ...this._chunkRejections },
+    };
+  }
+
+  /** Reset sequence numbering, carried bytes and counters (on stream restart). */
   public reset(): void {
     this._sequenceNumber = 0;
+    this._carriedBytes = null;
+    this._chunksRejected = 0;
+    this._chunkRejections = createRejectionCounts();
   }
 
-  /** Validate payload structure and content. */
-  private _isValidPayload(
-    payload: IAudioPlayPayload
-  ): boolean {
+  /** Decode and check a payload, throwing ChunkRejectedError if it fails. */
+  private _validate(payload: IAudioPlayPayload): Uint8Array {
     if (!payload || typeof payload !== 'object') {
-      return false;
+      throw new ChunkRejectedError(
+        'invalidPayload',
+        'Payload is not an object'
+      );
     }
 
-    if (
-      !payload.audioData ||
-      typeof payload.audioData !== 'string'
+    const { audioData } = payload;
+    let pcm: Uint8Array;
+    if (typeof audioData === 'string' && audioData.length > 0) {
+      pcm = this._decodeBase64(audioData);
+    } else if (
+      audioData instanceof ArrayBuffer ||
+      ArrayBuffer.isView(audioData)
     ) {
-      return false;
+      this._checkSize(audioData.byteLength);
+      pcm = audioDataToBytes(audioData);
+    } else {
+      throw new ChunkRejectedError(
+        'invalidPayload',
+        'Audio data must be a non-empty base64 string or binary data'
+      );
     }
 
-    // Quick length check
-    /* istanbul ignore next */
-    if (payload.audioData.length === 0) {
-      /* istanbul ignore next */
-      return false;
+    if (pcm.length === 0) {
+      throw new ChunkRejectedError('invalidPayload', 'Audio data is empty');
     }
 
-    // Estimate decoded size for safety
-    const estimatedDecodedSize =
-      (payload.audioData.length * 3) / 4;
+    pcm = this._checkPartialSample(pcm);
+    this._checkDuration(bytesToDurationMs(pcm.length, this._audioFormat));
+    return pcm;
+  }
+
+  /** Sanitize base64, checking the decoded size before decoding. */
+  private _decodeBase64(base64Data: string): Uint8Array {
+    const sanitized = this._sanitizeBase64(base64Data);
+    const padding = sanitized.endsWith('==')
+      ? 2
+      : sanitized.endsWith('=')
+        ? 1
+        : 0;
+    this._checkSize((sanitized.length / 4) * 3 - padding);
+
+    return decodeBase64(sanitized);
+  }
+
+  /** Clean and validate a base64 string under the policy's strictness. */
+  private _sanitizeBase64(base64Data: string): string {
+    const cleaned =
+      this._policy.base64 === 'strict'
+        ? base64Data
+        : base64Data
+            .replace(/\s/g, '')
+            .replace(/-/g, '+')
+            .replace(/_/g, '/');
+
+    if (!FrameProcessor._validBase64Regex.test(cleaned)) {
+      throw new ChunkRejectedError(
+        'invalidBase64',
+        'Audio data contains characters outside the base64 alphabet'
+      );
+    }
+
+    const remainder = cleaned.length % 4;
     if (
-      estimatedDecodedSize >
-      FrameProcessor._maxReasonableChunkSizeBytes
+      remainder === 1 ||
+      (remainder !== 0 && this._policy.base64 === 'strict')
     ) {
-      // eslint-disable-next-line no-console
-      console.warn(
-        'FrameProcessor: Chunk size exceeds reasonable limit:',
-        estimatedDecodedSize
+      throw new ChunkRejectedError(
+        'invalidBase64',
+        `Base64 length ${cleaned.length} is not a multiple of 4`
       );
-      /* istanbul ignore next */
-      return false;
     }
 
-    return true;
+    // Restore padding dropped by lenient senders
+    return remainder === 0 ? cleaned : cleaned + '='.repeat(4 - remainder);
   }
 
-  /** Clean and validate base64 string. */
-  private _sanitizeBase64(base64Data: string): string {
-    /* istanbul ignore next */
-    if (!base64Data) {
-      throw new Error('Empty base64 data');
+  private _checkSize(byteLength: number): void {
+    const { maxChunkBytes } = this._policy;
+    if (maxChunkBytes > 0 && byteLength > maxChunkBytes) {
+      throw new ChunkRejectedError(
+        'tooLarge',
+        `Chunk of ${byteLength} bytes exceeds maxChunkBytes ${maxChunkBytes}`
+      );
     }
+  }
 
-    // Remove any whitespace
-    const cleaned = base64Data.replace(/\s/g, '');
+  /** Apply partialSamples to trailing bytes short of a sample frame. */
+  private _checkPartialSample(pcm: Uint8Array): Uint8Array {
+    const partialLength = pcm.length % getBlockAlign(this._audioFormat);
+    if (partialLength === 0 || this._policy.partialSamples === 'carry') {
+      return pcm;
+    }
 
-    // Basic format validation
-    if (!FrameProcessor._validBase64Regex.test(cleaned)) {
-      throw new Error('Invalid base64 format');
+    if (this._policy.partialSamples === 'reject') {
+      throw new ChunkRejectedError(
+        'partialSample',
+        `Chunk of ${pcm.length} bytes is not a whole number of sample frames`
+      );
     }
+    return pcm.subarray(0, pcm.length - partialLength);
+  }
 
-    // Ensure proper padding
-    const remainder = cleaned.length % 4;
-    if (remainder === 2) {
-      return cleaned + '==';
-    } else if (remainder === 3) {
-      return cleaned + '=';
+  private _checkDuration(durationMs: number): void {
+    const { minChunkMs, maxChunkMs } = this._policy;
+    if (minChunkMs > 0 && durationMs < minChunkMs) {
+      throw new ChunkRejectedError(
+        'tooShort',
+        `Chunk of ${durationMs}ms is shorter than minChunkMs ${minChunkMs}`
+      );
     }
+    if (maxChunkMs > 0 && durationMs > maxChunkMs) {
+      throw new ChunkRejectedError(
+        'tooLong',
+        `Chunk of ${durationMs}ms is longer than maxChunkMs ${maxChunkMs}`
+      );
+    }
+  }
 
-    return cleaned;
+  private _reportRejection(rejection: IChunkRejection): void {
+    if (this._rejectionListener) {
+      this._rejectionListener(rejection);
+      return;
+    }
+
+    // eslint-disable-next-line no-console
+    console.warn(
+      `FrameProcessor: Rejected chunk (${rejection.reason}):`,
+      rejection.message
+    );
   }
 
-  /** Estimate frame duration from base64 PCM data. */
-  private _calculateDuration(base64Data: string): number {
-    try {
-      // Estimate decoded byte count
-      const paddingCount = (base64Data.match(/=/g) || [])
-        .length;
-      const estimatedBytes =
-        (base64Data.length * 3) / 4 - paddingCount;
-
-      // Convert bytes to samples to duration
-      const sampleCount =
-        estimatedBytes / FrameProcessor._bytesPerSample;
-      const durationMs =
-        (sampleCount / FrameProcessor._sampleRate) * 1000;
-
-      // Sanity check and fallback to frame interval
-      if (durationMs <= 0 || durationMs > 1000) {
-        // eslint-disable-next-line no-console
-        console.warn(
-          'FrameProcessor: Calculated duration out of range, using frame interval:',
-          durationMs
-        );
-        return this._frameIntervalMs;
-      }
+  /** Prepend bytes left over from the previous chunk, if any. */
+  private _takeCarriedBytes(bytes: Uint8Array): Uint8Array {
+    if (!this._carriedBytes) {
+      return bytes;
+    }
 
-      return Math.round(durationMs);
-    } catch (error) {
-      /* istanbul ignore next */
-      // eslint-disable-next-line no-console
-      console.warn(
-        'FrameProcessor: Duration calculation failed, using frame interval:',
-        error
+    const combined = new Uint8Array(
+      this._carriedBytes.length + bytes.length
+    );
+    combined.set(this._carriedBytes, 0);
+    combined.set(bytes, this._carriedBytes.length);
+    this._carriedBytes = null;
+    return combined;
+  }
+
+  /** Split sample-aligned PCM into frames of frameIntervalMs. */
+  private _splitIntoFrames(
+    pcm: Uint8Array,
+    payload: IAudioPlayPayload
+  ): IAudioFrame[] {
+    const frameByteLength =
+      durationMsToBytes(
+        this._frameIntervalMs,
+        this._audioFormat
+      ) || pcm.length;
+    const timestamp = this._clock.now();
+    const frames: IAudioFrame[] = [];
+
+    for (
+      let offset = 0;
+      offset < pcm.length;
+      offset += frameByteLength
+    ) {
+      const framePcm = pcm.subarray(
+        offset,
+        offset + frameByteLength
       );
-      /* istanbul ignore next */
-      return this._frameIntervalMs;
+      const isLastFrame =
+        offset + frameByteLength >= pcm.length;
+
+      frames.push({
+        sequenceNumber: this._sequenceNumber++,
+        data: {
+          audioData: framePcm,
+          isFirst: offset === 0 && (payload.isFirst ?? false),
+          isFinal: isLastFrame && (payload.isFinal ?? false),
+        },
+        duration: bytesToDurationMs(
+          framePcm.length,
+          this._audioFormat
+        ),
+        timestamp,
+      });
     }
+
+    return frames;
   }
 }
@@ -0,0 +1,210 @@
+import { IAudioFrame } from '../types';
+import { audioDataToBytes } from './Base64';
+
+/** Frame metadata; its PCM lives in the byte ring. */
+interface StoredFrame {
+  frame: IAudioFrame; // audioData emptied while stored
+  byteLength: number;
+}
+
+/**
+ * FIFO frame store for the jitter buffer. PCM is kept decoded in one
+ * growable byte ring and frame metadata in a slot ring, so pushing and
+ * shifting does not reallocate, and the buffered duration and size are
+ * running totals.
+ *
+ * With a cap set, the oldest frames are evicted to make room for new
+ * ones. The newest frame is always kept, even if it alone exceeds a cap.
+ */
+export class FrameRingBuffer {
+  private static readonly _initialByteCapacity = 16384; // About 0.5s of 16kHz s16 mono
+  private static readonly _initialSlotCapacity = 32;
+
+  private _bytes: Uint8Array;
+  private _readPosition: number = 0; // Logical byte positions, the ring index is modulo capacity
+  private _writePosition: number = 0;
+  private _slots: Array<StoredFrame | undefined>;
+  private _headSlot: number = 0;
+  private _length: number = 0;
+  private _durationMs: number = 0;
+  private _maxBytes: number;
+  private _maxDurationMs: number;
+
+  /** Caps of 0 disable that limit. */
+  constructor(maxBytes: number = 0, maxDurationMs: number = 0) {
+    this._maxBytes = maxBytes;
+    this._maxDurationMs = maxDurationMs;
+    this._bytes = new Uint8Array(FrameRingBuffer._initialByteCapacity);
+    this._slots = new Array(FrameRingBuffer._initialSlotCapacity);
+  }
+
+  /** Number of frames stored. */
+  public get length(): number {
+    return this._length;
+  }
+
+  /** Total duration of the stored frames in milliseconds. */
+  public get durationMs(): number {
+    return this._durationMs;
+  }
+
+  /** Bytes of PCM stored. */
+  public get byteLength(): number {
+    return this._writePosition - this._readPosition;
+  }
+
+  /**
+   * Append a frame, evicting the oldest frames if a cap requires it.
+   * @returns The number of frames evicted.
+   */
+  public push(frame: IAudioFrame): number {
+    const pcm = audioDataToBytes(frame.data.audioData);
+    const evicted = this._evictFor(pcm.length, frame.duration);
+
+    this._ensureByteCapacity(this.byteLength + pcm.length);
+    this._writeBytes(pcm);
+
+    if (this._length === this._slots.length) {
+      this._growSlots();
+    }
+    this._slots[(this._headSlot + this._length) % this._slots.length] = {
+      frame: { ...frame, data: { ...frame.data, audioData: '' } },
+      byteLength: pcm.length,
+    };
+    this._length++;
+    this._durationMs += frame.duration;
+
+    return evicted;
+  }
+
+  /** Remove and return the oldest frame, with its PCM copied out. */
+  public shift(): IAudioFrame | undefined {
+    const stored = this._takeHead();
+    if (!stored) {
+      return undefined;
+    }
+
+    const audioData = this._readBytes(stored.byteLength).slice();
+    return {
+      ...stored.frame,
+      data: { ...stored.frame.data, audioData },
+    };
+  }
+
+  /** Remove the oldest frame without decoding it. */
+  public drop(): boolean {
+    const stored = this._takeHead();
+    if (stored) {
+      this._readPosition += stored.byteLength;
+    }
+    return stored !== undefined;
+  }
+
+  /**
+   * Change the caps, evicting the oldest frames if now over them.
+   * @returns The number of frames evicted.
+   */
+  public setLimits(maxBytes: number, maxDurationMs: number): number {
+    this._maxBytes = maxBytes;
+    this._maxDurationMs = maxDurationMs;
+    return this._evictFor(0, 0);
+  }
+
+  public clear(): void {
+    this._slots.fill(undefined);
+    this._headSlot = 0;
+    this._length = 0;
+    this._durationMs = 0;
+    this._readPosition = 0;
+    this._writePosition = 0;
+  }
+
+  /** Evict oldest frames until an addition of this size fits the caps. */
+  private _evictFor(byteLength: number, durationMs: number): number {
+    let evicted = 0;
+
+    while (
+      this._length > 0 &&
+      ((this._maxBytes > 0 &&
+        this.byteLength + byteLength > this._maxBytes) ||
+        (this._maxDurationMs > 0 &&
+          this._durationMs + durationMs > this._maxDurationMs))
+    ) {
+      this.drop();
+      evicted++;
+    }
+
+    return evicted;
+  }
+
+  private _takeHead(): StoredFrame | undefined {
+    if (this._length === 0) {
+      return undefined;
+    }
+
+    const stored = this._slots[this._headSlot]!;
+    this._slots[this._headSlot] = undefined;
+    this._headSlot = (this._headSlot + 1) % this._slots.length;
+    this._length--;
+    // Reset rather than subtract so rounding error cannot accumulate
+    this._durationMs =
+      this._length === 0 ? 0 : this._durationMs - stored.frame.duration;
+
+    return stored;
+  }
+
+  private _writeBytes(pcm: Uint8Array): void {
+    const capacity = this._bytes.length;
+    const start = this._writePosition % capacity;
+    const firstPart = Math.min(pcm.length, capacity - start);
+
+    this._bytes.set(pcm.subarray(0, firstPart), start);
+    this._bytes.set(pcm.subarray(firstPart), 0);
+    this._writePosition += pcm.length;
+  }
+
+  /** Read bytes off the head. The result may be a view into the ring. */
+  private _readBytes(byteLength: number): Uint8Array {
+    const capacity = this._bytes.length;
+    const start = this._readPosition % capacity;
+    this._readPosition += byteLength;
+
+    if (start + byteLength <= capacity) {
+      return this._bytes.subarray(start, start + byteLength);
+    }
+
+    const bytes = new Uint8Array(byteLength);
+    const firstPart = capacity - start;
+    bytes.set(this._bytes.subarray(start));
+    bytes.set(this._bytes.subarray(0, byteLength - firstPart), firstPart);
+    return bytes;
+  }
+
+  /** Grow the byte ring, unwrapping stored bytes to the start. */
+  private _ensureByteCapacity(byteLength: number): void {
+    if (byteLength <= this._bytes.length) {
+      return;
+    }
+
+    let capacity = this._bytes.length * 2;
+    while (capacity < byteLength) {
+      capacity *= 2;
+    }
+
+    const stored = this.byteLength;
+    const bytes = new Uint8Array(capacity);
+    bytes.set(this._readBytes(stored));
+    this._bytes = bytes;
+    this._readPosition = 0;
+    this._writePosition = stored;
+  }
+
+  private _growSlots(): void {
+    const slots = new Array<StoredFrame | undefined>(this._slots.length * 2);
+    for (let i = 0; i < this._length; i++) {
+      slots[i] = this._slots[(this._headSlot + i) % this._slots.length];
+    }
+    this._slots = slots;
+    this._headSlot = 0;
+  }
+}
@@ -0,0 +1,150 @@
+import {
+  BufferHealthState,
+  IBufferHealthMetrics,
+  IHealthHistory,
+  IHealthSnapshot,
+  IHealthTransition,
+  ISessionSummary,
+} from '../types';
+
+/**
+ * Health time series and running totals for one playback session. The
+ * buffer manager feeds it as it plays; the summary takes its counters
+ * from the manager's metrics.
+ */
+export class HealthHistory {
+  private _maxEntries: number;
+  private _snapshots: IHealthSnapshot[] = [];
+  private _transitions: IHealthTransition[] = [];
+  private _startTime: number = 0;
+  private _playedMs: number = 0;
+  private _underrunStart: number | null = null; // Set while concealing, until real audio resumes
+  private _underrunDurationMs: number = 0;
+  private _overrunDurationMs: number = 0;
+  private _levelTime: number = 0; // When the buffer level was last read
+  private _levelMs: number = 0;
+  private _isAboveMax: boolean = false;
+  private _levelIntegral: number = 0; // Buffer level summed over time, for the average
+  private _peakBufferMs: number = 0;
+
+  constructor(maxEntries: number) {
+    this._maxEntries = maxEntries;
+  }
+
+  /** Clear the history and totals for a session starting now. */
+  public start(time: number): void {
+    this._snapshots = [];
+    this._transitions = [];
+    this._startTime = time;
+    this._playedMs = 0;
+    this._underrunStart = null;
+    this._underrunDurationMs = 0;
+    this._overrunDurationMs = 0;
+    this._levelTime = time;
+    this._levelMs = 0;
+    this._isAboveMax = false;
+    this._levelIntegral = 0;
+    this._peakBufferMs = 0;
+  }
+
+  public setMaxEntries(maxEntries: number): void {
+    this._maxEntries = maxEntries;
+    this._trim(this._snapshots);
+    this._trim(this._transitions);
+  }
+
+  public recordSnapshot(time: number, metrics: IBufferHealthMetrics): void {
+    this._snapshots.push({ time, metrics });
+    this._trim(this._snapshots);
+  }
+
+  public recordTransition(
+    time: number,
+    previousState: BufferHealthState,
+    state: BufferHealthState
+  ): void {
+    this._transitions.push({ time, previousState, state });
+    this._trim(this._transitions);
+  }
+
+  /** The level holds until the next reading, so each reading closes the last interval. */
+  public recordBufferLevel(
+    time: number,
+    bufferMs: number,
+    maxBufferMs: number
+  ): void {
+    const elapsedMs = time - this._levelTime;
+    this._levelIntegral += this._levelMs * elapsedMs;
+    if (this._isAboveMax) {
+      this._overrunDurationMs += elapsedMs;
+    }
+
+    this._levelTime = time;
+    this._levelMs = bufferMs;
+    this._isAboveMax = bufferMs > maxBufferMs;
+    this._peakBufferMs = Math.max(this._peakBufferMs, bufferMs);
+  }
+
+  /** A frame was concealed; the underrun lasts until real audio plays. */
+  public recordUnderrun(time: number): void {
+    if (this._underrunStart === null) {
+      this._underrunStart = time;
+    }
+  }
+
+  public recordPlayed(time: number, durationMs: number): void {
+    this._playedMs += durationMs;
+
+    if (this._underrunStart !== null) {
+      this._underrunDurationMs += time - this._underrunStart;
+      this._underrunStart = null;
+    }
+  }
+
+  public getHistory(): IHealthHistory {
+    return {
+      snapshots: [...this._snapshots],
+      transitions: [...this._transitions],
+    };
+  }
+
+  /** Totals up to time, counting an underrun or overrun still in progress. */
+  public getSummary(
+    time: number,
+    turnId: string | null,
+    metrics: IBufferHealthMetrics
+  ): ISessionSummary {
+    const durationMs = time - this._startTime;
+    const elapsedMs = time - this._levelTime;
+    const levelIntegral = this._levelIntegral + this._levelMs * elapsedMs;
+
+    return {
+      turnId,
+      startTime: this._startTime,
+      durationMs,
+      playedMs: this._playedMs,
+      concealedMs: metrics.concealedMs,
+      droppedMs: metrics.droppedMs,
+      underrunCount: metrics.underrunCount,
+      underrunDurationMs:
+        this._underrunDurationMs +
+        (this._underrunStart !== null ? time - this._underrunStart : 0),
+      overrunCount: metrics.overrunCount,
+      overrunDurationMs:
+        this._overrunDurationMs + (this._isAboveMax ? elapsedMs : 0),
+      rebufferCount: metrics.rebufferCount,
+      rebufferDurationMs: metrics.rebufferDurationMs,
+      averageBufferMs:
+        durationMs > 0 ? levelIntegral / durationMs : this._levelMs,
+      peakBufferMs: this._peakBufferMs,
+      packetsLost: metrics.packetsLost,
+      chunksRejected: metrics.chunksRejected,
+    };
+  }
+
+  private _trim(entries: unknown[]): void {
+    if (entries.length > this._maxEntries) {
+      entries.splice(0, entries.length - this._maxEntries);
+    }
+  }
+}
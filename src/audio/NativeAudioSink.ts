@@ -0,0 +1,25 @@
+import ExpoPlayAudioStreamModule from '../ExpoPlayAudioStreamModule';
+import { AudioEvents, addSoundChunkPlayedListener, subscribeToEvent } from '../events';
+import { IAudioSink } from '../types';
+
+/**
+ * Plays frames through the native module and relays its playback events.
+ * Native events are global, so every sink sees every turn's progress.
+ */
+export const NativeAudioSink: IAudioSink = {
+  play: async (audioData, playbackId, encoding) => {
+    await ExpoPlayAudioStreamModule.playSound(
+      audioData,
+      playbackId,
+      encoding
+    );
+  },
+  addChunkPlayedListener: (listener) =>
+    addSoundChunkPlayedListener(async (event) => {
+      listener(event.isFinal);
+    }),
+  addStartedListener: (listener) =>
+    subscribeToEvent(AudioEvents.SoundStarted, async () => {
+      listener();
+    }),
+};
@@ -0,0 +1,247 @@
+import type { EventSubscription } from 'expo-modules-core';
+import { SystemClock } from './Clock';
+import { TypedEventEmitter } from './TypedEventEmitter';
+import {
+  ConnectionInfoSource,
+  IClock,
+  IConnectionInfo,
+  NetworkConditions,
+  NetworkConditionsProvider,
+} from '../types';
+
+interface ProviderEvents {
+  change: Partial<NetworkConditions>;
+}
+
+type ConditionsListener = (conditions: Partial<NetworkConditions>) => void;
+
+/** Per-field maximum of two sets of conditions. */
+function worstOf(
+  a: Partial<NetworkConditions>,
+  b: Partial<NetworkConditions>
+): Partial<NetworkConditions> {
+  const merged: Partial<NetworkConditions> = { ...a };
+  (Object.keys(b) as Array<keyof NetworkConditions>).forEach((key) => {
+    merged[key] = Math.max(a[key] ?? -Infinity, b[key]!);
+  });
+  return merged;
+}
+
+/**
+ * Round-trip conditions from WebSocket (or any) ping/pong timing the app
+ * reports. Latency is the smoothed RTT and jitter its mean deviation,
+ * as in RFC 6298. Pings unanswered within timeoutMs count as lost.
+ */
+export class PingPongConditionsProvider
+  implements NetworkConditionsProvider
+{
+  private static readonly _roundTripGain = 1 / 8; // RFC 6298 alpha
+  private static readonly _variationGain = 1 / 4; // RFC 6298 beta
+  private static readonly _lossWindow = 20; // Recent pings that packet loss is measured over
+
+  private _clock: IClock;
+  private _timeoutMs: number;
+  private _events = new TypedEventEmitter<ProviderEvents>();
+  private _outstanding = new Map<string | number, number>(); // Ping ID to send time
+  private _outcomes: boolean[] = []; // Whether each recent ping was answered
+  private _smoothedRoundTripMs: number | null = null;
+  private _roundTripVariationMs: number = 0;
+
+  constructor(timeoutMs: number = 5000, clock: IClock = SystemClock) {
+    this._timeoutMs = timeoutMs;
+    this._clock = clock;
+  }
+
+  /** Record a ping leaving. IDs only need to be unique among outstanding pings. */
+  public pingSent(pingId: string | number): void {
+    this._expireOutstanding();
+    this._outstanding.set(pingId, this._clock.now());
+  }
+
+  /** Record the pong for a ping. Unknown or timed-out IDs are ignored. */
+  public pongReceived(pingId: string | number): void {
+    this._expireOutstanding();
+    const sentAt = this._outstanding.get(pingId);
+    if (sentAt === undefined) {
+      return;
+    }
+
+    this._outstanding.delete(pingId);
+    this._recordRoundTrip(this._clock.now() - sentAt);
+    this._recordOutcome(true);
+    this._events.emit('change', this.getConditions());
+  }
+
+  public getConditions(): Partial<NetworkConditions> {
+    const conditions: Partial<NetworkConditions> = {};
+
+    if (this._smoothedRoundTripMs !== null) {
+      conditions.latency = this._smoothedRoundTripMs;
+      conditions.jitter = this._roundTripVariationMs;
+    }
+    if (this._outcomes.length > 0) {
+      const lost = this._outcomes.filter((answered) => !answered).length;
+      conditions.packetLoss = (lost / this._outcomes.length) * 100;
+    }
+
+    return conditions;
+  }
+
+  public addListener(listener: ConditionsListener): EventSubscription {
+    return this._events.addListener('change', listener);
+  }
+
+  public reset(): void {
+    this._outstanding.clear();
+    this._outcomes = [];
+    this._smoothedRoundTripMs = null;
+    this._roundTripVariationMs = 0;
+  }
+
+  private _recordRoundTrip(roundTripMs: number): void {
+    if (this._smoothedRoundTripMs === null) {
+      this._smoothedRoundTripMs = roundTripMs;
+      this._roundTripVariationMs = roundTripMs / 2;
+      return;
+    }
+
+    this._roundTripVariationMs +=
+      (Math.abs(this._smoothedRoundTripMs - roundTripMs) -
+        this._roundTripVariationMs) *
+      PingPongConditionsProvider._variationGain;
+    this._smoothedRoundTripMs +=
+      (roundTripMs - this._smoothedRoundTripMs) *
+      PingPongConditionsProvider._roundTripGain;
+  }
+
+  private _recordOutcome(answered: boolean): void {
+    this._outcomes.push(answered);
+    if (this._outcomes.length > PingPongConditionsProvider._lossWindow) {
+      this._outcomes.shift();
+    }
+  }
+
+  /** Count pings past their timeout as lost. */
+  private _expireOutstanding(): void {
+    const now = this._clock.now();
+    let expired = 0;
+
+    this._outstanding.forEach((sentAt, pingId) => {
+      if (now - sentAt >= this._timeoutMs) {
+        this._outstanding.delete(pingId);
+        this._recordOutcome(false);
+        expired++;
+      }
+    });
+
+    if (expired > 0) {
+      this._events.emit('change', this.getConditions());
+    }
+  }
+}
+
+/**
+ * Typical conditions per connection type or cellular generation. The
+ * 'expensive' profile sets a floor for metered connections, which are
+ * often a phone hotspot whatever the reported type.
+ */
+export const DefaultConnectionProfiles: Readonly<{
+  [connection: string]: Partial<NetworkConditions>;
+}> = {
+  ethernet: { latency: 20, jitter: 5, packetLoss: 0 },
+  wifi: { latency: 50, jitter: 15, packetLoss: 0.5 },
+  cellular: { latency: 100, jitter: 30, packetLoss: 1 },
+  '5g': { latency: 60, jitter: 20, packetLoss: 0.5 },
+  '4g': { latency: 100, jitter: 30, packetLoss: 1 },
+  '3g': { latency: 250, jitter: 60, packetLoss: 2 },
+  '2g': { latency: 600, jitter: 150, packetLoss: 5 },
+  expensive: { latency: 100, jitter: 30, packetLoss: 1 },
+};
+
+/**
+ * Conditions hinted by the connection type, from a user-supplied source
+ * such as NetInfo.addEventListener. Unknown types give no hint.
+ */
+export class ConnectionTypeConditionsProvider
+  implements NetworkConditionsProvider
+{
+  private _profiles: { [connection: string]: Partial<NetworkConditions> };
+  private _events = new TypedEventEmitter<ProviderEvents>();
+  private _conditions: Partial<NetworkConditions> = {};
+  private _unsubscribe: () => void;
+
+  constructor(
+    source: ConnectionInfoSource,
+    profiles: { [connection: string]: Partial<NetworkConditions> } = {}
+  ) {
+    this._profiles = { ...DefaultConnectionProfiles, ...profiles };
+    this._unsubscribe = source((info) => this._onConnectionChange(info));
+  }
+
+  public getConditions(): Partial<NetworkConditions> {
+    return { ...this._conditions };
+  }
+
+  public addListener(listener: ConditionsListener): EventSubscription {
+    return this._events.addListener('change', listener);
+  }
+
+  /** Stop listening to the connection source. */
+  public destroy(): void {
+    this._unsubscribe();
+    this._events.removeAllListeners();
+  }
+
+  private _onConnectionChange(info: IConnectionInfo): void {
+    const generation = info.details?.cellularGeneration;
+    const profile =
+      (info.type === 'cellular' && generation && this._profiles[generation]) ||
+      this._profiles[info.type] ||
+      {};
+
+    this._conditions = info.details?.isConnectionExpensive
+      ? worstOf(profile, this._profiles.expensive)
+      : { ...profile };
+    this._events.emit('change', this.getConditions());
+  }
+}
+
+/**
+ * Merges several providers in order, later ones overriding the fields
+ * they report. List hints first and measurements last so measured
+ * values win.
+ */
+export class CompositeConditionsProvider
+  implements NetworkConditionsProvider
+{
+  private _providers: NetworkConditionsProvider[];
+  private _events = new TypedEventEmitter<ProviderEvents>();
+  private _subscriptions: EventSubscription[];
+
+  constructor(providers: NetworkConditionsProvider[]) {
+    this._providers = [...providers];
+    this._subscriptions = this._providers.map((provider) =>
+      provider.addListener(() =>
+        this._events.emit('change', this.getConditions())
+      )
+    );
+  }
+
+  public getConditions(): Partial<NetworkConditions> {
+    return this._providers.reduce<Partial<NetworkConditions>>(
+      (merged, provider) => ({ ...merged, ...provider.getConditions() }),
+      {}
+    );
+  }
+
+  public addListener(listener: ConditionsListener): EventSubscription {
+    return this._events.addListener('change', listener);
+  }
+
+  /** Stop listening to the merged providers. */
+  public destroy(): void {
+    this._subscriptions.forEach((subscription) => subscription.remove());
+    this._subscriptions = [];
+    this._events.removeAllListeners();
+  }
+}
@@ -0,0 +1,149 @@
+import {
+  IAudioPlayPayload,
+  IPacketReorderBuffer,
+  IReorderStats,
+} from '../types';
+
+/**
+ * Restores sender order for payloads carrying a sequence number.
+ * Holds early chunks until the gap before them fills or the window
+ * overflows, then skips the gap and counts it as lost. Duplicates and
+ * chunks arriving after their slot was skipped are dropped.
+ * Payloads without a sequence number pass straight through.
+ */
+export class PacketReorderBuffer implements IPacketReorderBuffer {
+  private static readonly _minDeliveredHistory = 64;
+
+  private _windowSize: number;
+  private _held: Map<number, IAudioPlayPayload> = new Map();
+  private _nextExpected: number | null = null;
+  private _highestSeen: number = -Infinity;
+  private _delivered: Set<number> = new Set();
+  private _deliveredOrder: number[] = [];
+  private _packetsLost: number = 0;
+  private _packetsReordered: number = 0;
+  private _packetsLate: number = 0;
+  private _duplicates: number = 0;
+
+  constructor(windowSize: number = 8) {
+    this._windowSize = Math.max(0, windowSize);
+  }
+
+  /** Accept a payload and return the payloads now ready, in order. */
+  public push(payload: IAudioPlayPayload): IAudioPlayPayload[] {
+    const sequenceNumber = payload?.sequenceNumber;
+    if (sequenceNumber === undefined) {
+      return [payload];
+    }
+
+    if (this._nextExpected === null) {
+      this._nextExpected = sequenceNumber;
+    }
+
+    if (
+      this._delivered.has(sequenceNumber) ||
+      this._held.has(sequenceNumber)
+    ) {
+      this._duplicates++;
+      return [];
+    }
+
+    if (sequenceNumber < this._nextExpected) {
+      // Too late to play: its slot was skipped as lost, or it precedes
+      // the first sequence number seen
+      this._packetsLate++;
+      return [];
+    }
+
+    if (sequenceNumber < this._highestSeen) {
+      this._packetsReordered++;
+    }
+    this._highestSeen = Math.max(this._highestSeen, sequenceNumber);
+
+    this._held.set(sequenceNumber, payload);
+
+    const ready = this._releaseConsecutive();
+    while (this._held.size > this._windowSize) {
+      ready.push(...this._skipToNextHeld());
+    }
+
+    return ready;
+  }
+
+  /** Release every held payload, counting remaining gaps as lost. */
+  public flush(): IAudioPlayPayload[] {
+    const ready: IAudioPlayPayload[] = [];
+    while (this._held.size > 0) {
+      ready.push(...this._skipToNextHeld());
+    }
+    return ready;
+  }
+
+  /** Number of payloads held waiting on a gap before them. */
+  public getHeldCount(): number {
+    return this._held.size;
+  }
+
+  /** Change how many out-of-order payloads may be held. */
+  public setWindowSize(windowSize: number): void {
+    this._windowSize = Math.max(0, windowSize);
+  }
+
+  public getStats(): IReorderStats {
+    return {
+      packetsLost: this._packetsLost,
+      packetsReordered: this._packetsReordered,
+      packetsLate: this._packetsLate,
+      duplicates: this._duplicates,
+    };
+  }
+
+  /** Forget all sequence state and counters (on stream restart). */
+  public reset(): void {
+    this._held.clear();
+    this._nextExpected = null;
+    this._highestSeen = -Infinity;
+    this._delivered.clear();
+    this._deliveredOrder.length = 0;
+    this._packetsLost = 0;
+    this._packetsReordered = 0;
+    this._packetsLate = 0;
+    this._duplicates = 0;
+  }
+
+  /** Skip the gap before the earliest held payload and release from there. */
+  private _skipToNextHeld(): IAudioPlayPayload[] {
+    const earliest = Math.min(...this._held.keys());
+    this._packetsLost += earliest - this._nextExpected!;
+    this._nextExpected = earliest;
+    return this._releaseConsecutive();
+  }
+
+  private _releaseConsecutive(): IAudioPlayPayload[] {
+    const ready: IAudioPlayPayload[] = [];
+
+    while (this._held.has(this._nextExpected!)) {
+      const sequenceNumber = this._nextExpected!;
+      ready.push(this._held.get(sequenceNumber)!);
+      this._held.delete(sequenceNumber);
+      this._rememberDelivered(sequenceNumber);
+      this._nextExpected = sequenceNumber + 1;
+    }
+
+    return ready;
+  }
+
+  /** Track recently delivered sequence numbers for duplicate detection. */
+  private _rememberDelivered(sequenceNumber: number): void {
+    this._delivered.add(sequenceNumber);
+    this._deliveredOrder.push(sequenceNumber);
+
+    const historySize = Math.max(
+      PacketReorderBuffer._minDeliveredHistory,
+      this._windowSize * 4
+    );
+    if (this._deliveredOrder.length > historySize) {
+      this._delivered.delete(this._deliveredOrder.shift()!);
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import { IAudioFrame, IClock } from '../types';
+
+/**
+ * Estimates how much audio is still queued in the native player.
+ *
+ * Between native events the queue drains in real time from when its
+ * head chunk started. SoundChunkPlayed events correct that estimate:
+ * iOS reports every chunk, Android only the final one once its queue
+ * is empty, so the clock carries the gaps on Android.
+ */
+export class PlaybackTracker {
+  private _clock: IClock;
+  private _inFlight: IAudioFrame[] = [];
+  private _headStartTime: number = 0;
+  private _retiredByEstimate: number = 0; // Chunks the clock has retired before their native event
+
+  constructor(clock: IClock) {
+    this._clock = clock;
+  }
+
+  /** Record a frame handed to the native player. */
+  public onFrameQueued(frame: IAudioFrame): void {
+    this._advance();
+    if (this._inFlight.length === 0) {
+      this._headStartTime = this._clock.now();
+    }
+    this._inFlight.push(frame);
+  }
+
+  /** Native playback (re)started with the oldest in-flight frame. */
+  public onStarted(): void {
+    this._advance();
+    this._headStartTime = this._clock.now();
+  }
+
+  /** Native player finished a chunk, or its whole queue when isFinal. */
+  public onChunkPlayed(isFinal: boolean): void {
+    if (isFinal) {
+      this._inFlight = [];
+      this._retiredByEstimate = 0;
+      return;
+    }
+
+    this._advance();
+    if (this._retiredByEstimate > 0) {
+      // Native is behind the estimate; the current head starts now
+      this._retiredByEstimate--;
+    } else {
+      this._inFlight.shift();
+    }
+    this._headStartTime = this._clock.now();
+  }
+
+  /** Milliseconds of audio still expected to be queued natively. */
+  public getQueuedMs(): number {
+    this._advance();
+    if (this._inFlight.length === 0) {
+      return 0;
+    }
+
+    const totalMs = this._inFlight.reduce(
+      (total, frame) => total + frame.duration,
+      0
+    );
+    return totalMs - (this._clock.now() - this._headStartTime);
+  }
+
+  /** Frames sent to the native player and not yet known to be played. */
+  public getInFlightFrames(): IAudioFrame[] {
+    this._advance();
+    return [...this._inFlight];
+  }
+
+  public reset(): void {
+    this._inFlight = [];
+    this._headStartTime = 0;
+    this._retiredByEstimate = 0;
+  }
+
+  /** Retire chunks whose playout time has elapsed. */
+  private _advance(): void {
+    const now = this._clock.now();
+
+    while (
+      this._inFlight.length > 0 &&
+      now - this._headStartTime >= this._inFlight[0].duration
+    ) {
+      this._headStartTime += this._inFlight.shift()!.duration;
+      this._retiredByEstimate++;
+    }
+  }
+}
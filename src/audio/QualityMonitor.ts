@@ -1,8 +1,32 @@
 import {
+  IClock,
   IQualityMonitor,
   IBufferHealthMetrics,
   BufferHealthState,
 } from '../types';
+import { SystemClock } from './Clock';
+import { createRejectionCounts } from './ChunkValidation';
+
+/** A measurement taken at a point in time. */
+interface TimedSample {
+  time: number;
+  value: number;
+}
+
+/** Nearest-rank percentile of ascending values, 0 when empty. */
+export function percentile(sortedValues: number[], p: number): number {
+  if (sortedValues.length === 0) {
+    return 0;
+  }
+
+  const rank = Math.ceil((p / 100) * sortedValues.length);
+  return sortedValues[Math.max(0, rank - 1)];
+}
+
+/** Round to 2 decimal places for reporting. */
+export function roundMetric(value: number): number {
+  return Math.round(value * 100) / 100;
+}
 
 /**
  * Monitors buffer health, network jitter, and provides adaptive recommendations.
@@ -11,23 +35,56 @@ import {
 export class QualityMonitor implements IQualityMonitor {
   private static readonly _maxHistorySize = 100; // Keep last N arrival times
   private static readonly _jitterSmoothingFactor = 0.1; // EMA smoothing for jitter
+  private static readonly _interarrivalJitterGain = 1 / 16; // RFC 3550 section 6.4.1
+  private static readonly _maxTransitSamples = 1000; // Bound percentile history on long windows
 
   private _frameIntervalMs: number;
+  private _eventWindowMs: number;
   private _arrivalHistory: number[] = [];
+  private _underrunTimes: number[] = [];
+  private _overrunTimes: number[] = [];
   private _underrunCount: number = 0;
   private _overrunCount: number = 0;
   private _averageJitter: number = 0;
-  private _lastArrivalTime: number = 0;
+  private _interarrivalJitter: number = 0;
+  private _lastArrivalTime: number | null = null;
+  private _lastSenderTime: number = 0;
+  private _jitterSamples: TimedSample[] = [];
+  private _transitSamples: TimedSample[] = [];
   private _adaptiveAdjustmentsCount: number = 0;
   private _bufferLevelHistory: number[] = [];
   private _lastBufferLevel: number = 0;
-
-  constructor(frameIntervalMs: number = 20) {
+  private _concealedMs: number = 0;
+  private _droppedMs: number = 0;
+  private _rebufferCount: number = 0;
+  private _rebufferDurationMs: number = 0;
+  private _clock: IClock;
+
+  constructor(
+    frameIntervalMs: number = 20,
+    eventWindowMs: number = 5000,
+    clock: IClock = SystemClock
+  ) {
     this._frameIntervalMs = frameIntervalMs;
+    this._eventWindowMs = eventWindowMs;
+    this._clock = clock;
+  }
+
+  /** Change the time window used for recent event counts. */
+  public setEventWindow(eventWindowMs: number): void {
+    this._eventWindowMs = eventWindowMs;
   }
 
-  /** Record frame arrival time and update jitter estimation. */
-  public recordFrameArrival(timestamp: number): void {
+  /**
+   * Record a chunk arrival and update jitter estimation.
+   * With a sender timestamp, the arrival spacing is compared with the
+   * send spacing (RFC 3550); without one, chunks are assumed to be sent
+   * every frameIntervalMs.
+   */
+  public recordFrameArrival(
+    timestamp: number,
+    senderTimestamp?: number
+  ): void {
     this._arrivalHistory.push(timestamp);
 
     // Trim history if needed
@@ -38,12 +95,19 @@ export class QualityMonitor implements IQualityMonitor {
       this._arrivalHistory.shift();
     }
 
+    const lastArrivalTime = this._lastArrivalTime;
+    const senderTime =
+      senderTimestamp ??
+      (lastArrivalTime === null
+        ? 0
+        : this._lastSenderTime + this._frameIntervalMs);
+
     // Calculate jitter if we have previous arrival
-    if (this._lastArrivalTime > 0) {
-      const actualInterval =
-        timestamp - this._lastArrivalTime;
+    if (lastArrivalTime !== null) {
       const jitter = Math.abs(
-        actualInterval - this._frameIntervalMs
+        timestamp -
+          lastArrivalTime -
+          (senderTime - this._lastSenderTime)
       );
 
       // Exponential moving average for smooth jitter tracking
@@ -51,19 +115,55 @@ export class QualityMonitor implements IQualityMonitor {
         this._averageJitter *
           (1 - QualityMonitor._jitterSmoothingFactor) +
         jitter * QualityMonitor._jitterSmoothingFactor;
+      this._interarrivalJitter +=
+        (jitter - this._interarrivalJitter) *
+        QualityMonitor._interarrivalJitterGain;
+
+      this._pushSample(this._jitterSamples, timestamp, jitter);
     }
 
+    this._pushSample(
+      this._transitSamples,
+      timestamp,
+      timestamp - senderTime
+    );
+
     this._lastArrivalTime = timestamp;
+    this._lastSenderTime = senderTime;
   }
 
   /** Record buffer underrun event. */
-  public recordUnderrun(): void {
+  public recordUnderrun(timestamp: number = this._clock.now()): void {
     this._underrunCount++;
+    this._underrunTimes.push(timestamp);
+    this._pruneEvents(this._underrunTimes, timestamp);
   }
 
   /** Record buffer overrun event. */
-  public recordOverrun(): void {
+  public recordOverrun(timestamp: number = this._clock.now()): void {
     this._overrunCount++;
+    this._overrunTimes.push(timestamp);
+    this._pruneEvents(this._overrunTimes, timestamp);
+  }
+
+  /** Record synthesized audio played to cover an underrun. */
+  public recordConcealment(durationMs: number): void {
+    this._concealedMs += durationMs;
+  }
+
+  /** Record buffered audio dropped on overrun. */
+  public recordDroppedAudio(durationMs: number): void {
+    this._droppedMs += durationMs;
+  }
+
+  /** Record a pause to refill the buffer. */
+  public recordRebuffer(): void {
+    this._rebufferCount++;
+  }
+
+  /** Record time spent paused to refill, once the pause ends. */
+  public recordRebufferTime(durationMs: number): void {
+    this._rebufferDurationMs += durationMs;
   }
 
   /** Update current buffer level for trend analysis. */
@@ -88,11 +188,22 @@ export class QualityMonitor implements IQualityMonitor {
       targetBufferMs: 0, // Will be set by caller
       underrunCount: this._underrunCount,
       overrunCount: this._overrunCount,
-      averageJitter:
-        Math.round(this._averageJitter * 100) / 100, // 2 decimal places
+      averageJitter: roundMetric(this._averageJitter),
+      interarrivalJitter: roundMetric(this._interarrivalJitter),
+      ...this._getPercentiles(),
       bufferHealthState: 'idle', // Will be calculated by caller
       adaptiveAdjustmentsCount:
         this._adaptiveAdjustmentsCount,
+      packetsLost: 0, // Will be set by caller
+      packetsReordered: 0, // Will be set by caller
+      packetsLate: 0, // Will be set by caller
+      duplicates: 0, // Will be set by caller
+      concealedMs: this._concealedMs,
+      droppedMs: this._droppedMs,
+      rebufferCount: this._rebufferCount,
+      rebufferDurationMs: this._rebufferDurationMs,
+      chunksRejected: 0, // Will be set by caller
+      chunkRejections: createRejectionCounts(), // Will be set by caller
     };
   }
 
@@ -143,8 +254,8 @@ export class QualityMonitor implements IQualityMonitor {
 
   /** Recommend buffer size adjustment based on recent performance. */
   public getRecommendedAdjustment(): number {
-    // No adjustment if insufficient data
-    if (this._arrivalHistory.length < 10) {
+    // No adjustment if insufficient recent data
+    if (this._getRecentEventCount('arrival') < 10) {
       return 0;
     }
 
@@ -166,12 +277,13 @@ export class QualityMonitor implements IQualityMonitor {
       adjustmentMs -= Math.min(40, recentOverruns * 10);
     }
 
-    // Adjust based on jitter
+    // Adjust based on tail jitter, which is what the buffer must absorb
+    const { jitterP95 } = this._getPercentiles();
     /* istanbul ignore next */
-    if (this._averageJitter > this._frameIntervalMs) {
+    if (jitterP95 > this._frameIntervalMs) {
       adjustmentMs += 20; // Add buffer for high jitter
     } else if (
-      this._averageJitter <
+      jitterP95 <
       this._frameIntervalMs * 0.2
     ) {
       adjustmentMs -= 10; // Reduce buffer for very stable network
@@ -189,34 +301,100 @@ export class QualityMonitor implements IQualityMonitor {
   /** Reset all metrics (on stream restart). */
   public reset(): void {
     this._arrivalHistory.length = 0;
+    this._underrunTimes.length = 0;
+    this._overrunTimes.length = 0;
     this._bufferLevelHistory.length = 0;
     this._underrunCount = 0;
     this._overrunCount = 0;
     this._averageJitter = 0;
-    this._lastArrivalTime = 0;
+    this._interarrivalJitter = 0;
+    this._lastArrivalTime = null;
+    this._lastSenderTime = 0;
+    this._jitterSamples.length = 0;
+    this._transitSamples.length = 0;
     this._adaptiveAdjustmentsCount = 0;
     this._lastBufferLevel = 0;
+    this._concealedMs = 0;
+    this._droppedMs = 0;
+    this._rebufferCount = 0;
+    this._rebufferDurationMs = 0;
   }
 
-  /** Count recent events (underruns/overruns) in a sliding window. */
+  /** Count events inside the sliding time window ending now. */
   private _getRecentEventCount(
-    eventType: 'underrun' | 'overrun'
+    eventType: 'underrun' | 'overrun' | 'arrival'
   ): number {
-    // For simplicity, we'll estimate based on total counts and history size
-    // In a full implementation, you'd track timestamps of each event
-    const totalEvents =
+    const times =
       eventType === 'underrun'
-        ? this._underrunCount
-        : this._overrunCount;
-    const historySize = this._arrivalHistory.length;
+        ? this._underrunTimes
+        : eventType === 'overrun'
+          ? this._overrunTimes
+          : this._arrivalHistory;
+    const windowStart = this._clock.now() - this._eventWindowMs;
+
+    return times.filter((time) => time > windowStart).length;
+  }
 
-    if (historySize < 20) {
-      return totalEvents; // Not enough history, return total
+  /** Store a sample, keeping only the event window. */
+  private _pushSample(
+    samples: TimedSample[],
+    time: number,
+    value: number
+  ): void {
+    samples.push({ time, value });
+
+    const windowStart = time - this._eventWindowMs;
+    while (
+      samples.length > QualityMonitor._maxTransitSamples ||
+      (samples.length > 0 && samples[0].time <= windowStart)
+    ) {
+      samples.shift();
     }
+  }
+
+  /**
+   * Jitter and delay percentiles over the event window. Delay is
+   * relative to the fastest chunk in the window, since sender and
+   * receiver clocks are not synchronized.
+   */
+  private _getPercentiles(): Pick<
+    IBufferHealthMetrics,
+    | 'jitterP50'
+    | 'jitterP95'
+    | 'jitterP99'
+    | 'delayP50'
+    | 'delayP95'
+    | 'delayP99'
+  > {
+    const windowStart = this._clock.now() - this._eventWindowMs;
+    const jitters = this._jitterSamples
+      .filter((sample) => sample.time > windowStart)
+      .map((sample) => sample.value)
+      .sort((a, b) => a - b);
+    const transits = this._transitSamples
+      .filter((sample) => sample.time > windowStart)
+      .map((sample) => sample.value);
+    const minTransit = Math.min(...transits);
+    const delays = transits
+      .map((transit) => transit - minTransit)
+      .sort((a, b) => a - b);
+
+    return {
+      jitterP50: roundMetric(percentile(jitters, 50)),
+      jitterP95: roundMetric(percentile(jitters, 95)),
+      jitterP99: roundMetric(percentile(jitters, 99)),
+      delayP50: roundMetric(percentile(delays, 50)),
+      delayP95: roundMetric(percentile(delays, 95)),
+      delayP99: roundMetric(percentile(delays, 99)),
+    };
+  }
 
-    // Estimate recent events as a fraction of total based on recent activity
-    const recentFraction = Math.min(20, historySize) / 100; // Last 20% of history
-    return Math.ceil(totalEvents * recentFraction);
+  /** Drop event times that have left the window. */
+  private _pruneEvents(times: number[], now: number): void {
+    const windowStart = now - this._eventWindowMs;
+    while (times.length > 0 && times[0] <= windowStart) {
+      times.shift();
+    }
   }
 
   /** Analyze buffer level trend from recent history. */
@@ -0,0 +1,139 @@
+import { IAudioFormat } from '../types';
+
+const windowMs = 10; // Overlap-add window length
+const seekToleranceMs = 2.5; // How far a segment may shift to stay in phase
+
+/**
+ * Change the duration of a block of interleaved samples without
+ * changing its pitch, using WSOLA (waveform similarity overlap-add).
+ * A rate above 1 shortens the block, below 1 lengthens it.
+ *
+ * The first and last window are copied from the block edges unchanged,
+ * so consecutive blocks still join without a discontinuity. Blocks too
+ * short to hold two windows are returned as-is.
+ */
+export function timeStretch(
+  samples: Float32Array,
+  rate: number,
+  format: IAudioFormat
+): Float32Array {
+  const channels = format.channels;
+  const inputFrames = Math.floor(samples.length / channels);
+  const outputFrames = Math.round(inputFrames / rate);
+  const windowFrames =
+    2 * Math.round((windowMs * format.sampleRate) / 2000);
+  const hopFrames = windowFrames / 2;
+  const tolerance = Math.round(
+    (seekToleranceMs * format.sampleRate) / 1000
+  );
+
+  if (
+    outputFrames === inputFrames ||
+    inputFrames <= windowFrames ||
+    outputFrames <= windowFrames
+  ) {
+    return samples;
+  }
+
+  const window = new Float32Array(windowFrames);
+  for (let n = 0; n < windowFrames; n++) {
+    window[n] =
+      0.5 - 0.5 * Math.cos((2 * Math.PI * (n + 0.5)) / windowFrames);
+  }
+
+  const output = new Float32Array(outputFrames * channels);
+  const weights = new Float32Array(outputFrames);
+  const segmentCount =
+    Math.ceil((outputFrames - windowFrames) / hopFrames) + 1;
+  const inputSpan = inputFrames - windowFrames;
+  const outputSpan = outputFrames - windowFrames;
+
+  let previousInput = 0;
+  let previousOutput = 0;
+
+  for (let segment = 0; segment < segmentCount; segment++) {
+    const isLast = segment === segmentCount - 1;
+    const outputPosition = isLast
+      ? outputSpan
+      : segment * hopFrames;
+    const nominalInput = Math.round(
+      (outputPosition * inputSpan) / outputSpan
+    );
+
+    const inputPosition =
+      segment === 0 || isLast
+        ? nominalInput
+        : seekBestMatch(
+            samples,
+            channels,
+            nominalInput,
+            // Where the previous segment would naturally continue
+            previousInput + (outputPosition - previousOutput),
+            previousOutput + windowFrames - outputPosition,
+            tolerance,
+            inputSpan
+          );
+
+    for (let n = 0; n < windowFrames; n++) {
+      const outIndex = (outputPosition + n) * channels;
+      const inIndex = (inputPosition + n) * channels;
+      for (let channel = 0; channel < channels; channel++) {
+        output[outIndex + channel] +=
+          samples[inIndex + channel] * window[n];
+      }
+      weights[outputPosition + n] += window[n];
+    }
+
+    previousInput = inputPosition;
+    previousOutput = outputPosition;
+  }
+
+  for (let frame = 0; frame < outputFrames; frame++) {
+    for (let channel = 0; channel < channels; channel++) {
+      output[frame * channels + channel] /= weights[frame];
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Find the input offset near `nominal` whose start best matches the
+ * natural continuation of the previous segment, measured on the
+ * first channel over the overlapping region.
+ */
+function seekBestMatch(
+  samples: Float32Array,
+  channels: number,
+  nominal: number,
+  continuation: number,
+  overlapFrames: number,
+  tolerance: number,
+  maxPosition: number
+): number {
+  let bestPosition = Math.max(0, Math.min(maxPosition, nominal));
+  let bestScore = -Infinity;
+
+  for (let offset = -tolerance; offset <= tolerance; offset++) {
+    const candidate = nominal + offset;
+    if (candidate < 0 || candidate > maxPosition) {
+      continue;
+    }
+
+    let cross = 0;
+    let energy = 0;
+    for (let n = 0; n < overlapFrames; n++) {
+      const value = samples[(candidate + n) * channels];
+      cross += value * samples[(continuation + n) * channels];
+      energy += value * value;
+    }
+
+    const score = energy > 0 ? cross / Math.sqrt(energy) : 0;
+    if (score > bestScore) {
+      bestScore = score;
+      bestPosition = candidate;
+    }
+  }
+
+  return bestPosition;
+}
@@ -0,0 +1,301 @@
+import { AudioBufferManager } from './BufferManagerCore';
+import { BufferManagerAdaptive } from './BufferManagerAdaptive';
+import { VirtualClock } from './Clock';
+import { TypedEventEmitter } from './TypedEventEmitter';
+import { audioDataToBytes } from './Base64';
+import { bytesToDurationMs, resolveAudioFormat } from './AudioFormat';
+import { percentile, roundMetric } from './QualityMonitor';
+import {
+  IAudioFormat,
+  IAudioPlayPayload,
+  IAudioSink,
+  IAudioSinkSubscription,
+  IBufferHealthMetrics,
+  IHealthStateChange,
+  INetworkTrace,
+  IReplayConfig,
+  IReplayReport,
+} from '../types';
+
+const replayTurnId = 'replay';
+const sampleIntervalMs = 20; // How often health is sampled between arrivals
+const drainTimeoutMs = 30000; // Give up on playout this long after the last arrival
+
+/** The buffer manager under test, behind a common shape. */
+interface ReplayTarget {
+  deliver(payload: IAudioPlayPayload): Promise<void>;
+  getMetrics(): IBufferHealthMetrics;
+  drain(): void;
+  destroy(): void;
+}
+
+/** Metric counters summed over the replay. */
+type ReplayCounter = 'underrunCount' | 'concealedMs' | 'droppedMs';
+
+/**
+ * Stand-in for the native player in virtual time. Plays chunks back to
+ * back in real time, reporting each as played and each start from idle.
+ */
+export class SimulatedAudioSink implements IAudioSink {
+  private _clock: VirtualClock;
+  private _audioFormat: IAudioFormat;
+  private _queue: number[] = []; // Durations of chunks waiting to play
+  private _playingUntil: number | null = null; // When the current chunk ends
+  private _idleSince: number | null = null; // Set once playback has started and run dry
+  private _gapMs: number = 0;
+  private _events = new TypedEventEmitter<{
+    chunkPlayed: boolean;
+    started: void;
+  }>();
+
+  constructor(clock: VirtualClock, audioFormat: IAudioFormat) {
+    this._clock = clock;
+    this._audioFormat = audioFormat;
+  }
+
+  public async play(audioData: string): Promise<void> {
+    const durationMs = bytesToDurationMs(
+      audioDataToBytes(audioData).length,
+      this._audioFormat
+    );
+
+    if (this._playingUntil !== null) {
+      this._queue.push(durationMs);
+      return;
+    }
+
+    if (this._idleSince !== null) {
+      this._gapMs += this._clock.now() - this._idleSince;
+      this._idleSince = null;
+    }
+    this._events.emit('started', undefined);
+    this._startChunk(durationMs);
+  }
+
+  public addChunkPlayedListener(
+    listener: (isFinal: boolean) => void
+  ): IAudioSinkSubscription {
+    return this._events.addListener('chunkPlayed', listener);
+  }
+
+  public addStartedListener(listener: () => void): IAudioSinkSubscription {
+    return this._events.addListener('started', listener);
+  }
+
+  /** Audio queued in the player, including what is left of the current chunk. */
+  public getQueuedMs(): number {
+    if (this._playingUntil === null) {
+      return 0;
+    }
+
+    return this._queue.reduce(
+      (total, durationMs) => total + durationMs,
+      this._playingUntil - this._clock.now()
+    );
+  }
+
+  /** Silence between chunks once playback had started. */
+  public getGapMs(): number {
+    return this._gapMs;
+  }
+
+  /** When the player last ran dry, null while playing or before the first chunk. */
+  public getIdleSince(): number | null {
+    return this._idleSince;
+  }
+
+  private _startChunk(durationMs: number): void {
+    this._playingUntil = this._clock.now() + durationMs;
+    this._clock.setTimeout(() => this._finishChunk(), durationMs);
+  }
+
+  private _finishChunk(): void {
+    const next = this._queue.shift();
+    if (next !== undefined) {
+      this._startChunk(next);
+    } else {
+      this._playingUntil = null;
+      this._idleSince = this._clock.now();
+    }
+    this._events.emit('chunkPlayed', false);
+  }
+}
+
+function createReplayTarget(
+  config: IReplayConfig,
+  audioFormat: IAudioFormat,
+  clock: VirtualClock,
+  sink: SimulatedAudioSink
+): ReplayTarget {
+  if (config.smartBuffer) {
+    const manager = new BufferManagerAdaptive(
+      {
+        ...config.smartBuffer,
+        bufferConfig: { ...config.smartBuffer.bufferConfig, audioFormat },
+      },
+      replayTurnId,
+      audioFormat.encoding,
+      clock,
+      sink
+    );
+
+    return {
+      deliver: (payload) =>
+        manager.processAudioChunk(payload, (audioData) =>
+          sink.play(audioData)
+        ),
+      // Falls back to network-only metrics when not buffering, so never null
+      getMetrics: () => manager.getHealthMetrics()!,
+      drain: () => manager.drain(),
+      destroy: () => manager.destroy(),
+    };
+  }
+
+  const manager = new AudioBufferManager(
+    { ...config.bufferConfig, audioFormat },
+    clock,
+    sink
+  );
+  manager.setTurnId(replayTurnId);
+  manager.startPlayback();
+
+  return {
+    deliver: async (payload) => manager.enqueueFrames(payload),
+    getMetrics: () => manager.getHealthMetrics(),
+    drain: () => manager.drain(),
+    destroy: () => manager.destroy(),
+  };
+}
+
+/**
+ * Replay recorded chunk arrivals through a jitter buffer in virtual time,
+ * playing out against a simulated native player, and report how the
+ * config coped. Chunks are silent PCM of the recorded sizes.
+ */
+export async function replayTrace(
+  trace: INetworkTrace,
+  config: IReplayConfig = {}
+): Promise<IReplayReport> {
+  const audioFormat = resolveAudioFormat(
+    trace.audioFormat,
+    config.bufferConfig?.audioFormat
+  );
+  const arrivals = [...trace.arrivals].sort(
+    (a, b) => a.arrivalTime - b.arrivalTime
+  );
+  const startTime = arrivals.length > 0 ? arrivals[0].arrivalTime : 0;
+  const clock = new VirtualClock(startTime);
+  const sink = new SimulatedAudioSink(clock, audioFormat);
+  const target = createReplayTarget(config, audioFormat, clock, sink);
+
+  const totals: Record<ReplayCounter, number> = {
+    underrunCount: 0,
+    concealedMs: 0,
+    droppedMs: 0,
+  };
+  const lastSeen: Record<ReplayCounter, number> = { ...totals };
+  const healthTimeline: IHealthStateChange[] = [];
+  const latencies: number[] = [];
+  let receivedMs = 0;
+
+  const sample = (): void => {
+    const metrics = target.getMetrics();
+
+    for (const counter of Object.keys(totals) as ReplayCounter[]) {
+      // A counter going backwards means a fresh buffer took over
+      const value = metrics[counter];
+      totals[counter] +=
+        value >= lastSeen[counter] ? value - lastSeen[counter] : value;
+      lastSeen[counter] = value;
+    }
+
+    const lastState = healthTimeline[healthTimeline.length - 1]?.state;
+    if (metrics.bufferHealthState !== lastState) {
+      healthTimeline.push({
+        time: clock.now(),
+        state: metrics.bufferHealthState,
+      });
+    }
+  };
+
+  // Step time in sample-sized increments so health changes between arrivals are seen
+  let nextSampleTime = startTime + sampleIntervalMs;
+  const advanceTo = (time: number): void => {
+    while (nextSampleTime <= time) {
+      clock.advance(nextSampleTime - clock.now());
+      sample();
+      nextSampleTime += sampleIntervalMs;
+    }
+    clock.advance(time - clock.now());
+  };
+
+  sample();
+  for (const arrival of arrivals) {
+    advanceTo(arrival.arrivalTime);
+
+    // Time to play out everything ahead of this chunk, plus its time on the wire
+    const networkDelayMs =
+      arrival.sentAt !== undefined ? arrival.arrivalTime - arrival.sentAt : 0;
+    latencies.push(
+      networkDelayMs +
+        target.getMetrics().currentBufferMs +
+        sink.getQueuedMs()
+    );
+    receivedMs += bytesToDurationMs(arrival.byteLength, audioFormat);
+
+    await target.deliver({
+      audioData: new Uint8Array(arrival.byteLength),
+      sequenceNumber: arrival.sequenceNumber,
+      timestamp: arrival.timestamp,
+      sentAt: arrival.sentAt,
+    });
+  }
+
+  target.drain();
+  const deadline = clock.now() + drainTimeoutMs;
+  while (clock.getPendingTimerCount() > 0 && clock.now() < deadline) {
+    advanceTo(clock.now() + sampleIntervalMs);
+  }
+  sample();
+
+  const endTime = sink.getIdleSince() ?? clock.now();
+  target.destroy();
+
+  const sortedLatencies = [...latencies].sort((a, b) => a - b);
+  const meanLatency =
+    latencies.length > 0
+      ? latencies.reduce((total, latency) => total + latency, 0) /
+        latencies.length
+      : 0;
+
+  return {
+    name: config.name ?? config.smartBuffer?.mode ?? 'fixed',
+    receivedMs: roundMetric(receivedMs),
+    underruns: totals.underrunCount,
+    concealedMs: roundMetric(totals.concealedMs),
+    droppedMs: roundMetric(totals.droppedMs),
+    gapMs: roundMetric(sink.getGapMs()),
+    latency: {
+      meanMs: roundMetric(meanLatency),
+      p95Ms: roundMetric(percentile(sortedLatencies, 95)),
+      maxMs: roundMetric(sortedLatencies[sortedLatencies.length - 1] ?? 0),
+    },
+    healthTimeline,
+    durationMs: roundMetric(endTime - startTime),
+  };
+}
+
+/**
+ * Replay one trace through several configs, one after another,
+ * returning a report per config in the same order.
+ */
+export async function compareReplayConfigs(
+  trace: INetworkTrace,
+  configs: IReplayConfig[]
+): Promise<IReplayReport[]> {
+  const reports: IReplayReport[] = [];
+  for (const config of configs) {
+    reports.push(await replayTrace(trace, config));
+  }
+  return reports;
+}
@@ -0,0 +1,244 @@
+import { AudioBufferManager } from './BufferManagerCore';
+import { BufferManagerAdaptive } from './BufferManagerAdaptive';
+import { resolveAudioFormat } from './AudioFormat';
+import { SystemClock } from './Clock';
+import { NativeAudioSink } from './NativeAudioSink';
+import {
+  AudioChunkData,
+  Encoding,
+  IAudioBufferConfig,
+  IAudioPlayPayload,
+  IAudioSink,
+  IClockSyncSample,
+  IScheduler,
+  SoundConfig,
+  TimerHandle,
+} from '../types';
+
+type DirectPlay = (
+  audioData: string,
+  turnId: string,
+  encoding: Encoding
+) => Promise<void>;
+
+interface TurnBuffer {
+  manager: AudioBufferManager | BufferManagerAdaptive;
+  idleTimer: TimerHandle;
+  isDraining: boolean;
+  isCleared: boolean;
+  released: Promise<void>; // Settles once the turn has played out or been cleared
+  release: () => void;
+}
+
+/**
+ * Routes plain playAudio chunks through a jitter buffer per turn when
+ * SoundConfig enables buffering. enableBuffering always buffers;
+ * autoBuffer lets BufferManagerAdaptive decide from network conditions.
+ *
+ * playAudio has no end-of-turn signal, so a turn's buffer is drained
+ * once no chunk has arrived for turnIdleTimeoutMs: it stops waiting on
+ * pre-roll or a rebuffer and plays out whatever it holds. A draining
+ * turn stays tracked until it has played out, so it can still be
+ * cleared, and chunks for it wait to start a fresh buffer until then.
+ */
+export class TurnBufferRouter {
+  private static readonly _defaultTurnIdleTimeoutMs = 1000; // Well above the spacing of real-time chunks
+  private static readonly _maxClockSyncSamples = 8; // As many as ClockOffsetEstimator keeps
+
+  private _clock: IScheduler;
+  private _sink: IAudioSink;
+  private _soundConfig: SoundConfig = {};
+  private _turns: { [turnId: string]: TurnBuffer } = {};
+  private _clockSyncSamples: IClockSyncSample[] = []; // Replayed into each new adaptive turn
+
+  constructor(
+    clock: IScheduler = SystemClock,
+    sink: IAudioSink = NativeAudioSink
+  ) {
+    this._clock = clock;
+    this._sink = sink;
+  }
+
+  /**
+   * Apply the buffering settings of a sound config. Turns already
+   * buffering play out under their old settings.
+   */
+  public configure(config: SoundConfig): void {
+    this._soundConfig = config.useDefault ? {} : { ...config };
+    this.drainAll();
+  }
+
+  public isEnabled(): boolean {
+    return Boolean(
+      this._soundConfig.enableBuffering || this._soundConfig.autoBuffer
+    );
+  }
+
+  /** Buffer a chunk for its turn, creating the turn's buffer on first use. */
+  public async play(
+    audioData: AudioChunkData,
+    turnId: string,
+    encoding: Encoding,
+    directPlay: DirectPlay,
+    sender?: Pick<IAudioPlayPayload, 'sentAt'>
+  ): Promise<void> {
+    let turn = this._turns[turnId];
+    while (turn?.isDraining) {
+      await turn.released;
+      if (turn.isCleared) {
+        return;
+      }
+      turn = this._turns[turnId];
+    }
+
+    if (turn) {
+      this._clock.clearTimeout(turn.idleTimer);
+      turn.idleTimer = this._startIdleTimer(turnId);
+    } else {
+      turn = this._createTurn(turnId, encoding);
+    }
+
+    const payload: IAudioPlayPayload = { audioData, sentAt: sender?.sentAt };
+    if (turn.manager instanceof BufferManagerAdaptive) {
+      await turn.manager.processAudioChunk(payload, directPlay);
+    } else {
+      turn.manager.enqueueFrames(payload);
+    }
+  }
+
+  /**
+   * Add a ping/pong exchange with the sender for the adaptive buffers to
+   * measure one-way delay from chunk sentAt times. Recent samples carry
+   * over to turns that start later.
+   */
+  public addClockSyncSample(sample: IClockSyncSample): void {
+    this._clockSyncSamples.push(sample);
+    if (
+      this._clockSyncSamples.length > TurnBufferRouter._maxClockSyncSamples
+    ) {
+      this._clockSyncSamples.shift();
+    }
+
+    Object.values(this._turns).forEach(({ manager }) => {
+      if (manager instanceof BufferManagerAdaptive) {
+        manager.addClockSyncSample(sample);
+      }
+    });
+  }
+
+  /** Drop a turn's buffered audio immediately, along with chunks waiting on it. */
+  public clearTurn(turnId: string): void {
+    const turn = this._turns[turnId];
+    if (turn) {
+      turn.isCleared = true;
+      this._releaseTurn(turnId, turn);
+    }
+  }
+
+  /** Drop every turn's buffered audio immediately. */
+  public clearAll(): void {
+    Object.keys(this._turns).forEach((turnId) => this.clearTurn(turnId));
+  }
+
+  /** Let every turn play out what it has buffered, then release it. */
+  public drainAll(): void {
+    Object.entries(this._turns)
+      .filter(([, turn]) => !turn.isDraining)
+      .forEach(([turnId, turn]) => this._drainTurn(turnId, turn));
+  }
+
+  private _createTurn(turnId: string, encoding: Encoding): TurnBuffer {
+    const bufferConfig = this._getBufferConfig(encoding);
+    const manager = this._soundConfig.enableBuffering
+      ? this._createBufferManager(turnId, bufferConfig)
+      : new BufferManagerAdaptive(
+          { mode: 'adaptive', bufferConfig },
+          turnId,
+          encoding,
+          this._clock,
+          this._sink
+        );
+    if (manager instanceof BufferManagerAdaptive) {
+      this._clockSyncSamples.forEach((sample) =>
+        manager.addClockSyncSample(sample)
+      );
+    }
+    let release!: () => void;
+    const turn: TurnBuffer = {
+      manager,
+      idleTimer: this._startIdleTimer(turnId),
+      isDraining: false,
+      isCleared: false,
+      released: new Promise<void>((resolve) => {
+        release = resolve;
+      }),
+      release: () => release(),
+    };
+
+    // Both managers emit a final drained once drain() has played out,
+    // though their event maps differ in type
+    const onDrained = ({ isFinal }: { isFinal: boolean }): void => {
+      if (isFinal) {
+        this._releaseTurn(turnId, turn);
+      }
+    };
+    if (manager instanceof BufferManagerAdaptive) {
+      manager.addListener('drained', onDrained);
+    } else {
+      manager.addListener('drained', onDrained);
+    }
+
+    this._turns[turnId] = turn;
+    return turn;
+  }
+
+  /** The sound config's buffer config, in the full format of the turn's audio. */
+  private _getBufferConfig(encoding: Encoding): Partial<IAudioBufferConfig> {
+    const bufferConfig: Partial<IAudioBufferConfig> =
+      this._soundConfig.bufferConfig ?? {};
+
+    return {
+      ...bufferConfig,
+      audioFormat: resolveAudioFormat(bufferConfig.audioFormat, {
+        sampleRate: this._soundConfig.sampleRate,
+        encoding,
+      }),
+    };
+  }
+
+  private _createBufferManager(
+    turnId: string,
+    bufferConfig: Partial<IAudioBufferConfig>
+  ): AudioBufferManager {
+    const manager = new AudioBufferManager(
+      bufferConfig,
+      this._clock,
+      this._sink
+    );
+    manager.setTurnId(turnId);
+    manager.startPlayback();
+    return manager;
+  }
+
+  /** Releasing a turn clears its timer, so the turn is still there when it fires. */
+  private _startIdleTimer(turnId: string): TimerHandle {
+    return this._clock.setTimeout(
+      () => this._drainTurn(turnId, this._turns[turnId]),
+      this._soundConfig.turnIdleTimeoutMs ??
+        TurnBufferRouter._defaultTurnIdleTimeoutMs
+    );
+  }
+
+  private _drainTurn(turnId: string, turn: TurnBuffer): void {
+    this._clock.clearTimeout(turn.idleTimer);
+    turn.isDraining = true;
+    turn.manager.drain();
+  }
+
+  private _releaseTurn(turnId: string, turn: TurnBuffer): void {
+    this._clock.clearTimeout(turn.idleTimer);
+    delete this._turns[turnId];
+    turn.manager.destroy();
+    turn.release();
+  }
+}
@@ -0,0 +1,53 @@
+import type { EventSubscription } from 'expo-modules-core';
+
+type Listener<T> = (event: T) => void;
+
+/**
+ * Minimal synchronous emitter for JS-side events. A throwing listener
+ * is logged and does not stop the others or the caller.
+ */
+export class TypedEventEmitter<TEventMap extends object> {
+  private _listeners: {
+    [K in keyof TEventMap]?: Array<Listener<TEventMap[K]>>;
+  } = {};
+
+  public addListener<K extends keyof TEventMap>(
+    eventName: K,
+    listener: Listener<TEventMap[K]>
+  ): EventSubscription {
+    const listeners = this._listeners[eventName] ?? [];
+    listeners.push(listener);
+    this._listeners[eventName] = listeners;
+
+    return {
+      remove: () => {
+        this._listeners[eventName] = this._listeners[eventName]?.filter(
+          (registered) => registered !== listener
+        );
+      },
+    };
+  }
+
+  public emit<K extends keyof TEventMap>(
+    eventName: K,
+    event: TEventMap[K]
+  ): void {
+    // Copy so listeners can unsubscribe while being called
+    for (const listener of [...(this._listeners[eventName] ?? [])]) {
+      try {
+        listener(event);
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error(error);
+      }
+    }
+  }
+
+  public listenerCount(eventName: keyof TEventMap): number {
+    return this._listeners[eventName]?.length ?? 0;
+  }
+
+  public removeAllListeners(): void {
+    this._listeners = {};
+  }
+}
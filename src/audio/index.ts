@@ -1,5 +1,52 @@
 // Audio processing modules for jitter buffering and quality management
 export { AudioBufferManager } from './BufferManagerCore';
+export { BufferedStream } from './BufferedStream';
+export { TurnBufferRouter } from './TurnBufferRouter';
 export { FrameProcessor } from './FrameProcessor';
+export {
+  ChunkRejectedError,
+  DefaultChunkValidationPolicy,
+} from './ChunkValidation';
 export { QualityMonitor } from './QualityMonitor';
+export { PacketReorderBuffer } from './PacketReorderBuffer';
+export { FrameRingBuffer } from './FrameRingBuffer';
+export { HealthHistory } from './HealthHistory';
+export {
+  SilenceConcealment,
+  FadeRepeatConcealment,
+  WaveformExtensionConcealment,
+  ComfortNoiseConcealment,
+  createConcealmentStrategy,
+} from './Concealment';
+export { timeStretch } from './TimeStretch';
+export { SystemClock, VirtualClock } from './Clock';
+export { ClockOffsetEstimator, OneWayDelayEstimator } from './ClockSync';
+export { NativeAudioSink } from './NativeAudioSink';
+export {
+  PingPongConditionsProvider,
+  ConnectionTypeConditionsProvider,
+  CompositeConditionsProvider,
+  DefaultConnectionProfiles,
+} from './NetworkConditionsProvider';
 export { BufferManagerAdaptive as SmartBufferManager } from './BufferManagerAdaptive';
+export {
+  SimulatedAudioSink,
+  replayTrace,
+  compareReplayConfigs,
+} from './TraceReplay';
+export {
+  DefaultAudioFormat,
+  getBytesPerSample,
+  getBlockAlign,
+  bytesToDurationMs,
+  durationMsToBytes,
+  resolveAudioFormat,
+  decodePcmSamples,
+  encodePcmSamples,
+} from './AudioFormat';
+export {
+  encodeBase64,
+  decodeBase64,
+  audioDataToBytes,
+  audioDataToBase64,
+} from './Base64';
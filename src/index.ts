@@ -15,6 +15,8 @@ import {
   EncodingTypes,
   PlaybackModes,
   // Audio jitter buffer types
+  AudioChunkData,
+  IAudioFormat,
   IAudioBufferConfig,
   IAudioPlayPayload,
   IAudioFrame,
@@ -22,14 +24,60 @@ import {
   IBufferHealthMetrics,
   IAudioBufferManager,
   IFrameProcessor,
+  ChunkRejectionReason,
+  Base64Strictness,
+  PartialSampleHandling,
+  IChunkValidationPolicy,
+  IChunkRejection,
+  ChunkRejectionCounts,
+  IValidationStats,
+  IPreRollPolicy,
+  PlaybackStartReason,
+  UnderrunRecovery,
+  ProducerProfile,
   IQualityMonitor,
+  IPacketReorderBuffer,
+  IReorderStats,
+  ConcealmentMode,
+  IConcealmentContext,
+  IConcealmentStrategy,
+  PlayoutMode,
+  IClock,
+  IScheduler,
+  TimerHandle,
+  PlayoutClock,
+  IAudioSink,
+  IAudioSinkSubscription,
+  IBufferEventMap,
+  BufferEventName,
   BufferedStreamConfig,
   SmartBufferConfig,
   SmartBufferMode,
   NetworkConditions,
+  BufferingTransitionReason,
+  IBufferingTransitionEvent,
+  IAdaptiveBufferEventMap,
+  IClockSyncSample,
+  NetworkConditionsProvider,
+  IConnectionInfo,
+  ConnectionInfoSource,
+  ITraceArrival,
+  INetworkTrace,
+  IReplayConfig,
+  IHealthStateChange,
+  IReplayReport,
+  IHealthSnapshot,
+  IHealthTransition,
+  IHealthHistory,
+  ISessionSummary,
 } from './types';
 
-import { AudioBufferManager } from './audio';
+import {
+  audioDataToBase64,
+  BufferedStream,
+  ChunkRejectedError,
+  TurnBufferRouter,
+} from './audio';
 
 import {
   addAudioEventListener,
@@ -43,24 +91,28 @@ import {
 const SuspendSoundEventTurnId = 'suspend-sound-events';
 
 export class ExpoPlayAudioStream {
-  // Static buffer manager instances for different turn IDs
-  private static _bufferManagers: {
-    [turnId: string]: AudioBufferManager;
+  // Open buffered streams for different turn IDs
+  private static _bufferedStreams: {
+    [turnId: string]: BufferedStream;
   } = {};
 
+  // Jitter buffers for playAudio when SoundConfig enables buffering
+  private static _turnBufferRouter = new TurnBufferRouter();
+
   /**
    * Destroys the audio stream module, cleaning up all resources.
    * This should be called when the module is no longer needed.
    * It will reset all internal state and release audio resources.
    */
   static destroy() {
-    // Clean up all buffer managers
-    Object.keys(
-      ExpoPlayAudioStream._bufferManagers
-    ).forEach((turnId) => {
-      ExpoPlayAudioStream._bufferManagers[turnId].destroy();
-    });
-    ExpoPlayAudioStream._bufferManagers = {};
+    // Clean up all buffered streams
+    Object.values(ExpoPlayAudioStream._bufferedStreams).forEach(
+      (stream) => {
+        stream.abort().catch(console.error);
+      }
+    );
+    ExpoPlayAudioStream._bufferedStreams = {};
+    ExpoPlayAudioStream._turnBufferRouter.clearAll();
 
     ExpoPlayAudioStreamModule.destroy();
   }
@@ -146,25 +198,49 @@ export class ExpoPlayAudioStream {
 
   /**
    * Plays an audio chunk.
-   * @param {string} base64Chunk - The base64 encoded audio chunk to play.
+   * When setSoundConfig() enabled buffering, chunks go through a jitter
+   * buffer per turn ID that is released once the turn goes quiet.
+   * @param {AudioChunkData} audioChunk - The audio chunk to play, base64 encoded or as binary PCM.
    * @param {string} turnId - The turn ID.
    * @param {string} [encoding] - The encoding format of the audio data ('pcm_f32le' or 'pcm_s16le').
+   * @param {Pick<IAudioPlayPayload, 'sentAt'>} [sender] - Optional sender send time, used by autoBuffer to measure one-way delay.
    * @returns {Promise<void>}
    * @throws {Error} If the audio chunk fails to stream.
+   * @throws {ChunkRejectedError} If the chunk fails validation and the buffer's validation policy throws.
    */
   static async playAudio(
-    base64Chunk: string,
+    audioChunk: AudioChunkData,
     turnId: string | number,
-    encoding?: Encoding
+    encoding?: Encoding,
+    sender?: Pick<IAudioPlayPayload, 'sentAt'>
   ): Promise<void> {
     try {
+      if (ExpoPlayAudioStream._turnBufferRouter.isEnabled()) {
+        return await ExpoPlayAudioStream._turnBufferRouter.play(
+          audioChunk,
+          `${turnId}`,
+          encoding ?? EncodingTypes.PCM_S16LE,
+          (audioData, directTurnId, directEncoding) =>
+            ExpoPlayAudioStreamModule.playAudio(
+              audioData,
+              directTurnId,
+              directEncoding
+            ),
+          sender
+        );
+      }
+
       return ExpoPlayAudioStreamModule.playAudio(
-        base64Chunk,
+        audioDataToBase64(audioChunk),
         `${turnId}`,
         encoding ?? EncodingTypes.PCM_S16LE
       );
     } catch (error) {
       console.error(error);
+      // Keep the reason code of chunks rejected by a throwing validation policy
+      if (error instanceof ChunkRejectedError) {
+        throw error;
+      }
       throw new Error(
         `Failed to stream audio chunk: ${error}`
       );
@@ -192,6 +268,7 @@ export class ExpoPlayAudioStream {
    */
   static async stopAudio(): Promise<void> {
     try {
+      ExpoPlayAudioStream._turnBufferRouter.drainAll();
       return await ExpoPlayAudioStreamModule.stopAudio();
     } catch (error) {
       console.error(error);
@@ -207,6 +284,7 @@ export class ExpoPlayAudioStream {
    */
   static async flushAudio(): Promise<void> {
     try {
+      ExpoPlayAudioStream._turnBufferRouter.clearAll();
       return await ExpoPlayAudioStreamModule.flushAudio();
     } catch (error) {
       console.error(error);
@@ -224,6 +302,7 @@ export class ExpoPlayAudioStream {
     turnId: string | number
   ): Promise<void> {
     try {
+      ExpoPlayAudioStream._turnBufferRouter.clearTurn(`${turnId}`);
       await ExpoPlayAudioStreamModule.clearPlaybackQueueByTurnId(
         `${turnId}`
       );
@@ -237,20 +316,20 @@ export class ExpoPlayAudioStream {
 
   /**
    * Plays a sound.
-   * @param {string} audio - The audio to play.
+   * @param {AudioChunkData} audio - The audio to play, base64 encoded or as binary PCM.
    * @param {string} turnId - The turn ID.
    * @param {string} [encoding] - The encoding format of the audio data ('pcm_f32le' or 'pcm_s16le').
    * @returns {Promise<void>}
    * @throws {Error} If the sound fails to play.
    */
   static async playSound(
-    audio: string,
+    audio: AudioChunkData,
     turnId: string,
     encoding?: Encoding
   ): Promise<void> {
     try {
       await ExpoPlayAudioStreamModule.playSound(
-        audio,
+        audioDataToBase64(audio),
         turnId,
         encoding ?? EncodingTypes.PCM_S16LE
       );
@@ -332,41 +411,34 @@ export class ExpoPlayAudioStream {
   /**
    * Starts a buffered audio stream for a specific turn ID.
    * This enables jitter buffering for improved audio quality on unreliable networks.
+   * Any stream already open for the turn ID is aborted first.
    * @param {BufferedStreamConfig} config - Configuration for the buffered stream.
-   * @returns {Promise<void>}
+   * @returns {Promise<BufferedStream>} A handle to write to, end or abort the stream.
    * @throws {Error} If the buffered stream fails to start.
    */
   static async startBufferedAudioStream(
     config: BufferedStreamConfig
-  ): Promise<void> {
+  ): Promise<BufferedStream> {
     try {
-      const bufferManager = new AudioBufferManager(
-        config.bufferConfig
-      );
-
-      bufferManager.setTurnId(config.turnId);
-      if (config.encoding) {
-        bufferManager.setEncoding(config.encoding);
+      const existingStream =
+        ExpoPlayAudioStream._bufferedStreams[config.turnId];
+      if (existingStream) {
+        await existingStream.abort();
       }
 
-      // Store the buffer manager for this turn ID
-      ExpoPlayAudioStream._bufferManagers[config.turnId] =
-        bufferManager;
+      const stream = new BufferedStream(config);
+      ExpoPlayAudioStream._bufferedStreams[config.turnId] = stream;
 
-      // Start buffered playback
-      bufferManager.startPlayback();
+      // Forget the stream once it has played out or been aborted
+      stream.done.then(() => {
+        if (
+          ExpoPlayAudioStream._bufferedStreams[config.turnId] === stream
+        ) {
+          delete ExpoPlayAudioStream._bufferedStreams[config.turnId];
+        }
+      });
 
-      // Set up health monitoring if callback provided
-      if (config.onBufferHealth) {
-        const healthCallback = config.onBufferHealth;
-        setInterval(() => {
-          if (bufferManager.isPlaying()) {
-            healthCallback(
-              bufferManager.getHealthMetrics()
-            );
-          }
-        }, 1000); // Report health every second
-      }
+      return stream;
     } catch (error) {
       console.error(error);
       throw new Error(
@@ -375,40 +447,59 @@ export class ExpoPlayAudioStream {
     }
   }
 
+  /**
+   * Subscribes to jitter buffer events for a buffered stream.
+   * Subscriptions are removed automatically when the stream stops.
+   * @param {string} turnId - The turn ID of a started buffered stream.
+   * @param {BufferEventName} eventName - The buffer event to listen for.
+   * @param {(event: IBufferEventMap[K]) => void} listener - Called with each event.
+   * @returns {EventSubscription} A subscription that can be removed early.
+   * @throws {Error} If no buffered stream exists for the turn ID.
+   */
+  static addBufferedStreamListener<K extends BufferEventName>(
+    turnId: string,
+    eventName: K,
+    listener: (event: IBufferEventMap[K]) => void
+  ): EventSubscription {
+    return ExpoPlayAudioStream._getBufferedStream(turnId).addListener(
+      eventName,
+      listener
+    );
+  }
+
   /**
    * Plays audio with jitter buffering for a specific turn ID.
    * The stream must be started first with startBufferedAudioStream().
-   * @param {string} base64Chunk - The base64 encoded audio chunk to play.
+   * @param {AudioChunkData} audioChunk - The audio chunk to play, base64 encoded or as binary PCM.
    * @param {string} turnId - The turn ID for the stream.
    * @param {boolean} isFirst - Whether this is the first chunk.
-   * @param {boolean} isFinal - Whether this is the final chunk.
+   * @param {boolean} isFinal - Whether this is the final chunk. The stream then plays out what it has buffered and closes.
+   * @param {Pick<IAudioPlayPayload, 'sequenceNumber' | 'timestamp' | 'sentAt'>} [sender] - Optional sender sequence number, media timestamp and send time, used to reorder chunks, detect loss and measure delay.
    * @returns {Promise<void>}
    * @throws {Error} If the audio chunk fails to buffer or the stream is not started.
+   * @throws {ChunkRejectedError} If the chunk fails validation and the buffer's validation policy throws.
    */
   static async playAudioBuffered(
-    base64Chunk: string,
+    audioChunk: AudioChunkData,
     turnId: string,
     isFirst?: boolean,
-    isFinal?: boolean
+    isFinal?: boolean,
+    sender?: Pick<
+      IAudioPlayPayload,
+      'sequenceNumber' | 'timestamp' | 'sentAt'
+    >
   ): Promise<void> {
     try {
-      const bufferManager =
-        ExpoPlayAudioStream._bufferManagers[turnId];
-      if (!bufferManager) {
-        throw new Error(
-          `No buffered stream found for turnId: ${turnId}. Call startBufferedAudioStream() first.`
-        );
-      }
-
-      const audioPayload: IAudioPlayPayload = {
-        audioData: base64Chunk,
-        isFirst: isFirst ?? false,
-        isFinal: isFinal ?? false,
-      };
-
-      bufferManager.enqueueFrames(audioPayload);
+      ExpoPlayAudioStream._getBufferedStream(turnId).write(
+        audioChunk,
+        { ...sender, isFirst, isFinal }
+      );
     } catch (error) {
       console.error(error);
+      // Keep the reason code of chunks rejected by a throwing validation policy
+      if (error instanceof ChunkRejectedError) {
+        throw error;
+      }
       throw new Error(
         `Failed to play buffered audio: ${error}`
       );
@@ -425,22 +516,61 @@ export class ExpoPlayAudioStream {
     turnId: string
   ): Promise<void> {
     try {
-      const bufferManager =
-        ExpoPlayAudioStream._bufferManagers[turnId];
-      if (bufferManager) {
-        bufferManager.stopPlayback();
-        bufferManager.destroy();
-        delete ExpoPlayAudioStream._bufferManagers[turnId];
+      const stream = ExpoPlayAudioStream._bufferedStreams[turnId];
+      delete ExpoPlayAudioStream._bufferedStreams[turnId];
+      if (stream) {
+        await stream.abort();
+      } else {
+        // Still clear the native queue for this turn ID
+        await ExpoPlayAudioStreamModule.clearSoundQueueByTurnId(
+          turnId
+        );
       }
+    } catch (error) {
+      console.error(error);
+      throw new Error(
+        `Failed to stop buffered audio stream: ${error}`
+      );
+    }
+  }
 
-      // Also clear the native queue for this turn ID
-      await ExpoPlayAudioStreamModule.clearSoundQueueByTurnId(
-        turnId
+  /**
+   * Pauses a buffered audio stream for a specific turn ID. Only this
+   * stream stops sending audio: what it already queued in the native
+   * player (up to nativeLeadMs) plays out, and other playback carries on.
+   * Chunks are still buffered while paused, and nothing is lost.
+   * @param {string} turnId - The turn ID for the stream to pause.
+   * @returns {Promise<void>}
+   * @throws {Error} If the stream is not started or fails to pause.
+   */
+  static async pauseBufferedAudioStream(
+    turnId: string
+  ): Promise<void> {
+    try {
+      ExpoPlayAudioStream._getBufferedStream(turnId).pause();
+    } catch (error) {
+      console.error(error);
+      throw new Error(
+        `Failed to pause buffered audio stream: ${error}`
       );
+    }
+  }
+
+  /**
+   * Resumes a paused buffered audio stream for a specific turn ID.
+   * @param {string} turnId - The turn ID for the stream to resume.
+   * @returns {Promise<void>}
+   * @throws {Error} If the stream is not started or fails to resume.
+   */
+  static async resumeBufferedAudioStream(
+    turnId: string
+  ): Promise<void> {
+    try {
+      ExpoPlayAudioStream._getBufferedStream(turnId).resume();
     } catch (error) {
       console.error(error);
       throw new Error(
-        `Failed to stop buffered audio stream: ${error}`
+        `Failed to resume buffered audio stream: ${error}`
       );
     }
   }
@@ -453,11 +583,8 @@ export class ExpoPlayAudioStream {
   static getBufferHealthMetrics(
     turnId: string
   ): IBufferHealthMetrics | null {
-    const bufferManager =
-      ExpoPlayAudioStream._bufferManagers[turnId];
-    return bufferManager
-      ? bufferManager.getHealthMetrics()
-      : null;
+    const stream = ExpoPlayAudioStream._bufferedStreams[turnId];
+    return stream ? stream.metrics : null;
   }
 
   /**
@@ -468,11 +595,8 @@ export class ExpoPlayAudioStream {
   static isBufferedAudioStreamPlaying(
     turnId: string
   ): boolean {
-    const bufferManager =
-      ExpoPlayAudioStream._bufferManagers[turnId];
-    return bufferManager
-      ? bufferManager.isPlaying()
-      : false;
+    const stream = ExpoPlayAudioStream._bufferedStreams[turnId];
+    return stream ? stream.isPlaying() : false;
   }
 
   /**
@@ -486,11 +610,9 @@ export class ExpoPlayAudioStream {
     config: Partial<IAudioBufferConfig>
   ): Promise<void> {
     try {
-      const bufferManager =
-        ExpoPlayAudioStream._bufferManagers[turnId];
-      if (bufferManager) {
-        bufferManager.updateConfig(config);
-        bufferManager.applyAdaptiveAdjustments();
+      const stream = ExpoPlayAudioStream._bufferedStreams[turnId];
+      if (stream) {
+        stream.updateConfig(config);
       }
     } catch (error) {
       console.error(error);
@@ -500,6 +622,16 @@ export class ExpoPlayAudioStream {
     }
   }
 
+  private static _getBufferedStream(turnId: string): BufferedStream {
+    const stream = ExpoPlayAudioStream._bufferedStreams[turnId];
+    if (!stream) {
+      throw new Error(
+        `No buffered stream found for turnId: ${turnId}. Call startBufferedAudioStream() first.`
+      );
+    }
+    return stream;
+  }
+
   // ============ END BUFFERED AUDIO METHODS ============
 
   /**
@@ -674,6 +806,8 @@ export class ExpoPlayAudioStream {
 
   /**
    * Sets the sound player configuration.
+   * enableBuffering and autoBuffer switch playAudio() to jitter-buffered
+   * playback; turns already buffering play out first.
    * @param {SoundConfig} config - Configuration options for the sound player.
    * @returns {Promise<void>}
    * @throws {Error} If the configuration fails to update.
@@ -685,6 +819,7 @@ export class ExpoPlayAudioStream {
       await ExpoPlayAudioStreamModule.setSoundConfig(
         config
       );
+      ExpoPlayAudioStream._turnBufferRouter.configure(config);
     } catch (error) {
       console.error(error);
       throw new Error(
@@ -693,6 +828,15 @@ export class ExpoPlayAudioStream {
     }
   }
 
+  /**
+   * Adds a ping/pong exchange with the sender, so autoBuffer can turn
+   * the sentAt times passed to playAudio() into one-way delay.
+   * @param {IClockSyncSample} sample - The ping/pong timestamps.
+   */
+  static addClockSyncSample(sample: IClockSyncSample): void {
+    ExpoPlayAudioStream._turnBufferRouter.addClockSyncSample(sample);
+  }
+
   /**
    * Requests audio recording permissions from the user.
    * @returns {Promise<{granted: boolean}>} A promise that resolves to the permission status.
@@ -742,6 +886,8 @@ export {
   EncodingTypes,
   PlaybackModes,
   // Audio jitter buffer types
+  AudioChunkData,
+  IAudioFormat,
   IAudioBufferConfig,
   IAudioPlayPayload,
   IAudioFrame,
@@ -749,11 +895,52 @@ export {
   IBufferHealthMetrics,
   IAudioBufferManager,
   IFrameProcessor,
+  ChunkRejectionReason,
+  Base64Strictness,
+  PartialSampleHandling,
+  IChunkValidationPolicy,
+  IChunkRejection,
+  ChunkRejectionCounts,
+  IValidationStats,
+  IPreRollPolicy,
+  PlaybackStartReason,
+  UnderrunRecovery,
+  ProducerProfile,
   IQualityMonitor,
+  IPacketReorderBuffer,
+  IReorderStats,
+  ConcealmentMode,
+  IConcealmentContext,
+  IConcealmentStrategy,
+  PlayoutMode,
+  IClock,
+  IScheduler,
+  TimerHandle,
+  PlayoutClock,
+  IAudioSink,
+  IAudioSinkSubscription,
+  IBufferEventMap,
+  BufferEventName,
   BufferedStreamConfig,
   SmartBufferConfig,
   SmartBufferMode,
   NetworkConditions,
+  BufferingTransitionReason,
+  IBufferingTransitionEvent,
+  IAdaptiveBufferEventMap,
+  IClockSyncSample,
+  NetworkConditionsProvider,
+  IConnectionInfo,
+  ConnectionInfoSource,
+  ITraceArrival,
+  INetworkTrace,
+  IReplayConfig,
+  IHealthStateChange,
+  IReplayReport,
+  IHealthSnapshot,
+  IHealthTransition,
+  IHealthHistory,
+  ISessionSummary,
 };
 
 // Re-export EventSubscription from expo-modules-core for convenience
@@ -763,8 +950,38 @@ export type { EventSubscription } from 'expo-modules-core';
 export {
   AudioBufferManager,
   FrameProcessor,
+  ChunkRejectedError,
+  DefaultChunkValidationPolicy,
   QualityMonitor,
+  PacketReorderBuffer,
+  FrameRingBuffer,
+  HealthHistory,
+  SilenceConcealment,
+  FadeRepeatConcealment,
+  WaveformExtensionConcealment,
+  ComfortNoiseConcealment,
+  createConcealmentStrategy,
+  timeStretch,
+  SystemClock,
+  VirtualClock,
+  ClockOffsetEstimator,
+  OneWayDelayEstimator,
+  NativeAudioSink,
+  BufferedStream,
   SmartBufferManager,
+  PingPongConditionsProvider,
+  ConnectionTypeConditionsProvider,
+  CompositeConditionsProvider,
+  DefaultConnectionProfiles,
+  SimulatedAudioSink,
+  replayTrace,
+  compareReplayConfigs,
+  DefaultAudioFormat,
+  getBytesPerSample,
+  getBlockAlign,
+  bytesToDurationMs,
+  durationMsToBytes,
+  resolveAudioFormat,
 } from './audio';
 
 // Export events
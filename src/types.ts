@@ -1,3 +1,5 @@
+import type { EventSubscription } from 'expo-modules-core';
+
 export const RecordingEncodingTypes = {
   PCM_32BIT: 'pcm_32bit',
   PCM_16BIT: 'pcm_16bit',
@@ -48,19 +50,28 @@ export interface SoundConfig {
   useDefault?: boolean;
 
   /**
-   * Enable jitter buffering for audio streams
+   * Enable jitter buffering for audio played with playAudio()
    */
   enableBuffering?: boolean;
 
   /**
-   * Automatically enable buffering based on network conditions
+   * Automatically enable buffering for playAudio() based on network
+   * conditions (ignored when enableBuffering is set)
    */
   autoBuffer?: boolean;
 
   /**
-   * Configuration for the jitter buffer when enableBuffering is true
+   * Configuration for the jitter buffer when enableBuffering or
+   * autoBuffer is set
    */
   bufferConfig?: Partial<IAudioBufferConfig>;
+
+  /**
+   * How long a buffered turn waits for its next chunk before it is
+   * played out and released, once its buffer has run dry (defaults to
+   * 1000 ms). Keep it well above the spacing between chunks
+   */
+  turnIdleTimeoutMs?: number;
 }
 
 /**
@@ -77,13 +88,30 @@ export interface BufferedStreamConfig {
    */
   encoding?: Encoding;
 
+  /**
+   * Sample rate of the streamed audio in Hz (defaults to 16000)
+   */
+  sampleRate?: SampleRate;
+
+  /**
+   * Number of interleaved channels in the streamed audio (defaults to 1)
+   */
+  channels?: 1 | 2;
+
+  /**
+   * How the producer paces audio (defaults to realtime). Use bursty for
+   * sources that send faster than real time, such as TTS services
+   */
+  producerProfile?: ProducerProfile;
+
   /**
    * Buffer configuration options
    */
   bufferConfig?: Partial<IAudioBufferConfig>;
 
   /**
-   * Callback for buffer health updates
+   * Callback for periodic buffer health updates, every
+   * bufferConfig.metricsIntervalMs (1000 ms unless configured)
    */
   onBufferHealth?: (metrics: IBufferHealthMetrics) => void;
 }
@@ -116,6 +144,49 @@ export interface NetworkConditions {
   jitter?: number; // Network jitter in ms
   packetLoss?: number; // Packet loss percentage (0-100)
   bandwidth?: number; // Available bandwidth estimate
+  oneWayDelay?: number; // Estimated sender-to-receiver delay in ms
+  delayVariation?: number; // Smoothed variation of the one-way delay in ms
+}
+
+/**
+ * Source of live network conditions that smart buffering subscribes to
+ */
+export interface NetworkConditionsProvider {
+  getConditions(): Partial<NetworkConditions>; // Latest known conditions
+  addListener(
+    listener: (conditions: Partial<NetworkConditions>) => void
+  ): EventSubscription; // Called whenever the conditions change
+}
+
+/**
+ * Connection details reported by the app. Shaped like the state of
+ * @react-native-community/netinfo so it can be passed straight through.
+ */
+export interface IConnectionInfo {
+  type: string; // 'wifi', 'cellular', 'ethernet', ...
+  details?: {
+    isConnectionExpensive?: boolean; // Metered, e.g. cellular or a hotspot
+    cellularGeneration?: string | null; // '2g', '3g', '4g' or '5g'
+  } | null;
+}
+
+/**
+ * Subscribes to connection changes and returns an unsubscribe function,
+ * like NetInfo.addEventListener
+ */
+export type ConnectionInfoSource = (
+  listener: (info: IConnectionInfo) => void
+) => () => void;
+
+/**
+ * One ping/pong exchange with the sender, NTP style. Client times are
+ * local clock readings, server times the sender's clock.
+ */
+export interface IClockSyncSample {
+  clientSendTime: number; // Local time the ping was sent
+  serverReceiveTime: number; // Sender time the ping arrived
+  serverSendTime?: number; // Sender time the pong left, defaults to serverReceiveTime
+  clientReceiveTime: number; // Local time the pong arrived
 }
 
 /**
@@ -129,6 +200,38 @@ export interface SmartBufferConfig {
     highJitterMs?: number; // Threshold to increase buffer size
     packetLossPercent?: number; // Threshold to enable buffering
   };
+  networkProvider?: NetworkConditionsProvider; // Live conditions, merged over networkConditions
+  bufferConfig?: Partial<IAudioBufferConfig>; // Base jitter buffer config and audio format, sized to network conditions while buffering
+  transitions?: {
+    cooldownMs?: number; // Minimum time between buffering switches (default 10000)
+    hysteresisPercent?: number; // How far below its thresholds the network must recover before buffering switches off (default 20)
+  };
+}
+
+/**
+ * Why BufferManagerAdaptive switched buffering on or off. 'recovered'
+ * means no condition calls for buffering any more.
+ */
+export type BufferingTransitionReason =
+  | 'latency'
+  | 'jitter'
+  | 'packetLoss'
+  | 'consecutiveProblems'
+  | 'bufferHealth'
+  | 'recovered';
+
+export interface IBufferingTransitionEvent {
+  bufferingEnabled: boolean;
+  reason: BufferingTransitionReason;
+  networkConditions: NetworkConditions; // Conditions the decision was made on
+}
+
+/**
+ * Events emitted by BufferManagerAdaptive
+ */
+export interface IAdaptiveBufferEventMap {
+  transition: IBufferingTransitionEvent;
+  drained: { isFinal: boolean }; // After drain(), once the buffers it drained have played out; always isFinal
 }
 
 export interface StartRecordingResult {
@@ -192,6 +295,144 @@ export interface AudioRecording {
 
 // Audio Jitter Buffer Types
 
+/**
+ * PCM format of the audio flowing through the jitter buffer
+ */
+export interface IAudioFormat {
+  sampleRate: SampleRate; // Sample rate in Hz
+  encoding: Encoding; // Sample encoding (pcm_s16le or pcm_f32le)
+  channels: 1 | 2; // Number of interleaved channels
+}
+
+/**
+ * Source of the current time in milliseconds
+ */
+export interface IClock {
+  now(): number;
+}
+
+/**
+ * Opaque handle returned by IScheduler.setTimeout
+ */
+export type TimerHandle = unknown;
+
+/**
+ * Clock that can also run callbacks after a delay
+ */
+export interface IScheduler extends IClock {
+  setTimeout(callback: () => void, delayMs: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+}
+
+/**
+ * Built-in strategies for synthesizing audio during buffer underruns
+ */
+export type ConcealmentMode =
+  | 'silence'
+  | 'fadeRepeat'
+  | 'waveformExtension'
+  | 'comfortNoise';
+
+/**
+ * Input handed to a concealment strategy when the buffer runs short
+ */
+export interface IConcealmentContext {
+  history: Float32Array; // Most recently played samples, interleaved and normalized to [-1, 1]
+  sampleFrames: number; // Number of sample frames to synthesize
+  format: IAudioFormat; // Format of the stream being concealed
+  consecutiveCount: number; // Concealed frames played since the last real frame
+}
+
+/**
+ * Strategy that synthesizes replacement audio for missing frames
+ */
+export interface IConcealmentStrategy {
+  conceal(context: IConcealmentContext): Float32Array;
+  reset(): void;
+}
+
+/**
+ * How playout keeps the buffer near its target level:
+ * - fixed: play frames unchanged, dropping frames on overrun
+ * - timeStretch: speed playback up or slow it down by a few percent
+ */
+export type PlayoutMode = 'fixed' | 'timeStretch';
+
+/**
+ * What paces the playout loop:
+ * - native: keep nativeLeadMs of audio queued in the native player, topping
+ *   it up as SoundChunkPlayed/SoundStarted report progress
+ * - timer: send frames on a JS timer at the frame interval
+ */
+export type PlayoutClock = 'native' | 'timer';
+
+/**
+ * Unsubscribe handle returned by IAudioSink listeners
+ */
+export interface IAudioSinkSubscription {
+  remove(): void;
+}
+
+/**
+ * Destination for played frames, reporting native playback progress
+ */
+export interface IAudioSink {
+  play(audioData: string, playbackId: string, encoding: Encoding): Promise<void>;
+  addChunkPlayedListener(
+    listener: (isFinal: boolean) => void
+  ): IAudioSinkSubscription;
+  addStartedListener(listener: () => void): IAudioSinkSubscription;
+}
+
+/**
+ * Why a chunk was rejected before framing
+ */
+export type ChunkRejectionReason =
+  | 'invalidPayload' // Missing, empty, or neither a string nor binary data
+  | 'invalidBase64' // Not base64 under the policy's strictness
+  | 'tooLarge' // Decoded size above maxChunkBytes
+  | 'partialSample' // Not a whole number of sample frames, with partialSamples 'reject'
+  | 'tooShort' // Duration below minChunkMs
+  | 'tooLong'; // Duration above maxChunkMs
+
+/**
+ * strict accepts only padded standard base64. lenient also strips
+ * whitespace, accepts URL-safe characters and restores missing padding.
+ */
+export type Base64Strictness = 'strict' | 'lenient';
+
+/**
+ * What to do with trailing bytes short of a whole sample frame: carry
+ * them into the next chunk, drop them, or reject the chunk
+ */
+export type PartialSampleHandling = 'carry' | 'drop' | 'reject';
+
+/**
+ * Checks a chunk must pass before it is framed
+ */
+export interface IChunkValidationPolicy {
+  maxChunkBytes: number; // Largest decoded chunk accepted, 0 for no limit
+  base64: Base64Strictness;
+  partialSamples: PartialSampleHandling;
+  minChunkMs: number; // Shortest chunk accepted, 0 for no limit
+  maxChunkMs: number; // Longest chunk accepted, 0 for no limit
+  onRejection: 'event' | 'throw'; // Report rejections as chunkRejected events, or throw ChunkRejectedError
+}
+
+/**
+ * A chunk rejected by the validation policy
+ */
+export interface IChunkRejection {
+  reason: ChunkRejectionReason;
+  message: string;
+  sequenceNumber?: number; // Sender sequence number of the chunk, if it had one
+}
+
+/**
+ * Rejected chunk counts by reason
+ */
+export type ChunkRejectionCounts = { [reason in ChunkRejectionReason]: number };
+
 /**
  * Configuration for audio buffer management
  */
@@ -200,15 +441,65 @@ export interface IAudioBufferConfig {
   minBufferMs: number; // Minimum buffer size before underrun handling
   maxBufferMs: number; // Maximum buffer size before overrun handling
   frameIntervalMs: number; // Expected frame interval in milliseconds
+  audioFormat: IAudioFormat; // Format used for durations and silence generation
+  reorderWindow: number; // Max out-of-order chunks held while waiting for a missing sequence number
+  concealment: ConcealmentMode | IConcealmentStrategy; // How audio is synthesized on underrun
+  playoutMode: PlayoutMode; // How the buffer level is steered toward target
+  maxTimeStretch: number; // Largest playback speed change in timeStretch mode, e.g. 0.06 for ±6%
+  eventWindowMs: number; // Sliding window for the recent underrun/overrun counts behind health and adaptation
+  playoutClock: PlayoutClock; // What paces frames out to the native player
+  nativeLeadMs: number; // Audio kept queued in the native player when playoutClock is native
+  metricsIntervalMs: number; // Interval for periodic metrics events while playing, 0 to disable
+  maxStoredBytes: number; // Memory cap on buffered PCM; the oldest frames are evicted past it, 0 for no cap
+  maxStoredMs: number; // Cap on buffered audio duration, enforced the same way, 0 for no cap
+  validation: Partial<IChunkValidationPolicy>; // Chunk checks; omitted fields take their defaults
+  historySize: number; // Health snapshots and state transitions kept by getHealthHistory, oldest dropped first
+  preRoll: Partial<IPreRollPolicy>; // When playback starts; omitted fields take their defaults
+  underrunRecovery: UnderrunRecovery; // How underruns are handled (default 'conceal')
+  refillThresholdMs: number; // Buffered audio to reach before resuming after a rebuffer, 0 for targetBufferMs
+  producerProfile: ProducerProfile; // How the producer paces audio (default 'realtime')
+}
+
+/**
+ * How much audio startPlayback waits for before the first frame plays
+ */
+export interface IPreRollPolicy {
+  startThresholdMs: number; // Buffered audio to wait for, targetBufferMs by default
+  maxWaitMs: number; // Start with whatever has arrived after this long (default 1000), 0 to wait for the threshold
+  startOnFinal: boolean; // Start once draining, e.g. after a final chunk shorter than the threshold (default true)
+  immediate: boolean; // Start on the first frame for the lowest latency (default false)
 }
 
 /**
- * Audio payload for playback containing base64 encoded audio data
+ * What ended the pre-roll
+ */
+export type PlaybackStartReason =
+  | 'threshold' // startThresholdMs was buffered
+  | 'timeout' // maxWaitMs passed first
+  | 'final' // Draining began first, see startOnFinal
+  | 'immediate'; // The first frame arrived in immediate mode
+
+/**
+ * PCM audio as a base64 string or binary data. Binary data is read in
+ * place, so it must not be modified after it has been passed in.
+ */
+export type AudioChunkData =
+  | string
+  | ArrayBuffer
+  | Uint8Array
+  | Int16Array
+  | Float32Array;
+
+/**
+ * Audio payload for playback containing PCM audio data
  */
 export interface IAudioPlayPayload {
-  audioData: string; // Base64 encoded PCM audio data
+  audioData: AudioChunkData; // Base64 encoded or binary PCM audio data
   isFirst?: boolean; // True if this is the first chunk in a stream
   isFinal?: boolean; // True if this is the final chunk in a stream
+  sequenceNumber?: number; // Sender sequence number, enables reordering and loss detection
+  timestamp?: number; // Sender media timestamp of the chunk in milliseconds
+  sentAt?: number; // Sender wall-clock time the chunk was sent, in milliseconds on the sender's clock
 }
 
 /**
@@ -228,7 +519,24 @@ export type BufferHealthState =
   | 'idle'
   | 'healthy'
   | 'degraded'
-  | 'critical';
+  | 'critical'
+  | 'rebuffering'; // Paused to refill, see underrunRecovery
+
+/**
+ * How the producer paces audio. realtime producers send at about
+ * playback speed, so audio past maxBufferMs is dropped as an overrun.
+ * bursty producers send much faster than real time, so the buffer holds
+ * everything as a backlog, bounded only by maxStoredBytes and
+ * maxStoredMs.
+ */
+export type ProducerProfile = 'realtime' | 'bursty';
+
+/**
+ * What the buffer does when it runs short. conceal keeps playing,
+ * filling gaps with synthesized audio. rebuffer plays out what it has,
+ * then pauses until refillThresholdMs is buffered again.
+ */
+export type UnderrunRecovery = 'conceal' | 'rebuffer';
 
 /**
  * Comprehensive buffer health and quality metrics
@@ -239,10 +547,101 @@ export interface IBufferHealthMetrics {
   underrunCount: number; // Total number of buffer underruns
   overrunCount: number; // Total number of buffer overruns
   averageJitter: number; // Average network jitter in milliseconds
+  interarrivalJitter: number; // RFC 3550 interarrival jitter estimate in milliseconds
+  jitterP50: number; // Median interarrival jitter over the event window in milliseconds
+  jitterP95: number; // 95th percentile interarrival jitter over the event window in milliseconds
+  jitterP99: number; // 99th percentile interarrival jitter over the event window in milliseconds
+  delayP50: number; // Median delay above the fastest chunk in the event window, in milliseconds
+  delayP95: number; // 95th percentile delay above the fastest chunk in the event window, in milliseconds
+  delayP99: number; // 99th percentile delay above the fastest chunk in the event window, in milliseconds
   bufferHealthState: BufferHealthState; // Current buffer health assessment
   adaptiveAdjustmentsCount: number; // Number of adaptive adjustments made
+  packetsLost: number; // Sequence numbers skipped or arriving too late to play
+  packetsReordered: number; // Chunks that arrived after a later sequence number
+  packetsLate: number; // Chunks dropped for arriving after their slot had passed, including those before the first sequence number seen
+  duplicates: number; // Chunks dropped because their sequence number was already received
+  concealedMs: number; // Milliseconds of audio synthesized to cover underruns
+  droppedMs: number; // Milliseconds of buffered audio dropped on overrun or evicted by the storage caps
+  rebufferCount: number; // Pauses to refill, see underrunRecovery
+  rebufferDurationMs: number; // Time spent paused to refill, including a pause in progress
+  chunksRejected: number; // Chunks rejected by the validation policy
+  chunkRejections: ChunkRejectionCounts; // chunksRejected broken down by reason
+}
+
+/**
+ * Events emitted by the jitter buffer, keyed by name
+ */
+export interface IBufferEventMap {
+  healthStateChanged: {
+    previousState: BufferHealthState;
+    state: BufferHealthState;
+    metrics: IBufferHealthMetrics;
+  };
+  underrun: { bufferMs: number }; // A frame had to be concealed
+  overrun: { bufferMs: number; droppedFrames: number; droppedMs: number };
+  rebuffering: { bufferMs: number; minBufferMs: number }; // Playout started starving after real audio
+  drained: { isFinal: boolean }; // Buffer ran empty; isFinal when a drain has finished playing out
+  metrics: IBufferHealthMetrics; // Periodic report, see metricsIntervalMs
+  chunkRejected: IChunkRejection; // A chunk failed validation and was dropped
+  sessionEnded: ISessionSummary; // Playback stopped, after draining or when stopped early
+  playbackStarted: {
+    reason: PlaybackStartReason;
+    preRollMs: number; // Audio buffered when the first frame played
+    waitedMs: number; // Time since startPlayback
+  };
+}
+
+/**
+ * A health snapshot in the buffer's time series
+ */
+export interface IHealthSnapshot {
+  time: number; // Clock time of the snapshot in milliseconds
+  metrics: IBufferHealthMetrics;
+}
+
+/**
+ * A move between buffer health states
+ */
+export interface IHealthTransition {
+  time: number; // Clock time of the move in milliseconds
+  previousState: BufferHealthState;
+  state: BufferHealthState;
+}
+
+/**
+ * Bounded health history of one playback session, see historySize.
+ * Snapshots are taken at metricsIntervalMs and when playback stops.
+ */
+export interface IHealthHistory {
+  snapshots: IHealthSnapshot[];
+  transitions: IHealthTransition[];
 }
 
+/**
+ * Totals for one playback session, from startPlayback until it stops.
+ * Plain data, so it serializes to JSON as is.
+ */
+export interface ISessionSummary {
+  turnId: string | null;
+  startTime: number; // Clock time playback started in milliseconds
+  durationMs: number; // Until playback stopped, or until now while playing
+  playedMs: number; // Received audio sent for playback
+  concealedMs: number; // Audio synthesized to cover underruns
+  droppedMs: number; // Received audio dropped on overrun or by the storage caps
+  underrunCount: number; // Concealed frames
+  underrunDurationMs: number; // Time from the first concealed frame of each underrun until real audio resumed
+  overrunCount: number;
+  overrunDurationMs: number; // Time the buffer spent above maxBufferMs
+  rebufferCount: number;
+  rebufferDurationMs: number; // Time paused to refill
+  averageBufferMs: number; // Time-weighted buffer level
+  peakBufferMs: number;
+  packetsLost: number;
+  chunksRejected: number;
+}
+
+export type BufferEventName = keyof IBufferEventMap;
+
 /**
  * Interface for audio buffer management
  */
@@ -250,12 +649,21 @@ export interface IAudioBufferManager {
   enqueueFrames(audioData: IAudioPlayPayload): void;
   startPlayback(): void;
   stopPlayback(): void;
+  pause(): void;
+  resume(): void;
   isPlaying(): boolean;
+  isPaused(): boolean;
   getHealthMetrics(): IBufferHealthMetrics;
   updateConfig(config: Partial<IAudioBufferConfig>): void;
   applyAdaptiveAdjustments(): void;
   destroy(): void;
   getCurrentBufferMs(): number;
+  getHealthHistory(): IHealthHistory;
+  getSessionSummary(): ISessionSummary;
+  addListener<K extends BufferEventName>(
+    eventName: K,
+    listener: (event: IBufferEventMap[K]) => void
+  ): EventSubscription;
 }
 
 /**
@@ -263,6 +671,40 @@ export interface IAudioBufferManager {
  */
 export interface IFrameProcessor {
   parseChunk(payload: IAudioPlayPayload): IAudioFrame[];
+  decodeChunk(payload: IAudioPlayPayload): Uint8Array | null;
+  setAudioFormat(format: IAudioFormat): void;
+  setValidationPolicy(policy: Partial<IChunkValidationPolicy>): void;
+  getStats(): IValidationStats;
+  reset(): void;
+}
+
+/**
+ * Counters reported by chunk validation
+ */
+export interface IValidationStats {
+  chunksRejected: number;
+  chunkRejections: ChunkRejectionCounts;
+}
+
+/**
+ * Counters reported by sequence number reordering
+ */
+export interface IReorderStats {
+  packetsLost: number;
+  packetsReordered: number;
+  packetsLate: number;
+  duplicates: number;
+}
+
+/**
+ * Interface for restoring sender order of sequenced payloads
+ */
+export interface IPacketReorderBuffer {
+  push(payload: IAudioPlayPayload): IAudioPlayPayload[];
+  flush(): IAudioPlayPayload[];
+  getHeldCount(): number;
+  setWindowSize(windowSize: number): void;
+  getStats(): IReorderStats;
   reset(): void;
 }
 
@@ -270,9 +712,14 @@ export interface IFrameProcessor {
  * Interface for quality monitoring
  */
 export interface IQualityMonitor {
-  recordFrameArrival(timestamp: number): void;
-  recordUnderrun(): void;
-  recordOverrun(): void;
+  recordFrameArrival(timestamp: number, senderTimestamp?: number): void;
+  recordUnderrun(timestamp?: number): void;
+  recordOverrun(timestamp?: number): void;
+  recordConcealment(durationMs: number): void;
+  recordDroppedAudio(durationMs: number): void;
+  recordRebuffer(): void;
+  recordRebufferTime(durationMs: number): void;
+  setEventWindow(eventWindowMs: number): void;
   updateBufferLevel(bufferMs: number): void;
   getMetrics(): IBufferHealthMetrics;
   getBufferHealthState(
@@ -282,3 +729,59 @@ export interface IQualityMonitor {
   getRecommendedAdjustment(): number;
   reset(): void;
 }
+
+/**
+ * One recorded chunk arrival in a network trace
+ */
+export interface ITraceArrival {
+  arrivalTime: number; // Receiver time the chunk arrived, in milliseconds
+  byteLength: number; // PCM bytes in the chunk
+  sequenceNumber?: number; // Sender sequence number, if the stream carried one
+  timestamp?: number; // Sender media timestamp in milliseconds, if the stream carried one
+  sentAt?: number; // Send time on the arrivalTime clock, adds network delay to the latency estimate
+}
+
+/**
+ * Chunk arrivals recorded from a real stream, for replay
+ */
+export interface INetworkTrace {
+  arrivals: ITraceArrival[];
+  audioFormat?: Partial<IAudioFormat>; // Format of the recorded audio, 16kHz s16 mono by default
+}
+
+/**
+ * A jitter buffer setup to replay a trace through. With smartBuffer the
+ * trace plays through BufferManagerAdaptive, otherwise AudioBufferManager.
+ */
+export interface IReplayConfig {
+  name?: string; // Label for the report
+  bufferConfig?: Partial<IAudioBufferConfig>;
+  smartBuffer?: SmartBufferConfig;
+}
+
+/**
+ * A change in buffer health during a replay
+ */
+export interface IHealthStateChange {
+  time: number; // Virtual time of the change, on the trace's clock
+  state: BufferHealthState;
+}
+
+/**
+ * Outcome of replaying a trace through one config
+ */
+export interface IReplayReport {
+  name: string;
+  receivedMs: number; // Audio in the trace
+  underruns: number; // Frames concealed because the buffer ran dry
+  concealedMs: number; // Audio synthesized to cover underruns
+  droppedMs: number; // Received audio dropped on overrun or by the storage caps
+  gapMs: number; // Silence in native playback once it had started, e.g. while direct playback starves
+  latency: {
+    meanMs: number; // Mean mouth-to-ear latency estimate over all chunks
+    p95Ms: number;
+    maxMs: number;
+  };
+  healthTimeline: IHealthStateChange[];
+  durationMs: number; // From the first arrival until playout finished
+}